@@ -13,7 +13,9 @@ import Members from './pages/Members';
 import Marketplace from './pages/Marketplace';
 import Businesses from './pages/Businesses';
 import BusinessDetails from './pages/BusinessDetails';
+import BusinessInsights from './pages/BusinessInsights';
 import Explore from './pages/Explore';
+import EventDetails from './pages/EventDetails';
 import Profile from './pages/Profile';
 import Messages from './pages/Messages';
 import Notifications from './pages/Notifications';
@@ -31,6 +33,7 @@ import Dashboard from './pages/admin/Dashboard';
 import AdminPosts from './pages/admin/AdminPosts';
 import AdminMembers from './pages/admin/Members';
 import AdminBusinesses from './pages/admin/AdminBusinesses';
+import AdminBusinessReviews from './pages/admin/AdminBusinessReviews';
 import AdminMarketplace from './pages/admin/AdminMarketplace';
 import AdminJobs from './pages/admin/AdminJobs';
 import AdminLayout from './Layout/AdminLayout';
@@ -39,6 +42,8 @@ import SupportTickets from './pages/admin/SupportTickets';
 import SupportTicketDetails from './pages/admin/SupportTicketDetails';
 import Announcements from './pages/admin/Announcements';
 import AdminManagement from './pages/admin/AdminManagement';
+import UserReports from './pages/admin/UserReports';
+import AdminStorage from './pages/admin/AdminStorage';
 // Legal pages
 import Terms from './pages/legal/Terms';
 import Privacy from './pages/legal/Privacy';
@@ -100,12 +105,15 @@ function App() {
             <Route path="/admin/dashboard" element={<AdminLayout><Dashboard /></AdminLayout>} />
             <Route path="/admin/members" element={<AdminLayout><AdminMembers /></AdminLayout>} />
             <Route path="/admin/AdminBusinesses" element={<AdminLayout><AdminBusinesses /></AdminLayout>} />
+            <Route path="/admin/business-reviews" element={<AdminLayout><AdminBusinessReviews /></AdminLayout>} />
             <Route path="/admin/AdminPosts" element={<AdminLayout><AdminPosts /></AdminLayout>} />
             <Route path="/admin/AdminMarketplace" element={<AdminLayout><AdminMarketplace /></AdminLayout>} />
             <Route path="/admin/AdminJobs" element={<AdminLayout><AdminJobs /></AdminLayout>} />
             <Route path="/admin/AdminEvents" element={<AdminLayout><AdminEvents/></AdminLayout>}/>
             <Route path="/admin/Announcements" element={<AdminLayout><Announcements/></AdminLayout>}/>
             <Route path="/admin/AdminManagement" element={<AdminLayout><AdminManagement/></AdminLayout>}/>
+            <Route path="/admin/reports" element={<AdminLayout><UserReports/></AdminLayout>}/>
+            <Route path="/admin/storage" element={<AdminLayout><AdminStorage/></AdminLayout>}/>
             
             <Route
               path="/admin/support"
@@ -137,7 +145,9 @@ function App() {
               <Route path="/marketplace/:id" element={<Layout><ListingDetails /></Layout>} />
               <Route path="/businesses" element={<Layout><Businesses /></Layout>} />
               <Route path="/business/:id" element={<Layout><BusinessDetails /></Layout>} />
+              <Route path="/business/:id/insights" element={<Layout><BusinessInsights /></Layout>} />
               <Route path="/explore" element={<Layout><Explore /></Layout>} />
+              <Route path="/event/:id" element={<Layout><EventDetails /></Layout>} />
               <Route path="/profile" element={<Layout><Profile /></Layout>} />
               <Route path="/profile/:userId" element={<Layout><Profile /></Layout>} />
               <Route path="/messages" element={<Layout><Conversations /></Layout>} />
@@ -0,0 +1,150 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { X, Camera, Star, GripVertical } from 'lucide-react';
+import { moveItem } from '../utils/imagePipeline';
+
+interface SortablePhotoGridProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  maxFiles: number;
+  maxSizeMb?: number;
+  disabled?: boolean;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Photo picker with drag-to-reorder; the first photo is the cover
+ */
+const SortablePhotoGrid: React.FC<SortablePhotoGridProps> = ({
+  files,
+  onChange,
+  maxFiles,
+  maxSizeMb = 5,
+  disabled = false,
+  onError
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+  useEffect(() => {
+    return () => previews.forEach(url => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  const handleAdd = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+
+    const selected = Array.from<File>(e.target.files);
+    const valid = selected.filter(file =>
+      file.type.startsWith('image/') && file.size <= maxSizeMb * 1024 * 1024
+    );
+
+    if (valid.length < selected.length) {
+      onError?.(`Only images up to ${maxSizeMb}MB can be added`);
+    }
+    if (files.length + valid.length > maxFiles) {
+      onError?.(`You can add up to ${maxFiles} photos`);
+    }
+
+    onChange([...files, ...valid].slice(0, maxFiles));
+    e.target.value = '';
+  }, [files, maxFiles, maxSizeMb, onChange, onError]);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveItem(files, dragIndex, index));
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+      {files.map((file, index) => (
+        <div
+          key={previews[index]}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setOverIndex(index);
+          }}
+          onDragLeave={() => setOverIndex(current => current === index ? null : current)}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setOverIndex(null);
+          }}
+          className={`relative aspect-square rounded-lg overflow-hidden border group transition-all ${
+            overIndex === index && dragIndex !== index ? 'border-blue-600 ring-2 ring-blue-500/40' : 'border-blue-200 hover:border-blue-400'
+          } ${dragIndex === index ? 'opacity-50' : ''} ${disabled ? '' : 'cursor-move'}`}
+        >
+          <img
+            src={previews[index]}
+            alt={`Photo ${index + 1}`}
+            className="w-full h-full object-cover pointer-events-none"
+            decoding="async"
+          />
+          {!disabled && (
+            <>
+              <GripVertical size={14} className="absolute bottom-1 left-1 text-white drop-shadow" />
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="absolute top-1 right-1 w-6 h-6 bg-black/80 text-white rounded-full
+                          flex items-center justify-center hover:bg-black active:scale-95
+                          focus:outline-none focus:ring-2 focus:ring-white/50 min-w-[24px] min-h-[24px]"
+                aria-label={`Remove photo ${index + 1}`}
+              >
+                <X size={12} />
+              </button>
+            </>
+          )}
+          {index === 0 ? (
+            <div className="absolute top-1 left-1 px-1 py-0.5 bg-gradient-to-r from-blue-600 to-blue-700
+                          text-white text-xs font-medium rounded-full">
+              Cover
+            </div>
+          ) : !disabled && (
+            // Tap target for touch screens, where dragging is unavailable
+            <button
+              type="button"
+              onClick={() => onChange(moveItem(files, index, 0))}
+              className="absolute bottom-1 right-1 flex items-center gap-0.5 px-1.5 py-0.5 bg-white/90
+                        text-blue-700 text-xs font-medium rounded-full hover:bg-white active:scale-95"
+              aria-label={`Make photo ${index + 1} the cover`}
+              title={file.name}
+            >
+              <Star size={10} />
+              Cover
+            </button>
+          )}
+        </div>
+      ))}
+
+      {files.length < maxFiles && !disabled && (
+        <label className="aspect-square border border-dashed border-blue-300 rounded-lg
+                        flex flex-col items-center justify-center cursor-pointer
+                        hover:border-blue-500 hover:bg-blue-50 active:scale-95
+                        transition-all group focus-within:border-blue-500 focus-within:ring-2
+                        focus-within:ring-blue-500/20">
+          <div className="w-8 h-8 rounded-full bg-gradient-to-r from-blue-100 to-blue-200
+                        flex items-center justify-center mb-2">
+            <Camera size={16} className="text-blue-600" />
+          </div>
+          <span className="text-xs font-medium text-blue-700">Add Photo</span>
+          <span className="text-xs text-gray-500 mt-0.5">Tap to select</span>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleAdd}
+            className="hidden"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default SortablePhotoGrid;
@@ -1,17 +1,20 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { Users, Briefcase, FileText, MessageCircle, Bell, BarChart2, Plus } from 'lucide-react';
+import { Users, Briefcase, FileText, MessageCircle, Bell, BarChart2, Plus, Flag, HardDrive, Star } from 'lucide-react';
 
 const AdminSidebar: React.FC = () => {
   const links = [
     { path: '/admin/dashboard', label: 'Dashboard', icon: BarChart2 },
     { path: '/admin/members', label: 'Members', icon: Users },
     { path: '/admin/AdminBusinesses', label: 'Businesses', icon: Briefcase },
+    { path: '/admin/business-reviews', label: 'Business Reviews', icon: Star },
     { path: '/admin/AdminPosts', label: 'Posts', icon: FileText },
     { path: '/admin/AdminMarketplace', label: 'Marketplace', icon: FileText },
     { path: '/admin/AdminJobs', label: 'Jobs', icon: FileText },
     { path: '/admin/AdminEvents', label: 'Events', icon: FileText },
     { path: '/admin/support', label: 'Help & Support', icon: MessageCircle },
+    { path: '/admin/reports', label: 'User Reports', icon: Flag },
+    { path: '/admin/storage', label: 'Storage', icon: HardDrive },
     { path: '/admin/Announcements', label: 'Announcements', icon: Bell },
     { path: '/admin/AdminManagement', label: 'Add Admin', icon: Plus },
   
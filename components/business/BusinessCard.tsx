@@ -3,6 +3,7 @@ import { Star, MapPin, CheckCircle, Building } from 'lucide-react';
 import { Business } from '../../types/business';
 import { Link } from 'react-router-dom';
 import VerifiedBadge from '../components/VerifiedBadge';
+import OpenStatusBadge from './OpenStatusBadge';
 
 interface Props {
   business: Business;
@@ -66,6 +67,8 @@ const BusinessCard: React.FC<Props> = ({ business }) => {
             {business.description?.length > 60 ? '...' : ''}
           </p>
 
+          <OpenStatusBadge hours={business.hours} className="mb-2" />
+
           <div className="flex items-center justify-between">
             <span className="px-2 py-0.5 bg-blue-100 text-blue-700 text-xs rounded-full">
               {business.category}
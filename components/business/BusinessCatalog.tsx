@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Plus, Package, Pencil, Trash2, ShoppingBag } from 'lucide-react';
+import { CatalogItem } from '../../types/business';
+import { catalogService } from '../../services/supabase/catalog';
+import { formatCatalogPrice } from '../../utils/formatters';
+import { getThumbnailUrl } from '../../utils/imagePipeline';
+import CatalogItemModal from './CatalogItemModal';
+
+interface BusinessCatalogProps {
+  businessId: string;
+  canManage: boolean;     // Owner, manager or staff
+}
+
+/**
+ * Products and services on a business page; the team adds, edits and marks items unavailable here
+ */
+const BusinessCatalog: React.FC<BusinessCatalogProps> = ({ businessId, canManage }) => {
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const location = useLocation();
+
+  const loadCatalog = useCallback(async () => {
+    try {
+      setItems(await catalogService.getCatalog(businessId));
+    } catch {
+      // Keep whatever is already shown
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  // Catalog search results link to /business/:id#catalog
+  useEffect(() => {
+    if (!loading && location.hash === '#catalog') {
+      document.getElementById('catalog')?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [loading, location.hash]);
+
+  const handleSaved = (saved: CatalogItem) => {
+    setItems(prev => prev.some(item => item.id === saved.id)
+      ? prev.map(item => item.id === saved.id ? saved : item)
+      : [...prev, saved]);
+  };
+
+  const handleToggleAvailable = async (item: CatalogItem) => {
+    setBusyId(item.id);
+    try {
+      await catalogService.setAvailability(item, !item.is_available);
+      setItems(prev => prev.map(current => current.id === item.id ? { ...current, is_available: !item.is_available } : current));
+    } catch (error: any) {
+      alert(error?.message || 'Failed to update availability');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (item: CatalogItem) => {
+    if (!confirm(`Remove "${item.name}" from your catalog?`)) return;
+
+    setBusyId(item.id);
+    try {
+      await catalogService.deleteItem(item);
+      setItems(prev => prev.filter(current => current.id !== item.id));
+    } catch (error: any) {
+      alert(error?.message || 'Failed to delete item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const visibleItems = canManage ? items : items.filter(item => item.is_available);
+
+  if (loading || (!canManage && visibleItems.length === 0)) return null;
+
+  return (
+    <div id="catalog" className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+      <div className="flex items-center justify-between mb-3 border-b border-blue-100 pb-2">
+        <h3 className="font-bold text-gray-900 text-xs">Products & Services</h3>
+        {canManage && (
+          <button
+            onClick={() => {
+              setEditingItem(null);
+              setShowModal(true);
+            }}
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={12} />
+            Add item
+          </button>
+        )}
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <div className="text-center py-4">
+          <Package size={20} className="text-gray-400 mx-auto mb-1" />
+          <p className="text-xs text-gray-500">List what you sell or offer so customers can see your range.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {visibleItems.map(item => (
+            <div
+              key={item.id}
+              className={`rounded-lg border border-blue-100 overflow-hidden flex flex-col ${item.is_available ? '' : 'opacity-60'}`}
+            >
+              <div className="aspect-square bg-blue-50">
+                {item.image_urls[0] ? (
+                  <img
+                    src={getThumbnailUrl(item.image_urls[0])}
+                    alt={item.name}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                    onError={(e) => {
+                      const img = e.currentTarget;
+                      if (img.src !== item.image_urls[0]) img.src = item.image_urls[0];
+                    }}
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Package size={24} className="text-blue-300" />
+                  </div>
+                )}
+              </div>
+              <div className="p-2 flex-1 flex flex-col">
+                <p className="text-xs font-bold text-gray-900 line-clamp-2">{item.name}</p>
+                <p className="text-xs text-blue-700 font-medium">{formatCatalogPrice(item)}</p>
+                {item.description && (
+                  <p className="text-xs text-gray-500 line-clamp-2 mt-0.5">{item.description}</p>
+                )}
+                {!item.is_available && (
+                  <span className="text-xs text-gray-500 italic mt-0.5">Currently unavailable</span>
+                )}
+                {item.listing_id && item.is_available && (
+                  <Link
+                    to={`/marketplace/${item.listing_id}`}
+                    className="mt-1 inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <ShoppingBag size={10} />
+                    Buy on Marketplace
+                  </Link>
+                )}
+
+                {canManage && (
+                  <div className="mt-auto pt-2 flex items-center justify-between gap-1">
+                    <button
+                      onClick={() => handleToggleAvailable(item)}
+                      disabled={busyId === item.id}
+                      className="text-xs text-gray-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      {item.is_available ? 'Mark unavailable' : 'Mark available'}
+                    </button>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => {
+                          setEditingItem(item);
+                          setShowModal(true);
+                        }}
+                        disabled={busyId === item.id}
+                        className="p-1 text-gray-500 hover:text-blue-600"
+                        aria-label={`Edit ${item.name}`}
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(item)}
+                        disabled={busyId === item.id}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        aria-label={`Delete ${item.name}`}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showModal && (
+        <CatalogItemModal
+          businessId={businessId}
+          item={editingItem}
+          onClose={() => setShowModal(false)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BusinessCatalog;
@@ -0,0 +1,215 @@
+import React from 'react';
+import { Clock, Plus, X, CalendarX } from 'lucide-react';
+import { BusinessHours, HoursException, TimeRange, Weekday } from '../../types/business';
+import { WEEKDAYS, DEFAULT_BUSINESS_HOURS, getTodayInKano } from '../../utils/businessHours';
+
+interface BusinessHoursEditorProps {
+  value: BusinessHours | null;
+  onChange: (hours: BusinessHours | null) => void;
+  disabled?: boolean;
+}
+
+const MAX_RANGES_PER_DAY = 3;
+
+const TimeRangeInputs: React.FC<{
+  range: TimeRange;
+  onChange: (range: TimeRange) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}> = ({ range, onChange, onRemove, disabled }) => (
+  <div className="flex items-center gap-1">
+    <input
+      type="time"
+      value={range.open}
+      onChange={(e) => onChange({ ...range, open: e.target.value })}
+      disabled={disabled}
+      className="px-2 py-1 border border-blue-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+      aria-label="Opens at"
+    />
+    <span className="text-xs text-gray-500">–</span>
+    <input
+      type="time"
+      value={range.close}
+      onChange={(e) => onChange({ ...range, close: e.target.value })}
+      disabled={disabled}
+      className="px-2 py-1 border border-blue-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+      aria-label="Closes at"
+    />
+    <button
+      type="button"
+      onClick={onRemove}
+      disabled={disabled}
+      className="p-1 text-gray-400 hover:text-red-600"
+      aria-label="Remove time range"
+    >
+      <X size={12} />
+    </button>
+  </div>
+);
+
+/**
+ * Weekly hours with optional breaks (a second range in the day) and holiday exceptions
+ */
+const BusinessHoursEditor: React.FC<BusinessHoursEditorProps> = ({ value, onChange, disabled = false }) => {
+  if (!value) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_BUSINESS_HOURS)}
+        disabled={disabled}
+        className="w-full flex items-center justify-center gap-2 p-3 border-2 border-dashed border-blue-200 rounded-xl text-xs font-medium text-blue-700 hover:border-blue-300 hover:bg-blue-50 disabled:opacity-50"
+      >
+        <Clock size={14} />
+        Add opening hours
+      </button>
+    );
+  }
+
+  const setDay = (day: Weekday, ranges: TimeRange[]) =>
+    onChange({ ...value, weekly: { ...value.weekly, [day]: ranges } });
+
+  const setException = (index: number, exception: HoursException) =>
+    onChange({ ...value, exceptions: value.exceptions.map((item, i) => i === index ? exception : item) });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {WEEKDAYS.map(day => {
+          const ranges = value.weekly[day.key] || [];
+          const isOpen = ranges.length > 0;
+
+          return (
+            <div key={day.key} className="flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-3">
+              <label className="flex items-center gap-2 w-28 pt-1 text-xs font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isOpen}
+                  onChange={(e) => setDay(day.key, e.target.checked ? [{ open: '08:00', close: '18:00' }] : [])}
+                  disabled={disabled}
+                  className="rounded border-blue-300 text-blue-600"
+                />
+                {day.label}
+              </label>
+              {isOpen ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  {ranges.map((range, index) => (
+                    <TimeRangeInputs
+                      key={index}
+                      range={range}
+                      onChange={(updated) => setDay(day.key, ranges.map((item, i) => i === index ? updated : item))}
+                      onRemove={() => setDay(day.key, ranges.filter((_, i) => i !== index))}
+                      disabled={disabled}
+                    />
+                  ))}
+                  {ranges.length < MAX_RANGES_PER_DAY && (
+                    <button
+                      type="button"
+                      onClick={() => setDay(day.key, [...ranges, { open: '14:00', close: '18:00' }])}
+                      disabled={disabled}
+                      className="flex items-center gap-0.5 text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      <Plus size={12} />
+                      Add hours after a break
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <span className="text-xs text-gray-500 pt-1">Closed</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border-t border-blue-100 pt-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-gray-700">Holidays & special days</span>
+          <button
+            type="button"
+            onClick={() => onChange({
+              ...value,
+              exceptions: [...value.exceptions, { date: getTodayInKano(), closed: true, note: '' }]
+            })}
+            disabled={disabled}
+            className="flex items-center gap-0.5 text-xs text-blue-600 hover:text-blue-700"
+          >
+            <CalendarX size={12} />
+            Add date
+          </button>
+        </div>
+
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="p-2 bg-blue-50/50 border border-blue-100 rounded-lg space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="date"
+                value={exception.date}
+                min={getTodayInKano()}
+                onChange={(e) => setException(index, { ...exception, date: e.target.value })}
+                disabled={disabled}
+                className="px-2 py-1 border border-blue-200 rounded-lg text-xs"
+                aria-label="Date"
+              />
+              <select
+                value={exception.closed ? 'closed' : 'special'}
+                onChange={(e) => setException(index, e.target.value === 'closed'
+                  ? { ...exception, closed: true, ranges: undefined }
+                  : { ...exception, closed: false, ranges: [{ open: '10:00', close: '14:00' }] })}
+                disabled={disabled}
+                className="px-2 py-1 border border-blue-200 rounded-lg text-xs bg-white"
+                aria-label="Hours on this date"
+              >
+                <option value="closed">Closed all day</option>
+                <option value="special">Special hours</option>
+              </select>
+              <input
+                type="text"
+                value={exception.note || ''}
+                onChange={(e) => setException(index, { ...exception, note: e.target.value })}
+                placeholder="e.g. Eid al-Fitr"
+                maxLength={60}
+                disabled={disabled}
+                className="flex-1 min-w-[120px] px-2 py-1 border border-blue-200 rounded-lg text-xs"
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, exceptions: value.exceptions.filter((_, i) => i !== index) })}
+                disabled={disabled}
+                className="p-1 text-gray-400 hover:text-red-600"
+                aria-label="Remove date"
+              >
+                <X size={12} />
+              </button>
+            </div>
+            {!exception.closed && exception.ranges?.map((range, rangeIndex) => (
+              <TimeRangeInputs
+                key={rangeIndex}
+                range={range}
+                onChange={(updated) => setException(index, {
+                  ...exception,
+                  ranges: exception.ranges?.map((item, i) => i === rangeIndex ? updated : item)
+                })}
+                onRemove={() => setException(index, {
+                  ...exception,
+                  ranges: exception.ranges?.filter((_, i) => i !== rangeIndex)
+                })}
+                disabled={disabled}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange(null)}
+        disabled={disabled}
+        className="text-xs text-gray-500 hover:text-red-600"
+      >
+        Don't show opening hours
+      </button>
+    </div>
+  );
+};
+
+export default BusinessHoursEditor;
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { Star, Flag, Pencil, MessageSquare } from 'lucide-react';
+import { Review } from '../../types/business';
+import { businessService } from '../../services/supabase/business';
+import { formatTimeAgo } from '../../utils/formatters';
+import VerifiedBadge from '../VerifiedBadge';
+import FlagReviewModal from './FlagReviewModal';
+
+interface BusinessReviewItemProps {
+  review: Review;
+  businessId: string;
+  businessName: string;
+  authorName: string;
+  isAuthor: boolean;     // Current user wrote this review
+  canReply: boolean;     // Current user may answer for the business
+  canFlag: boolean;
+  onChanged: (review: Review, rating?: { average_rating: number; review_count: number }) => void;
+}
+
+/**
+ * One review with the owner's reply, editing for the author and flagging for everyone else
+ */
+const BusinessReviewItem: React.FC<BusinessReviewItemProps> = ({
+  review,
+  businessId,
+  businessName,
+  authorName,
+  isAuthor,
+  canReply,
+  canFlag,
+  onChanged
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ rating: review.rating, comment: review.comment });
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState(review.owner_reply || '');
+  const [saving, setSaving] = useState(false);
+  const [showFlag, setShowFlag] = useState(false);
+  const [flagged, setFlagged] = useState(false);
+
+  const isTemporary = review.id.startsWith('temp_');
+
+  const handleSaveEdit = async () => {
+    if (!draft.comment.trim()) return;
+
+    setSaving(true);
+    try {
+      const rating = await businessService.updateReview(businessId, review.id, draft.rating, draft.comment);
+      onChanged(
+        { ...review, rating: draft.rating, comment: draft.comment.trim(), updated_at: new Date().toISOString() },
+        rating
+      );
+      setEditing(false);
+    } catch (error: any) {
+      alert(error?.message || 'Failed to update review. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveReply = async (reply: string) => {
+    setSaving(true);
+    try {
+      await businessService.replyToReview(businessId, review.id, reply);
+      onChanged({
+        ...review,
+        owner_reply: reply.trim() || null,
+        owner_reply_at: reply.trim() ? new Date().toISOString() : null
+      });
+      setReplying(false);
+    } catch (error: any) {
+      alert(error?.message || 'Failed to save reply. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-blue-200 p-3">
+      <div className="flex items-start gap-2 mb-2">
+        <div className="relative">
+          <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-full flex items-center justify-center text-white font-bold text-xs border-2 border-white">
+            {authorName.charAt(0)}
+          </div>
+          {review.user_verified && (
+            <div className="absolute -top-1 -right-1">
+              <VerifiedBadge size={10} />
+            </div>
+          )}
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center gap-1">
+              <span className="font-bold text-gray-900 text-xs">
+                {isAuthor ? 'You' : authorName}
+              </span>
+              {review.user_verified && <VerifiedBadge size={10} />}
+            </div>
+            <div className="flex items-center gap-1">
+              {[...Array(5)].map((_, i) => (
+                <Star
+                  key={i}
+                  size={10}
+                  className={i < review.rating ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}
+                />
+              ))}
+            </div>
+          </div>
+          <span className="text-xs text-gray-500">
+            {formatTimeAgo(review.created_at)}
+            {review.updated_at && ' · Edited'}
+          </span>
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {[1, 2, 3, 4, 5].map(star => (
+              <button
+                key={star}
+                onClick={() => setDraft(prev => ({ ...prev, rating: star }))}
+                className="p-1"
+                aria-label={`Rate ${star} stars`}
+              >
+                <Star
+                  size={16}
+                  className={star <= draft.rating ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}
+                />
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={draft.comment}
+            onChange={(e) => setDraft(prev => ({ ...prev, comment: e.target.value }))}
+            className="w-full p-2.5 border border-blue-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 min-h-[80px] text-xs"
+            rows={3}
+            maxLength={500}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="px-3 py-1.5 text-xs text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveEdit}
+              disabled={saving || !draft.comment.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-700 text-xs leading-relaxed">{review.comment}</p>
+      )}
+
+      {/* Owner reply */}
+      {replying ? (
+        <div className="mt-3 ml-4 space-y-2">
+          <textarea
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            placeholder="Reply publicly to this review..."
+            className="w-full p-2.5 border border-blue-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 min-h-[70px] text-xs"
+            rows={2}
+            maxLength={500}
+          />
+          <div className="flex justify-end gap-2">
+            {review.owner_reply && (
+              <button
+                onClick={() => handleSaveReply('')}
+                disabled={saving}
+                className="mr-auto px-3 py-1.5 text-xs text-red-600 hover:text-red-700"
+              >
+                Delete reply
+              </button>
+            )}
+            <button
+              onClick={() => setReplying(false)}
+              disabled={saving}
+              className="px-3 py-1.5 text-xs text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSaveReply(replyText)}
+              disabled={saving || !replyText.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Post reply'}
+            </button>
+          </div>
+        </div>
+      ) : review.owner_reply && (
+        <div className="mt-3 ml-4 p-2.5 bg-blue-50 border-l-2 border-blue-400 rounded-r-lg">
+          <p className="text-xs font-bold text-gray-900 mb-0.5">
+            Response from {businessName}
+            {review.owner_reply_at && (
+              <span className="font-normal text-gray-500"> · {formatTimeAgo(review.owner_reply_at)}</span>
+            )}
+          </p>
+          <p className="text-xs text-gray-700 leading-relaxed whitespace-pre-line">{review.owner_reply}</p>
+        </div>
+      )}
+
+      {!editing && !replying && !isTemporary && (isAuthor || canReply || canFlag) && (
+        <div className="flex items-center justify-end gap-3 mt-2">
+          {isAuthor && (
+            <button
+              onClick={() => {
+                setDraft({ rating: review.rating, comment: review.comment });
+                setEditing(true);
+              }}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <Pencil size={10} />
+              Edit
+            </button>
+          )}
+          {canReply && (
+            <button
+              onClick={() => {
+                setReplyText(review.owner_reply || '');
+                setReplying(true);
+              }}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <MessageSquare size={10} />
+              {review.owner_reply ? 'Edit reply' : 'Reply'}
+            </button>
+          )}
+          {canFlag && (
+            <button
+              onClick={() => setShowFlag(true)}
+              disabled={flagged}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 disabled:opacity-60"
+            >
+              <Flag size={10} />
+              {flagged ? 'Flagged' : 'Flag'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {showFlag && (
+        <FlagReviewModal
+          reviewId={review.id}
+          onClose={() => setShowFlag(false)}
+          onFlagged={() => setFlagged(true)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BusinessReviewItem;
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Users, UserPlus, MessageCircle, Crown, X, Search } from 'lucide-react';
+import { BusinessMember, BusinessRole } from '../../types/business';
+import { Member } from '../../types/index';
+import { businessService, hasBusinessPermission, BUSINESS_ROLE_LABELS } from '../../services/supabase/business';
+import { membersService } from '../../services/supabase/members';
+import { messagingService } from '../../services/supabase/messaging';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface BusinessTeamProps {
+  businessId: string;
+  businessName: string;
+  myRole: BusinessRole | null;
+  onTeamChanged: () => void;     // The current user's role may have changed
+}
+
+type InviteRole = Exclude<BusinessRole, 'owner'>;
+
+/**
+ * Who runs the business: customers can message the team, owners and managers manage it here
+ */
+const BusinessTeam: React.FC<BusinessTeamProps> = ({ businessId, businessName, myRole, onTeamChanged }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [members, setMembers] = useState<BusinessMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showInvite, setShowInvite] = useState(false);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Member[]>([]);
+  const [inviteRole, setInviteRole] = useState<InviteRole>('staff');
+
+  const canManage = hasBusinessPermission(myRole, 'manage_members');
+  const isOwner = myRole === 'owner';
+  const myInvitation = members.find(member => member.user_id === user?.id && member.status === 'invited');
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await businessService.getMembers(businessId));
+    } catch {
+      // Keep whatever is already shown
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  useEffect(() => {
+    if (!showInvite || search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const teamIds = new Set(members.map(member => member.user_id));
+      const found = await membersService.searchMembers(search.trim());
+      setResults(found.filter(member => !teamIds.has(member.id)).slice(0, 8));
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [search, showInvite, members]);
+
+  const runAction = async (key: string, action: () => Promise<void>, changesMyRole = false) => {
+    setBusyId(key);
+    try {
+      await action();
+      await loadMembers();
+      if (changesMyRole) onTeamChanged();
+    } catch (error: any) {
+      alert(error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = (member: Member) =>
+    runAction(member.id, async () => {
+      await businessService.inviteMember(businessId, member.id, inviteRole);
+      setSearch('');
+      setResults([]);
+    });
+
+  const handleRemove = (member: BusinessMember) => {
+    const isMe = member.user_id === user?.id;
+    const message = isMe
+      ? `Leave the ${businessName} team?`
+      : member.status === 'invited'
+        ? `Cancel ${member.user_name}'s invitation?`
+        : `Remove ${member.user_name} from the team?`;
+    if (!confirm(message)) return;
+
+    runAction(member.user_id, () => businessService.removeMember(businessId, member), isMe);
+  };
+
+  const handleTransfer = (member: BusinessMember) => {
+    if (!confirm(`Make ${member.user_name} the owner of ${businessName}? You will stay on the team as a manager.`)) return;
+    runAction(member.user_id, () => businessService.transferOwnership(businessId, member.user_id), true);
+  };
+
+  const handleMessage = async (member: BusinessMember) => {
+    setBusyId(member.user_id);
+    try {
+      const conversationId = await messagingService.getOrCreateConversation(member.user_id, 'marketplace');
+      navigate(`/messages/${conversationId}`);
+    } catch (error: any) {
+      alert(error?.message || 'Failed to start conversation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Pending invitations are only shown to those who manage the team
+  const visibleMembers = members.filter(member => member.status === 'active' || canManage);
+
+  if (loading || (visibleMembers.length === 0 && !myInvitation)) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+      <div className="flex items-center justify-between mb-3 border-b border-blue-100 pb-2">
+        <h3 className="flex items-center gap-1 font-bold text-gray-900 text-xs">
+          <Users size={12} className="text-blue-600" />
+          {myRole ? 'Team' : 'Talk to the team'}
+        </h3>
+        {canManage && (
+          <button
+            onClick={() => setShowInvite(prev => !prev)}
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            <UserPlus size={12} />
+            Invite
+          </button>
+        )}
+      </div>
+
+      {myInvitation && (
+        <div className="mb-3 p-2.5 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-xs text-gray-800 mb-2">
+            You've been invited to join {businessName} as {BUSINESS_ROLE_LABELS[myInvitation.role].toLowerCase()}.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => runAction('invitation', () => businessService.respondToInvitation(businessId, true), true)}
+              disabled={busyId === 'invitation'}
+              className="px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => runAction('invitation', () => businessService.respondToInvitation(businessId, false))}
+              disabled={busyId === 'invitation'}
+              className="px-3 py-1.5 text-xs text-gray-600 hover:text-gray-900"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showInvite && (
+        <div className="mb-3 p-2.5 border border-blue-100 rounded-lg space-y-2">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search members by name"
+                className="w-full pl-7 pr-2 py-1.5 border border-blue-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            </div>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+              className="px-2 py-1.5 border border-blue-200 rounded-lg text-xs bg-white"
+              aria-label="Role"
+            >
+              <option value="staff">Staff</option>
+              {isOwner && <option value="manager">Manager</option>}
+            </select>
+          </div>
+          {results.map(member => (
+            <div key={member.id} className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-800 truncate">
+                {[member.first_name, member.last_name].filter(Boolean).join(' ')}
+                {member.business_name && <span className="text-gray-500"> · {member.business_name}</span>}
+              </span>
+              <button
+                onClick={() => handleInvite(member)}
+                disabled={busyId === member.id}
+                className="flex-shrink-0 px-2 py-1 bg-blue-600 text-white text-xs rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Invite
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {visibleMembers.map(member => {
+          const isMe = member.user_id === user?.id;
+          const canRemove = member.role !== 'owner' && (isMe || (canManage && (member.role === 'staff' || isOwner)));
+
+          return (
+            <div key={member.user_id} className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white text-xs font-bold overflow-hidden flex-shrink-0">
+                {member.user_avatar ? (
+                  <img src={member.user_avatar} alt={member.user_name} className="w-full h-full object-cover" />
+                ) : (
+                  member.user_name.charAt(0)
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-gray-900 truncate">
+                  {member.user_name}{isMe && ' (you)'}
+                </p>
+                <p className="flex items-center gap-1 text-xs text-gray-500">
+                  {member.role === 'owner' && <Crown size={10} className="text-yellow-500" />}
+                  {BUSINESS_ROLE_LABELS[member.role]}
+                  {member.status === 'invited' && ' · Invited'}
+                </p>
+              </div>
+
+              {!myRole && user && !isMe && (
+                <button
+                  onClick={() => handleMessage(member)}
+                  disabled={busyId === member.user_id}
+                  className="flex items-center gap-1 px-2 py-1 border border-blue-200 rounded-lg text-xs text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                >
+                  <MessageCircle size={12} />
+                  Message
+                </button>
+              )}
+
+              {isOwner && member.role !== 'owner' && member.status === 'active' && (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={(e) => runAction(member.user_id, () =>
+                      businessService.updateMemberRole(businessId, member.user_id, e.target.value as InviteRole)
+                    )}
+                    disabled={busyId === member.user_id}
+                    className="px-1.5 py-1 border border-blue-200 rounded-lg text-xs bg-white"
+                    aria-label={`Role for ${member.user_name}`}
+                  >
+                    <option value="manager">Manager</option>
+                    <option value="staff">Staff</option>
+                  </select>
+                  <button
+                    onClick={() => handleTransfer(member)}
+                    disabled={busyId === member.user_id}
+                    className="p-1 text-gray-400 hover:text-yellow-600"
+                    aria-label={`Make ${member.user_name} the owner`}
+                    title="Make owner"
+                  >
+                    <Crown size={12} />
+                  </button>
+                </>
+              )}
+
+              {myRole && canRemove && (
+                <button
+                  onClick={() => handleRemove(member)}
+                  disabled={busyId === member.user_id}
+                  className={isMe ? 'text-xs text-gray-500 hover:text-red-600' : 'p-1 text-gray-400 hover:text-red-600'}
+                  aria-label={isMe ? 'Leave team' : `Remove ${member.user_name}`}
+                >
+                  {isMe ? 'Leave' : <X size={12} />}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BusinessTeam;
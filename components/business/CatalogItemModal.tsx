@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { X, AlertCircle, Upload } from 'lucide-react';
+import { CatalogItem, CatalogItemInput } from '../../types/business';
+import { MarketplaceListing } from '../../types/marketplace';
+import { catalogService, MAX_CATALOG_PHOTOS } from '../../services/supabase/catalog';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { useAuth } from '../../contexts/AuthContext';
+import { parsePriceInput, formatNaira } from '../../utils/money';
+import { getThumbnailUrl } from '../../utils/imagePipeline';
+import SortablePhotoGrid from '../SortablePhotoGrid';
+
+interface CatalogItemModalProps {
+  businessId: string;
+  item?: CatalogItem | null;     // Edit this item; add a new one when absent
+  onClose: () => void;
+  onSaved: (item: CatalogItem) => void;
+}
+
+const UNIT_SUGGESTIONS = ['per piece', 'per yard', 'per bundle', 'per bag', 'per carton', 'per dozen', 'per hour', 'per day', 'per job'];
+
+const CatalogItemModal: React.FC<CatalogItemModalProps> = ({ businessId, item, onClose, onSaved }) => {
+  const { user } = useAuth();
+  const [name, setName] = useState(item?.name || '');
+  const [description, setDescription] = useState(item?.description || '');
+  const [price, setPrice] = useState(item?.price != null ? String(item.price) : '');
+  const [unit, setUnit] = useState(item?.unit || '');
+  const [isAvailable, setIsAvailable] = useState(item?.is_available ?? true);
+  const [listingId, setListingId] = useState(item?.listing_id || '');
+  const [keptImageUrls, setKeptImageUrls] = useState<string[]>(item?.image_urls || []);
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+  const [listings, setListings] = useState<MarketplaceListing[]>([]);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Blank means "price on request"
+  const parsedPrice = price.trim() ? parsePriceInput(price).min : null;
+
+  useEffect(() => {
+    if (!user) return;
+    marketplaceService.getUserListings(user.id).then(result =>
+      setListings(result.filter(listing => !listing.is_sold))
+    );
+  }, [user]);
+
+  const validateForm = () => {
+    const errors: Record<string, string> = {};
+
+    if (!name.trim()) {
+      errors.name = 'Name is required';
+    }
+    if (price.trim() && (parsedPrice == null || parsedPrice <= 0)) {
+      errors.price = 'Enter a price like 8500, 15k or 1.2m, or leave it blank';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    const input: CatalogItemInput = {
+      name,
+      description,
+      price: parsedPrice,
+      unit,
+      is_available: isAvailable,
+      listing_id: listingId || null
+    };
+
+    setSaving(true);
+    try {
+      const saved = item
+        ? await catalogService.updateItem(item, input, keptImageUrls, newPhotos, (done, total) => setUploadProgress({ done, total }))
+        : await catalogService.createItem(businessId, input, newPhotos, (done, total) => setUploadProgress({ done, total }));
+      onSaved(saved);
+      onClose();
+    } catch (error: any) {
+      setFormErrors({ submit: error?.message || 'Failed to save item. Please try again.' });
+    } finally {
+      setSaving(false);
+      setUploadProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center p-0 md:p-3 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white w-full md:max-w-lg max-h-[90vh] md:max-h-[80vh] overflow-y-auto rounded-t-xl md:rounded-xl shadow-lg border border-blue-200">
+        <div className="sticky top-0 bg-gradient-to-r from-blue-50 to-blue-100/50 border-b border-blue-200 p-3 md:p-4 flex items-center justify-between backdrop-blur-sm z-10">
+          <div>
+            <h2 className="text-sm font-bold text-gray-900">{item ? 'Edit Item' : 'Add to Catalog'}</h2>
+            <p className="text-xs text-gray-600 mt-0.5">A product or service your business offers</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="p-1 hover:bg-white/80 rounded-full transition-colors active:scale-95 min-w-[36px] min-h-[36px] flex items-center justify-center"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-3 md:p-4 space-y-4">
+          <div className="space-y-1">
+            <label className="block text-xs font-semibold text-gray-700">Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Ankara wax print, Tailoring"
+              className={`w-full p-2 border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 ${
+                formErrors.name ? 'border-red-300' : 'border-blue-200'
+              }`}
+              maxLength={100}
+            />
+            {formErrors.name && (
+              <div className="flex items-center gap-1 text-red-600 text-xs">
+                <AlertCircle size={10} />
+                <span>{formErrors.name}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="block text-xs font-semibold text-gray-700">Price (₦)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder="Blank for price on request"
+                className={`w-full p-2 border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 ${
+                  formErrors.price ? 'border-red-300' : 'border-blue-200'
+                }`}
+              />
+              {parsedPrice != null && parsedPrice > 0 && !formErrors.price && (
+                <p className="text-xs text-gray-500">{formatNaira(parsedPrice)}</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <label className="block text-xs font-semibold text-gray-700">Unit</label>
+              <input
+                type="text"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value)}
+                placeholder="per yard"
+                list="catalog-unit-suggestions"
+                className="w-full p-2 border border-blue-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                maxLength={30}
+              />
+              <datalist id="catalog-unit-suggestions">
+                {UNIT_SUGGESTIONS.map(suggestion => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+          {formErrors.price && (
+            <div className="flex items-center gap-1 text-red-600 text-xs">
+              <AlertCircle size={10} />
+              <span>{formErrors.price}</span>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className="block text-xs font-semibold text-gray-700">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Sizes, colours, minimum order..."
+              className="w-full p-2 border border-blue-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 h-20 resize-none"
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-xs font-semibold text-gray-700">Photos</label>
+            {keptImageUrls.length > 0 && (
+              <div className="flex gap-2 flex-wrap">
+                {keptImageUrls.map(url => (
+                  <div key={url} className="relative w-16 h-16 rounded-lg overflow-hidden border border-blue-200">
+                    <img
+                      src={getThumbnailUrl(url)}
+                      alt=""
+                      className="w-full h-full object-cover"
+                      onError={(e) => {
+                        const img = e.currentTarget;
+                        if (img.src !== url) img.src = url;
+                      }}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setKeptImageUrls(prev => prev.filter(kept => kept !== url))}
+                      disabled={saving}
+                      className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 text-white rounded-full"
+                      aria-label="Remove photo"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {keptImageUrls.length < MAX_CATALOG_PHOTOS && (
+              <SortablePhotoGrid
+                files={newPhotos}
+                onChange={setNewPhotos}
+                maxFiles={MAX_CATALOG_PHOTOS - keptImageUrls.length}
+                disabled={saving}
+                onError={(message) => setFormErrors(prev => ({ ...prev, photos: message }))}
+              />
+            )}
+            {formErrors.photos && (
+              <div className="flex items-center gap-1 text-red-600 text-xs">
+                <AlertCircle size={10} />
+                <span>{formErrors.photos}</span>
+              </div>
+            )}
+          </div>
+
+          {listings.length > 0 && (
+            <div className="space-y-1">
+              <label className="block text-xs font-semibold text-gray-700">Marketplace listing</label>
+              <select
+                value={listingId}
+                onChange={(e) => setListingId(e.target.value)}
+                className="w-full p-2 border border-blue-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+              >
+                <option value="">Not linked</option>
+                {listings.map(listing => (
+                  <option key={listing.id} value={listing.id}>
+                    {listing.title} · {formatNaira(listing.price)}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">Customers can buy this item through your listing</p>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-xs text-gray-700 font-medium">
+            <input
+              type="checkbox"
+              checked={isAvailable}
+              onChange={(e) => setIsAvailable(e.target.checked)}
+              className="rounded border-blue-300 text-blue-600"
+            />
+            Available now
+          </label>
+
+          {formErrors.submit && (
+            <div className="p-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+              {formErrors.submit}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 text-xs min-h-[44px]"
+          >
+            {saving ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                <span>
+                  {uploadProgress && uploadProgress.done < uploadProgress.total
+                    ? `Uploading photos ${uploadProgress.done}/${uploadProgress.total}...`
+                    : 'Saving...'}
+                </span>
+              </>
+            ) : (
+              <>
+                <span>{item ? 'Save Changes' : 'Add Item'}</span>
+                <Upload size={14} />
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogItemModal;
@@ -1,9 +1,12 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { X, Upload, Store, MapPin, Mail, Phone, Globe, CheckCircle, AlertCircle, Building, ChevronRight, ChevronLeft, User, Briefcase, Navigation } from 'lucide-react';
-import { LOCATION_AXIS } from '../../types/business';
+import { LOCATION_AXIS, BusinessHours } from '../../types/business';
 import { useAuth } from '../../contexts/AuthContext';
 import { businessService } from '../../services/supabase/business';
 import { appCache } from '../../shared/services/UniversalCache';
+import SortablePhotoGrid from '../SortablePhotoGrid';
+import BusinessHoursEditor from './BusinessHoursEditor';
+import { validateHours, normalizeHours } from '../../utils/businessHours';
 
 interface CreateBusinessModalProps {
   isOpen: boolean;
@@ -11,6 +14,8 @@ interface CreateBusinessModalProps {
   onSubmit: (businessData: any) => Promise<string>;
 }
 
+const MAX_PHOTOS = 6;
+
 const CACHE_KEYS = {
   CATEGORIES: 'gkbc_business_categories',
   LOCATIONS: 'gkbc_location_counts'
@@ -38,11 +43,12 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
   });
   
   const [logoFile, setLogoFile] = useState<File | null>(null);
-  const [bannerFile, setBannerFile] = useState<File | null>(null);
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [hours, setHours] = useState<BusinessHours | null>(null);
   const [logoPreview, setLogoPreview] = useState<string>('');
-  const [bannerPreview, setBannerPreview] = useState<string>('');
   const [categories, setCategories] = useState<{ category: string; business_type: string; count: number }[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
@@ -102,9 +108,15 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
       setError('Please enter a valid email address');
       return false;
     }
+
+    const hoursError = hours && validateHours(hours);
+    if (hoursError) {
+      setError(hoursError);
+      return false;
+    }
     
     return true;
-  }, [formData]);
+  }, [formData, hours]);
 
   const formatWebsiteUrl = useCallback((url: string): string => {
     if (!url.trim()) return '';
@@ -129,6 +141,7 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
     if (!validateForm()) return;
     
     setUploading(true);
+    setUploadProgress({ done: 0, total: photoFiles.length + (logoFile ? 1 : 0) });
     setError('');
     setSuccess('');
     
@@ -144,8 +157,10 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
         phone: formData.phone.trim(),
         website: formData.website.trim() ? formatWebsiteUrl(formData.website) : undefined,
         logo_file: logoFile || undefined,
-        banner_file: bannerFile || undefined,
-        is_registered: formData.is_registered
+        photo_files: photoFiles,
+        hours: hours ? normalizeHours(hours) : null,
+        is_registered: formData.is_registered,
+        onUploadProgress: (done: number, total: number) => setUploadProgress({ done, total })
       };
 
       await onSubmit(businessData);
@@ -160,8 +175,9 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
       setError(error.message || 'Failed to create business. Please try again.');
     } finally {
       setUploading(false);
+      setUploadProgress(null);
     }
-  }, [formData, logoFile, bannerFile, isVerified, validateForm, formatWebsiteUrl, onSubmit, onClose]);
+  }, [formData, logoFile, photoFiles, hours, isVerified, validateForm, formatWebsiteUrl, onSubmit, onClose]);
 
   const resetForm = useCallback(() => {
     setFormData({
@@ -177,9 +193,9 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
       is_registered: false
     });
     setLogoFile(null);
-    setBannerFile(null);
+    setPhotoFiles([]);
+    setHours(null);
     setLogoPreview('');
-    setBannerPreview('');
     setStep(1);
     setError('');
     setSuccess('');
@@ -205,26 +221,6 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
     setError('');
   }, []);
 
-  const handleBannerUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files?.[0]) return;
-    
-    const file = e.target.files[0];
-    
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Banner file size should be less than 10MB');
-      return;
-    }
-    
-    if (!file.type.startsWith('image/')) {
-      setError('Please upload an image file for banner');
-      return;
-    }
-    
-    setBannerFile(file);
-    setBannerPreview(URL.createObjectURL(file));
-    setError('');
-  }, []);
-
   const removeLogoFile = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
     setLogoFile(null);
@@ -232,13 +228,6 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
     if (logoPreview) URL.revokeObjectURL(logoPreview);
   }, [logoPreview]);
 
-  const removeBannerFile = useCallback((e: React.MouseEvent) => {
-    e.stopPropagation();
-    setBannerFile(null);
-    setBannerPreview('');
-    if (bannerPreview) URL.revokeObjectURL(bannerPreview);
-  }, [bannerPreview]);
-
   const updateFormData = useCallback((field: keyof typeof formData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   }, []);
@@ -281,9 +270,12 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
   useEffect(() => {
     return () => {
       if (logoPreview) URL.revokeObjectURL(logoPreview);
-      if (bannerPreview) URL.revokeObjectURL(bannerPreview);
     };
-  }, [logoPreview, bannerPreview]);
+  }, [logoPreview]);
+
+  const submittingLabel = uploadProgress && uploadProgress.done < uploadProgress.total
+    ? `Uploading photos ${uploadProgress.done}/${uploadProgress.total}...`
+    : 'Submitting...';
 
   if (!isOpen) return null;
 
@@ -312,7 +304,7 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
                   {uploading ? (
                     <>
                       <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                      <span>Submitting...</span>
+                      <span>{submittingLabel}</span>
                     </>
                   ) : (
                     <>
@@ -563,7 +555,7 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
                   {/* Logo Upload */}
                   <div>
                     <label className="block text-xs font-medium text-gray-700 mb-1">
@@ -609,52 +601,25 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
                       />
                     </label>
                   </div>
+                </div>
 
-                  {/* Banner Upload */}
-                  <div>
-                    <label className="block text-xs font-medium text-gray-700 mb-1">
-                      Banner (Optional)
-                    </label>
-                    <label className={`block relative aspect-video border-2 border-dashed rounded-xl overflow-hidden cursor-pointer transition-all duration-300 ${
-                      uploading ? 'opacity-50 cursor-not-allowed' : 'hover:border-blue-300'
-                    } ${bannerFile ? 'border-blue-400' : 'border-blue-200'}`}>
-                      {bannerPreview ? (
-                        <>
-                          <img
-                            src={bannerPreview}
-                            alt="Banner preview"
-                            className="w-full h-full object-cover"
-                          />
-                          {!uploading && (
-                            <button
-                              type="button"
-                              onClick={removeBannerFile}
-                              className="absolute top-1 right-1 w-6 h-6 bg-black/70 text-white rounded-full flex items-center justify-center hover:bg-black/90 transition-colors duration-200 min-h-[24px] min-w-[24px]"
-                              aria-label="Remove banner"
-                            >
-                              <X size={12} />
-                            </button>
-                          )}
-                        </>
-                      ) : (
-                        <div className="w-full h-full flex flex-col items-center justify-center p-3">
-                          <div className="w-8 h-8 bg-blue-50 rounded-full flex items-center justify-center mb-1 border border-blue-200">
-                            <Upload size={14} className="text-blue-500" />
-                          </div>
-                          <span className="text-xs text-gray-600 font-medium">Upload Banner</span>
-                          <span className="text-xs text-gray-500 mt-0.5 text-center">Wide image, max 10MB</span>
-                        </div>
-                      )}
-                      <input
-                        type="file"
-                        accept="image/*"
-                        onChange={handleBannerUpload}
-                        className="hidden"
-                        disabled={uploading}
-                        aria-label="Upload business banner"
-                      />
+                {/* Photos */}
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-xs font-medium text-gray-700">
+                      Photos (Optional)
                     </label>
+                    <span className="text-xs text-gray-500">{photoFiles.length}/{MAX_PHOTOS}</span>
                   </div>
+                  <SortablePhotoGrid
+                    files={photoFiles}
+                    onChange={setPhotoFiles}
+                    maxFiles={MAX_PHOTOS}
+                    maxSizeMb={10}
+                    disabled={uploading}
+                    onError={setError}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Drag to reorder. The cover photo is used as your banner.</p>
                 </div>
               </div>
             )}
@@ -730,6 +695,13 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
                   </p>
                 </div>
 
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Opening Hours (Optional)
+                  </label>
+                  <BusinessHoursEditor value={hours} onChange={setHours} disabled={uploading} />
+                </div>
+
                 <div className={`p-3 rounded-xl border transition-all duration-300 ${
                   formData.is_registered 
                     ? 'bg-blue-50 border-blue-300' 
@@ -796,7 +768,7 @@ const CreateBusinessModal: React.FC<CreateBusinessModalProps> = ({
                   disabled={!isStepValid() || uploading || !isVerified}
                   className="flex-1 py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-medium rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed text-xs min-h-[36px]"
                 >
-                  {uploading ? 'Submitting...' : isVerified ? 'Submit Business' : 'Verified Members Only'}
+                  {uploading ? submittingLabel : isVerified ? 'Submit Business' : 'Verified Members Only'}
                 </button>
               )}
             </div>
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { X, Flag } from 'lucide-react';
+import { businessService, REVIEW_FLAG_REASONS } from '../../services/supabase/business';
+import { ReviewFlagReason } from '../../types/business';
+
+interface Props {
+  reviewId: string;
+  onClose: () => void;
+  onFlagged?: () => void;
+}
+
+const FlagReviewModal: React.FC<Props> = ({ reviewId, onClose, onFlagged }) => {
+  const [reason, setReason] = useState<ReviewFlagReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    try {
+      setSubmitting(true);
+      await businessService.flagReview(reviewId, reason, details);
+      onFlagged?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error flagging review:', error);
+      alert(error?.message || 'Failed to flag review. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="font-bold text-gray-900">Flag review</h3>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="p-2 hover:bg-gray-100 rounded-xl"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Moderators will check this review and remove it if it breaks the community rules. The author will not see who flagged it.
+          </p>
+
+          <div className="space-y-2">
+            {REVIEW_FLAG_REASONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                  reason === option.value ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="flag-reason"
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                  className="w-4 h-4 accent-red-600"
+                />
+                <span className="text-sm text-gray-900">{option.label}</span>
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Add details (optional)"
+            rows={3}
+            maxLength={1000}
+            className="w-full p-3 bg-gray-100 rounded-xl border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-red-500/30 resize-none"
+          />
+        </div>
+
+        <div className="p-4 border-t border-gray-200">
+          <button
+            onClick={handleSubmit}
+            disabled={!reason || submitting}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-red-600 text-white font-medium rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            {submitting ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <Flag className="w-4 h-4" />
+            )}
+            Submit flag
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlagReviewModal;
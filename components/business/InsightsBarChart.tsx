@@ -0,0 +1,49 @@
+import React from 'react';
+
+interface InsightsBarChartProps {
+  values: number[];
+  labels: string[];       // One per value, shown on hover
+  height?: number;
+}
+
+const InsightsBarChart: React.FC<InsightsBarChartProps> = ({ values, labels, height = 120 }) => {
+  if (values.length === 0) return null;
+
+  const width = 300;
+  const padding = 2;
+  const max = Math.max(...values, 1);
+  const slot = (width - padding * 2) / values.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  return (
+    <svg
+      width="100%"
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={`${total} in total, highest ${Math.max(...values)} in one period`}
+    >
+      <line x1={0} y1={height - 1} x2={width} y2={height - 1} stroke="#BFDBFE" strokeWidth={1} />
+      {values.map((value, index) => {
+        const barHeight = (value / max) * (height - padding * 2);
+        return (
+          <rect
+            key={labels[index] || index}
+            x={padding + index * slot + (slot - barWidth) / 2}
+            y={height - padding - barHeight}
+            width={barWidth}
+            height={barHeight}
+            rx={1}
+            fill={index === values.length - 1 ? '#1D4ED8' : '#60A5FA'}
+          >
+            <title>{`${labels[index]}: ${value}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default InsightsBarChart;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { BusinessHours } from '../../types/business';
+import { getOpenStatus } from '../../utils/businessHours';
+
+interface OpenStatusBadgeProps {
+  hours?: BusinessHours | null;
+  className?: string;
+}
+
+const OpenStatusBadge: React.FC<OpenStatusBadgeProps> = ({ hours, className = '' }) => {
+  const status = getOpenStatus(hours);
+  if (!status) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${
+        status.isOpen
+          ? 'bg-green-50 text-green-700 border-green-200'
+          : 'bg-gray-50 text-gray-600 border-gray-200'
+      } ${className}`}
+    >
+      <Clock size={10} />
+      {status.label}
+    </span>
+  );
+};
+
+export default OpenStatusBadge;
@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { X, DollarSign, MapPin, Briefcase, Mail, Phone, FileText } from 'lucide-react';
 import toast from 'react-hot-toast'; // ADD THIS IMPORT
+import { parsePriceInput, formatSalary } from '../../utils/money';
 
 interface CreateJobModalProps {
   isOpen: boolean;
@@ -184,6 +185,9 @@ const CreateJobModal: React.FC<CreateJobModalProps> = ({ isOpen, onClose, onSubm
                     autoComplete="off"
                   />
                 </div>
+                {salary.trim() && parsePriceInput(salary).min != null && (
+                  <p className="text-xs text-gray-500">Shown as {formatSalary(salary.trim())}</p>
+                )}
               </div>
 
               {/* Job Type */}
@@ -1,23 +1,18 @@
-import React, { useCallback } from 'react';
-import { MapPin, Briefcase, Clock, Mail, Phone, Building } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { MapPin, Briefcase, Clock, Mail, Phone, Building, Send } from 'lucide-react';
 import { Job } from '../../types/explore';
 import { formatTimeAgo } from '../../utils/formatters';
+import { formatSalary } from '../../utils/money';
 import VerifiedBadge from '../../components/VerifiedBadge';
+import ShareToChatModal from '../messaging/ShareToChatModal';
+import { jobShareCard } from '../../utils/shareCards';
 
 interface JobCardProps {
   job: Job;
 }
 
 const JobCard: React.FC<JobCardProps> = ({ job }) => {
-  const formatSalary = useCallback((salary: string): string => {
-    if (!salary) return '';
-    if (salary.toLowerCase().includes('negotiable') || salary.toLowerCase().includes('competitive')) {
-      return salary;
-    }
-    return salary.startsWith('₦') || salary.startsWith('$') || salary.startsWith('€') || salary.startsWith('£') 
-      ? salary 
-      : `₦${salary}`;
-  }, []);
+  const [showShareToChat, setShowShareToChat] = useState(false);
 
   const getPosterInitials = useCallback(() => {
     const getInitials = (name: string): string => {
@@ -214,6 +209,14 @@ const JobCard: React.FC<JobCardProps> = ({ job }) => {
             <div className="text-xs text-gray-500 font-medium">
               Contact Information
             </div>
+            <button
+              onClick={() => setShowShareToChat(true)}
+              className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+              aria-label={`Send ${job.title} in chat`}
+            >
+              <Send size={12} />
+              Send in chat
+            </button>
           </div>
           
           <div className="space-y-2">
@@ -285,6 +288,13 @@ const JobCard: React.FC<JobCardProps> = ({ job }) => {
           </div>
         )}
       </div>
+
+      {showShareToChat && (
+        <ShareToChatModal
+          card={jobShareCard(job)}
+          onClose={() => setShowShareToChat(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,245 @@
+import React, { useState, useCallback } from 'react';
+import { X, Download, FileSpreadsheet, Image as ImageIcon, AlertCircle, CheckCircle } from 'lucide-react';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { ListingImportRow, ListingImportResult } from '../../types/marketplace';
+import { buildImportTemplate, parseListingImport, MAX_IMPORT_ROWS } from '../../utils/listingImport';
+import { downloadCsv } from '../../utils/csv';
+import { formatNaira } from '../../utils/money';
+
+interface BulkImportModalProps {
+  onClose: () => void;
+  onImported: (createdCount: number) => void;
+}
+
+const BulkImportModal: React.FC<BulkImportModalProps> = ({ onClose, onImported }) => {
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [rows, setRows] = useState<ListingImportRow[] | null>(null);
+  const [parseError, setParseError] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<ListingImportResult[] | null>(null);
+
+  const validRows = rows?.filter(row => row.errors.length === 0) || [];
+  const invalidCount = (rows?.length || 0) - validRows.length;
+  const importing = progress !== null && results === null;
+
+  const handlePreview = useCallback(async () => {
+    if (!csvFile) return;
+
+    try {
+      setParseError('');
+      const text = await csvFile.text();
+      setRows(parseListingImport(text, imageFiles));
+    } catch (error: any) {
+      setRows(null);
+      setParseError(error?.message || 'Could not read this file');
+    }
+  }, [csvFile, imageFiles]);
+
+  const handleImport = useCallback(async () => {
+    if (validRows.length === 0) return;
+
+    setProgress({ done: 0, total: validRows.length });
+
+    const outcome = await marketplaceService.createListingsInBatches(validRows, (done, total) => {
+      setProgress({ done, total });
+    });
+
+    setResults(outcome);
+    onImported(outcome.filter(result => result.listingId).length);
+  }, [validRows, onImported]);
+
+  const handleClose = () => {
+    if (importing) return;
+    onClose();
+  };
+
+  const failed = results?.filter(result => result.error) || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center p-0 md:p-3 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white w-full md:max-w-3xl max-h-[90vh] overflow-y-auto rounded-t-xl md:rounded-xl shadow-lg border border-blue-200">
+        <div className="sticky top-0 bg-gradient-to-r from-blue-50 to-blue-100/50 border-b border-blue-200 p-3 md:p-4 flex items-center justify-between z-10">
+          <div>
+            <h2 className="text-sm font-bold text-gray-900">Bulk Import Listings</h2>
+            <p className="text-xs text-gray-600 mt-0.5">Upload a spreadsheet of up to {MAX_IMPORT_ROWS} items</p>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={importing}
+            className="p-1 hover:bg-white/80 rounded-full transition-colors min-w-[36px] min-h-[36px] flex items-center justify-center disabled:opacity-50"
+            aria-label="Close"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-3 md:p-4 space-y-4">
+          {results ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+                <CheckCircle size={16} className="text-green-600" />
+                <p className="text-sm text-green-800">
+                  Created {results.length - failed.length} of {results.length} listings
+                </p>
+              </div>
+              {failed.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                  {failed.map(result => (
+                    <p key={result.rowNumber} className="text-xs text-red-700">
+                      Row {result.rowNumber}: {result.error}
+                    </p>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={onClose}
+                className="w-full py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg text-xs font-medium min-h-[44px]"
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start gap-2 p-2 bg-blue-50 border border-blue-200 rounded-lg">
+                <FileSpreadsheet size={14} className="text-blue-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 text-xs text-gray-700">
+                  One row per item. List image file names in the <span className="font-mono">images</span> column
+                  separated by semicolons, then select those photos below.
+                </div>
+                <button
+                  type="button"
+                  onClick={() => downloadCsv('gkbc-listings-template.csv', buildImportTemplate())}
+                  className="flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-800 whitespace-nowrap"
+                >
+                  <Download size={12} />
+                  Template
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="flex items-center gap-2 p-3 border border-dashed border-blue-300 rounded-lg cursor-pointer hover:bg-blue-50">
+                  <FileSpreadsheet size={18} className="text-blue-600" />
+                  <span className="text-xs text-gray-700 truncate">
+                    {csvFile ? csvFile.name : 'Choose CSV file'}
+                  </span>
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      setCsvFile(e.target.files?.[0] || null);
+                      setRows(null);
+                    }}
+                  />
+                </label>
+                <label className="flex items-center gap-2 p-3 border border-dashed border-blue-300 rounded-lg cursor-pointer hover:bg-blue-50">
+                  <ImageIcon size={18} className="text-blue-600" />
+                  <span className="text-xs text-gray-700">
+                    {imageFiles.length > 0 ? `${imageFiles.length} images selected` : 'Choose product images'}
+                  </span>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      setImageFiles(Array.from(e.target.files || []));
+                      setRows(null);
+                    }}
+                  />
+                </label>
+              </div>
+
+              {parseError && (
+                <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle size={14} className="text-red-600 flex-shrink-0" />
+                  <p className="text-red-700 text-xs">{parseError}</p>
+                </div>
+              )}
+
+              {!rows ? (
+                <button
+                  onClick={handlePreview}
+                  disabled={!csvFile}
+                  className="w-full py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg text-xs font-medium disabled:opacity-50 min-h-[44px]"
+                >
+                  Check File
+                </button>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-700">
+                      {validRows.length} ready{invalidCount > 0 && `, ${invalidCount} with errors (skipped)`}
+                    </span>
+                  </div>
+
+                  <div className="border border-blue-200 rounded-lg overflow-x-auto max-h-72">
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-blue-50 sticky top-0">
+                        <tr>
+                          <th className="px-2 py-2 text-left font-medium text-gray-600">Row</th>
+                          <th className="px-2 py-2 text-left font-medium text-gray-600">Title</th>
+                          <th className="px-2 py-2 text-left font-medium text-gray-600">Price</th>
+                          <th className="px-2 py-2 text-left font-medium text-gray-600">Category</th>
+                          <th className="px-2 py-2 text-left font-medium text-gray-600">Images</th>
+                          <th className="px-2 py-2 text-left font-medium text-gray-600">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-blue-100">
+                        {rows.map(row => (
+                          <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                            <td className="px-2 py-2 text-gray-500">{row.rowNumber}</td>
+                            <td className="px-2 py-2 text-gray-900 max-w-[180px] truncate">{row.listing.title || '—'}</td>
+                            <td className="px-2 py-2 text-gray-900 whitespace-nowrap">
+                              {row.listing.price > 0 ? formatNaira(row.listing.price) : '—'}
+                            </td>
+                            <td className="px-2 py-2 text-gray-700">{row.listing.category || '—'}</td>
+                            <td className="px-2 py-2 text-gray-700">{row.listing.images.length}/{row.imageNames.length}</td>
+                            <td className="px-2 py-2">
+                              {row.errors.length === 0 ? (
+                                <span className="text-green-700">Ready</span>
+                              ) : (
+                                <ul className="text-red-700 space-y-0.5">
+                                  {row.errors.map(error => <li key={error}>{error}</li>)}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {progress && (
+                    <div className="space-y-1">
+                      <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-blue-600 to-blue-700 transition-all"
+                          style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+                        ></div>
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        Creating listings… {progress.done} of {progress.total}
+                      </p>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={handleImport}
+                    disabled={importing || validRows.length === 0}
+                    className="w-full py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg text-xs font-medium disabled:opacity-50 min-h-[44px]"
+                  >
+                    {importing ? 'Importing...' : `Import ${validRows.length} Listing${validRows.length === 1 ? '' : 's'}`}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportModal;
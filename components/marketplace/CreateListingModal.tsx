@@ -1,5 +1,10 @@
 import React, { useState, useCallback } from 'react';
-import { X, Upload, DollarSign, MapPin, Camera, AlertCircle, Info } from 'lucide-react';
+import { X, Upload, DollarSign, MapPin, AlertCircle, Info } from 'lucide-react';
+import { parsePriceInput, formatNaira, formatUsdReference } from '../../utils/money';
+import {
+  LISTING_CATEGORIES, getCategoryAttributes, validateAttributes, normalizeAttributes
+} from '../../utils/listingAttributes';
+import SortablePhotoGrid from '../SortablePhotoGrid';
 
 interface CreateListingModalProps {
   isOpen: boolean;
@@ -7,10 +12,6 @@ interface CreateListingModalProps {
   onSubmit: (listingData: any) => Promise<void>;
 }
 
-const CATEGORIES = [
-  'All', 'Electronics', 'Fashion', 'Vehicles', 'Property', 'Services', 'Others'
-];
-
 const CONDITIONS = [
   { value: 'new', label: 'Brand New' },
   { value: 'used', label: 'Used - Good' },
@@ -31,9 +32,15 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
   const [condition, setCondition] = useState('used');
   const [location, setLocation] = useState('');
   const [images, setImages] = useState<File[]>([]);
+  const [attributeValues, setAttributeValues] = useState<Record<string, string>>({});
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
+  // Accepts typed prices such as "150k", "1.2m" or "₦85,000"
+  const parsedPrice = parsePriceInput(price).min;
+  const attributeFields = getCategoryAttributes(category);
+
   const validateForm = useCallback((): boolean => {
     const errors: Record<string, string> = {};
 
@@ -45,7 +52,9 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
 
     if (!price) {
       errors.price = 'Price is required';
-    } else if (parseFloat(price) <= 0) {
+    } else if (parsedPrice == null) {
+      errors.price = 'Enter a price like 85000, 150k or 1.2m';
+    } else if (parsedPrice <= 0) {
       errors.price = 'Price must be greater than 0';
     }
 
@@ -61,9 +70,14 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
       errors.images = 'At least one image is required';
     }
 
+    const attributeErrors = validateAttributes(category, attributeValues);
+    for (const key of Object.keys(attributeErrors)) {
+      errors[`attr_${key}`] = attributeErrors[key];
+    }
+
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
-  }, [title, price, category, location, images]);
+  }, [title, price, parsedPrice, category, location, images, attributeValues]);
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -73,16 +87,19 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
     }
     
     setUploading(true);
+    setUploadProgress({ done: 0, total: images.length });
 
     try {
       const listingData = {
         title: title.trim(),
         description: description.trim(),
-        price: parseFloat(price),
+        price: parsedPrice,
         category,
         condition,
         location: location.trim(),
-        images
+        images,
+        attributes: normalizeAttributes(category, attributeValues),
+        onUploadProgress: (done: number, total: number) => setUploadProgress({ done, total })
       };
 
       await onSubmit(listingData);
@@ -92,8 +109,9 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
       // Error handled by parent
     } finally {
       setUploading(false);
+      setUploadProgress(null);
     }
-  }, [title, description, price, category, condition, location, images, validateForm, onSubmit, onClose]);
+  }, [title, description, parsedPrice, category, condition, location, images, attributeValues, validateForm, onSubmit, onClose]);
 
   const resetForm = useCallback(() => {
     setTitle('');
@@ -103,31 +121,18 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
     setCondition('used');
     setLocation('');
     setImages([]);
+    setAttributeValues({});
     setFormErrors({});
   }, []);
 
-  const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || e.target.files.length === 0) return;
-
-    const newFiles = Array.from(e.target.files);
-    
-    const validFiles = newFiles.filter(file => {
-      const isValidType = file.type.startsWith('image/');
-      const isValidSize = file.size <= 5 * 1024 * 1024;
-      return isValidType && isValidSize;
-    });
-
-    const totalImages = images.length + validFiles.length;
-    if (totalImages > MAX_IMAGES) {
-      return;
-    }
-
-    setImages(prev => [...prev, ...validFiles].slice(0, MAX_IMAGES));
-    e.target.value = '';
-  }, [images]);
+  const handleAttributeChange = useCallback((key: string, value: string) => {
+    setAttributeValues(prev => ({ ...prev, [key]: value }));
+    setFormErrors(prev => prev[`attr_${key}`] ? { ...prev, [`attr_${key}`]: '' } : prev);
+  }, []);
 
-  const removeImage = useCallback((index: number) => {
-    setImages(prev => prev.filter((_, i) => i !== index));
+  const handleImagesChange = useCallback((files: File[]) => {
+    setImages(files);
+    setFormErrors(prev => prev.images ? { ...prev, images: '' } : prev);
   }, []);
 
   const handleClose = useCallback(() => {
@@ -226,7 +231,8 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
                   <DollarSign className="text-gray-400" size={16} />
                 </div>
                 <input
-                  type="number"
+                  type="text"
+                  inputMode="decimal"
                   value={price}
                   onChange={(e) => {
                     setPrice(e.target.value);
@@ -234,17 +240,20 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
                       setFormErrors(prev => ({ ...prev, price: '' }));
                     }
                   }}
-                  placeholder="0.00"
+                  placeholder="e.g. 85,000 or 1.2m"
                   className={`w-full pl-10 pr-3 py-2 border rounded-lg text-xs 
                             focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 
                             transition-all ${
                     formErrors.price ? 'border-red-300' : 'border-blue-200'
                   }`}
-                  min="0"
-                  step="0.01"
                   required
                 />
               </div>
+              {parsedPrice != null && parsedPrice > 0 && !formErrors.price && (
+                <p className="text-xs text-gray-500">
+                  {formatNaira(parsedPrice)} <span className="text-gray-400">{formatUsdReference(parsedPrice)}</span>
+                </p>
+              )}
               {formErrors.price && (
                 <div className="flex items-center gap-1 text-red-600 text-xs">
                   <AlertCircle size={10} />
@@ -261,6 +270,7 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
                 value={category}
                 onChange={(e) => {
                   setCategory(e.target.value);
+                  setAttributeValues({});
                   if (formErrors.category) {
                     setFormErrors(prev => ({ ...prev, category: '' }));
                   }
@@ -273,7 +283,7 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
                 required
               >
                 <option value="">Select category</option>
-                {CATEGORIES.map(cat => (
+                {LISTING_CATEGORIES.map(cat => (
                   <option key={cat} value={cat} className="py-1">{cat}</option>
                 ))}
               </select>
@@ -286,6 +296,57 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
             </div>
           </div>
 
+          {attributeFields.length > 0 && (
+            <div className="space-y-2 p-3 bg-blue-50/50 border border-blue-100 rounded-lg">
+              <p className="text-xs font-semibold text-gray-700">{category} details</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {attributeFields.map(field => {
+                  const error = formErrors[`attr_${field.key}`];
+                  const inputClass = `w-full p-2 border rounded-lg text-xs bg-white focus:outline-none 
+                            focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all ${
+                    error ? 'border-red-300' : 'border-blue-200'
+                  }`;
+
+                  return (
+                    <div key={field.key} className="space-y-1">
+                      <label className="block text-xs font-semibold text-gray-700">
+                        {field.label}{field.unit ? ` (${field.unit})` : ''}{field.required ? ' *' : ''}
+                      </label>
+                      {field.type === 'select' ? (
+                        <select
+                          value={attributeValues[field.key] || ''}
+                          onChange={(e) => handleAttributeChange(field.key, e.target.value)}
+                          className={inputClass}
+                        >
+                          <option value="">Select {field.label.toLowerCase()}</option>
+                          {field.options?.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          inputMode={field.type === 'number' ? 'numeric' : undefined}
+                          value={attributeValues[field.key] || ''}
+                          onChange={(e) => handleAttributeChange(field.key, e.target.value)}
+                          placeholder={field.placeholder}
+                          className={inputClass}
+                          maxLength={60}
+                        />
+                      )}
+                      {error && (
+                        <div className="flex items-center gap-1 text-red-600 text-xs">
+                          <AlertCircle size={10} />
+                          <span>{error}</span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
             <div className="space-y-1">
               <label className="block text-xs font-semibold text-gray-700">
@@ -354,62 +415,13 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
               </span>
             </div>
             
-            <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
-              {images.map((file, index) => (
-                <div 
-                  key={index} 
-                  className="relative aspect-square rounded-lg overflow-hidden border border-blue-200 
-                            group hover:border-blue-400 transition-all"
-                >
-                  <img
-                    src={URL.createObjectURL(file)}
-                    alt={`Preview ${index + 1}`}
-                    className="w-full h-full object-cover"
-                    loading="lazy"
-                    decoding="async"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => removeImage(index)}
-                    className="absolute top-1 right-1 w-6 h-6 bg-black/80 text-white rounded-full 
-                              flex items-center justify-center opacity-0 group-hover:opacity-100 
-                              transition-opacity hover:bg-black active:scale-95 
-                              focus:outline-none focus:ring-2 focus:ring-white/50 min-w-[24px] min-h-[24px]"
-                    aria-label={`Remove image ${index + 1}`}
-                  >
-                    <X size={12} />
-                  </button>
-                  {index === 0 && (
-                    <div className="absolute top-1 left-1 px-1 py-0.5 bg-gradient-to-r from-blue-600 to-blue-700 
-                                  text-white text-xs font-medium rounded-full">
-                      Cover
-                    </div>
-                  )}
-                </div>
-              ))}
-              
-              {images.length < MAX_IMAGES && (
-                <label className="aspect-square border border-dashed border-blue-300 rounded-lg 
-                                flex flex-col items-center justify-center cursor-pointer 
-                                hover:border-blue-500 hover:bg-blue-50 active:scale-95 
-                                transition-all group focus-within:border-blue-500 focus-within:ring-2 
-                                focus-within:ring-blue-500/20">
-                  <div className="w-8 h-8 rounded-full bg-gradient-to-r from-blue-100 to-blue-200 
-                                flex items-center justify-center mb-2">
-                    <Camera size={16} className="text-blue-600" />
-                  </div>
-                  <span className="text-xs font-medium text-blue-700">Add Photo</span>
-                  <span className="text-xs text-gray-500 mt-0.5">Tap to select</span>
-                  <input
-                    type="file"
-                    accept="image/*"
-                    multiple
-                    onChange={handleImageUpload}
-                    className="hidden"
-                  />
-                </label>
-              )}
-            </div>
+            <SortablePhotoGrid
+              files={images}
+              onChange={handleImagesChange}
+              maxFiles={MAX_IMAGES}
+              disabled={uploading}
+              onError={(message) => setFormErrors(prev => ({ ...prev, images: message }))}
+            />
             
             {formErrors.images && (
               <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
@@ -433,7 +445,11 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
               {uploading ? (
                 <>
                   <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                  <span>Creating...</span>
+                  <span>
+                    {uploadProgress && uploadProgress.done < uploadProgress.total
+                      ? `Uploading photos ${uploadProgress.done}/${uploadProgress.total}...`
+                      : 'Creating...'}
+                  </span>
                 </>
               ) : (
                 <>
@@ -451,7 +467,7 @@ const CreateListingModal: React.FC<CreateListingModalProps> = ({
               <p className="text-blue-800 text-xs font-medium mb-0.5">Photo Guidelines</p>
               <ul className="text-blue-700 text-xs space-y-0.5">
                 <li>• Upload up to {MAX_IMAGES} clear photos</li>
-                <li>• First photo is cover image</li>
+                <li>• Drag to reorder; the first photo is the cover</li>
                 <li>• Use good lighting</li>
                 <li>• Max 5MB per photo</li>
               </ul>
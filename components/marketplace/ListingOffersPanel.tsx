@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, X, Repeat, MessageCircle, CheckCircle, Tag } from 'lucide-react';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { MarketplaceListing, MarketplaceOffer } from '../../types/marketplace';
+import { formatNaira } from '../../utils/money';
+import { formatTimeAgo } from '../../utils/formatters';
+import OfferStatusBadge from './OfferStatusBadge';
+import MakeOfferModal from './MakeOfferModal';
+
+interface ListingOffersPanelProps {
+  listing: Pick<MarketplaceListing, 'id' | 'title' | 'price' | 'is_sold'>;
+  onListingChange: (updates: Partial<MarketplaceListing>) => void;
+}
+
+/**
+ * Seller's view of every offer made on a listing
+ */
+const ListingOffersPanel: React.FC<ListingOffersPanelProps> = ({ listing, onListingChange }) => {
+  const navigate = useNavigate();
+  const [offers, setOffers] = useState<MarketplaceOffer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [counterFor, setCounterFor] = useState<MarketplaceOffer | null>(null);
+
+  const loadOffers = useCallback(async () => {
+    const data = await marketplaceService.getListingOffers(listing.id);
+    setOffers(data);
+    setLoading(false);
+  }, [listing.id]);
+
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers]);
+
+  const runAction = async (offerId: string, action: () => Promise<unknown>) => {
+    try {
+      setBusyId(offerId);
+      await action();
+      await loadOffers();
+    } catch (error: any) {
+      console.error('Offer action failed:', error);
+      alert(error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAccept = (offer: MarketplaceOffer) => {
+    if (!confirm(`Accept ${formatNaira(offer.amount)} from ${offer.buyer_name}? Other open offers will be declined.`)) return;
+
+    runAction(offer.id, async () => {
+      await marketplaceService.acceptOffer(offer.id);
+      onListingChange({ is_reserved: true, reserved_for: offer.buyer_id });
+    });
+  };
+
+  const handleMarkSold = (offer: MarketplaceOffer) => {
+    runAction(offer.id, async () => {
+      await marketplaceService.markAsSold(listing.id);
+      onListingChange({ is_sold: true });
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (offers.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Tag className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+        <p className="font-medium text-gray-700">No offers yet</p>
+        <p className="text-sm text-gray-500">Offers buyers make on this listing will show up here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {offers.map(offer => {
+        const awaitingSeller = offer.status === 'pending' && offer.created_by === offer.buyer_id;
+        const busy = busyId === offer.id;
+
+        return (
+          <div key={offer.id} className="p-4 bg-white border border-blue-200 rounded-xl shadow-sm">
+            <div className="flex items-center gap-3">
+              {offer.buyer_avatar ? (
+                <img src={offer.buyer_avatar} alt={offer.buyer_name} className="w-10 h-10 rounded-full object-cover" />
+              ) : (
+                <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-500 rounded-full flex items-center justify-center text-white font-bold">
+                  {offer.buyer_name?.charAt(0)?.toUpperCase() || 'U'}
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-900 truncate">{offer.buyer_name}</p>
+                <p className="text-xs text-gray-500">
+                  {offer.created_by === offer.seller_id ? 'Your counter' : 'Offered'} {formatTimeAgo(offer.created_at)}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-bold text-blue-600">{formatNaira(offer.amount)}</p>
+                <OfferStatusBadge status={offer.status} />
+              </div>
+            </div>
+
+            {offer.message && (
+              <p className="text-sm text-gray-700 mt-3 p-2 bg-gray-50 rounded-lg whitespace-pre-wrap">{offer.message}</p>
+            )}
+
+            <div className="flex flex-wrap gap-2 mt-3">
+              {awaitingSeller && (
+                <>
+                  <button
+                    onClick={() => handleAccept(offer)}
+                    disabled={busy}
+                    className="px-3 py-2 bg-green-600 text-white rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Check size={14} />
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => setCounterFor(offer)}
+                    disabled={busy}
+                    className="px-3 py-2 bg-blue-50 text-blue-700 border border-blue-200 rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-blue-100 disabled:opacity-50"
+                  >
+                    <Repeat size={14} />
+                    Counter
+                  </button>
+                  <button
+                    onClick={() => runAction(offer.id, () => marketplaceService.declineOffer(offer.id))}
+                    disabled={busy}
+                    className="px-3 py-2 bg-red-50 text-red-600 border border-red-200 rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-red-100 disabled:opacity-50"
+                  >
+                    <X size={14} />
+                    Decline
+                  </button>
+                </>
+              )}
+              {offer.status === 'accepted' && !listing.is_sold && (
+                <button
+                  onClick={() => handleMarkSold(offer)}
+                  disabled={busy}
+                  className="px-3 py-2 bg-green-600 text-white rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-green-700 disabled:opacity-50"
+                >
+                  <CheckCircle size={14} />
+                  Mark as Sold
+                </button>
+              )}
+              {offer.conversation_id && (
+                <button
+                  onClick={() => navigate(`/messages/${offer.conversation_id}`)}
+                  className="px-3 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg text-sm font-medium flex items-center gap-1 hover:bg-gray-50"
+                >
+                  <MessageCircle size={14} />
+                  Chat
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {counterFor && (
+        <MakeOfferModal
+          title={`Counter ${counterFor.buyer_name}`}
+          listingTitle={listing.title}
+          askingPrice={listing.price}
+          initialAmount={counterFor.amount}
+          submitLabel="Send Counter Offer"
+          onClose={() => setCounterFor(null)}
+          onSubmit={(amount, message) =>
+            runAction(counterFor.id, () => marketplaceService.counterOffer(counterFor.id, amount, message))
+          }
+        />
+      )}
+    </div>
+  );
+};
+
+export default ListingOffersPanel;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { X, Tag, AlertCircle } from 'lucide-react';
+import { parsePriceInput, formatNaira } from '../../utils/money';
+
+interface MakeOfferModalProps {
+  title: string;
+  listingTitle: string;
+  askingPrice: number;
+  initialAmount?: number;
+  submitLabel?: string;
+  onClose: () => void;
+  onSubmit: (amount: number, message: string) => Promise<void>;
+}
+
+const MakeOfferModal: React.FC<MakeOfferModalProps> = ({
+  title,
+  listingTitle,
+  askingPrice,
+  initialAmount,
+  submitLabel = 'Send Offer',
+  onClose,
+  onSubmit
+}) => {
+  const [amountText, setAmountText] = useState(initialAmount ? String(initialAmount) : '');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const amount = parsePriceInput(amountText).min;
+  const percentOfAsking = amount && askingPrice > 0 ? Math.round((amount / askingPrice) * 100) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (amount == null || amount <= 0) {
+      setError('Enter an amount like 85000, 150k or 1.2m');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+      await onSubmit(amount, message);
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to send offer. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white w-full max-w-md rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="font-bold text-gray-900">{title}</h3>
+            <p className="text-xs text-gray-500 truncate">
+              {listingTitle} • asking {formatNaira(askingPrice)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="p-2 hover:bg-gray-100 rounded-xl"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="space-y-1">
+            <label className="block text-xs font-semibold text-gray-700">Your offer (₦)</label>
+            <div className="relative">
+              <Tag className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amountText}
+                onChange={(e) => {
+                  setAmountText(e.target.value);
+                  setError('');
+                }}
+                placeholder="e.g. 85,000 or 1.2m"
+                className="w-full pl-9 pr-3 py-2 border border-blue-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                autoFocus
+              />
+            </div>
+            {amount != null && amount > 0 && (
+              <p className="text-xs text-gray-500">
+                {formatNaira(amount)}
+                {percentOfAsking != null && ` • ${percentOfAsking}% of asking price`}
+              </p>
+            )}
+          </div>
+
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Add a note (optional)"
+            rows={2}
+            maxLength={300}
+            className="w-full p-3 border border-blue-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 resize-none"
+          />
+
+          {error && (
+            <div className="flex items-center gap-1 text-red-600 text-xs">
+              <AlertCircle size={12} />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting || !amountText.trim()}
+            className="w-full py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold rounded-xl disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {submitting && (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            )}
+            {submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MakeOfferModal;
@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { Heart, MapPin, Eye, User, Shield } from 'lucide-react';
 import { MarketplaceListing } from '../../types/marketplace';
 import { formatTimeAgo } from '../../utils/formatters';
+import { formatNaira } from '../../utils/money';
+import { getThumbnailUrl } from '../../utils/imagePipeline';
 import { useAuth } from '../../contexts/AuthContext';
 
 interface MarketplaceListingCardProps {
@@ -52,6 +54,14 @@ const MarketplaceListingCard: React.FC<MarketplaceListingCardProps> = ({
 
   const handleImageError = (e: React.SyntheticEvent<HTMLImageElement>) => {
     const target = e.target as HTMLImageElement;
+
+    // Listings uploaded before thumbnails existed only have the full-size image
+    if (!target.dataset.fullSize) {
+      target.dataset.fullSize = 'true';
+      target.src = listing.images[0];
+      return;
+    }
+
     target.style.display = 'none';
     const parent = target.parentElement;
     if (parent) {
@@ -75,7 +85,7 @@ const MarketplaceListingCard: React.FC<MarketplaceListingCardProps> = ({
                 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400"
       role="button"
       tabIndex={0}
-      aria-label={`View ${listing.title} - ₦${listing.price.toLocaleString()}`}
+      aria-label={`View ${listing.title} - ${formatNaira(listing.price)}`}
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
           handleCardClick();
@@ -85,7 +95,7 @@ const MarketplaceListingCard: React.FC<MarketplaceListingCardProps> = ({
       <div className="aspect-square bg-gradient-to-br from-blue-50 to-indigo-50 relative overflow-hidden border-b border-blue-100">
         {listing.images[0] ? (
           <img
-            src={listing.images[0]}
+            src={getThumbnailUrl(listing.images[0])}
             alt={listing.title}
             className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
             loading="lazy"
@@ -147,6 +157,13 @@ const MarketplaceListingCard: React.FC<MarketplaceListingCardProps> = ({
         <div className={`absolute bottom-2 left-2 px-2 py-1 text-xs font-medium rounded-full ${getConditionBadgeStyle()}`}>
           {listing.condition.toUpperCase()}
         </div>
+
+        {listing.is_reserved && !listing.is_sold && (
+          <div className="absolute bottom-2 right-2 px-2 py-1 bg-amber-100 text-amber-800 border border-amber-200
+                        text-xs font-medium rounded-full shadow">
+            RESERVED
+          </div>
+        )}
       </div>
 
       <div className="p-3">
@@ -156,7 +173,7 @@ const MarketplaceListingCard: React.FC<MarketplaceListingCardProps> = ({
           </h3>
           <div className="flex items-baseline gap-1">
             <span className="text-sm font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
-              ₦{listing.price.toLocaleString()}
+              {formatNaira(listing.price)}
             </span>
           </div>
         </div>
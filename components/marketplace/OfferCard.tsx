@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Tag, Check, X, Repeat } from 'lucide-react';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { MarketplaceOffer } from '../../types/marketplace';
+import { formatNaira } from '../../utils/money';
+import { formatTimeAgo } from '../../utils/formatters';
+import OfferStatusBadge from './OfferStatusBadge';
+import MakeOfferModal from './MakeOfferModal';
+
+interface OfferCardProps {
+  offerId: string;
+  currentUserId: string;
+}
+
+/**
+ * Offer message in chat; always shows the offer's live status
+ */
+const OfferCard: React.FC<OfferCardProps> = ({ offerId, currentUserId }) => {
+  const [offer, setOffer] = useState<MarketplaceOffer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showCounter, setShowCounter] = useState(false);
+
+  const loadOffer = useCallback(async () => {
+    const data = await marketplaceService.getOffer(offerId);
+    setOffer(data);
+    setLoading(false);
+  }, [offerId]);
+
+  useEffect(() => {
+    loadOffer();
+  }, [loadOffer]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      await action();
+      await loadOffer();
+    } catch (error: any) {
+      console.error('Offer action failed:', error);
+      alert(error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="w-64 h-24 bg-white border border-gray-200 rounded-xl animate-pulse"></div>
+    );
+  }
+
+  if (!offer) {
+    return <p className="text-sm italic opacity-75">This offer is no longer available</p>;
+  }
+
+  const isParty = currentUserId === offer.buyer_id || currentUserId === offer.seller_id;
+  const canRespond = offer.status === 'pending' && isParty && offer.created_by !== currentUserId;
+  const fromSeller = offer.created_by === offer.seller_id;
+
+  return (
+    <div className="w-64 bg-white border border-gray-200 rounded-xl overflow-hidden text-gray-900">
+      <div className="p-3">
+        <div className="flex items-center justify-between mb-1">
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <Tag className="w-3 h-3" />
+            {fromSeller ? 'Counter offer' : 'Offer'}
+          </span>
+          <OfferStatusBadge status={offer.status} />
+        </div>
+        <p className="text-lg font-bold text-blue-600">{formatNaira(offer.amount)}</p>
+        <p className="text-xs text-gray-500 truncate">
+          {offer.listing_title} • asking {formatNaira(offer.listing_price)}
+        </p>
+        {offer.message && (
+          <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{offer.message}</p>
+        )}
+        {offer.status === 'pending' && (
+          <p className="text-xs text-gray-400 mt-1">Expires {formatTimeAgo(offer.expires_at)}</p>
+        )}
+      </div>
+
+      {canRespond && (
+        <div className="grid grid-cols-3 border-t border-gray-100 text-sm font-medium">
+          <button
+            onClick={() => runAction(() => marketplaceService.acceptOffer(offer.id))}
+            disabled={busy}
+            className="flex items-center justify-center gap-1 py-2 text-green-700 hover:bg-green-50 disabled:opacity-50"
+          >
+            <Check className="w-4 h-4" />
+            Accept
+          </button>
+          <button
+            onClick={() => setShowCounter(true)}
+            disabled={busy}
+            className="flex items-center justify-center gap-1 py-2 text-blue-700 hover:bg-blue-50 border-x border-gray-100 disabled:opacity-50"
+          >
+            <Repeat className="w-4 h-4" />
+            Counter
+          </button>
+          <button
+            onClick={() => runAction(() => marketplaceService.declineOffer(offer.id))}
+            disabled={busy}
+            className="flex items-center justify-center gap-1 py-2 text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+            Decline
+          </button>
+        </div>
+      )}
+
+      {showCounter && (
+        <MakeOfferModal
+          title="Counter offer"
+          listingTitle={offer.listing_title}
+          askingPrice={offer.listing_price}
+          initialAmount={offer.amount}
+          submitLabel="Send Counter Offer"
+          onClose={() => setShowCounter(false)}
+          onSubmit={(amount, message) => runAction(() => marketplaceService.counterOffer(offer.id, amount, message))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default OfferCard;
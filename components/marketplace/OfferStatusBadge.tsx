@@ -0,0 +1,22 @@
+import React from 'react';
+import { OfferStatus } from '../../types/marketplace';
+
+const STATUS_STYLES: Record<OfferStatus, { label: string; className: string }> = {
+  pending: { label: 'Awaiting reply', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  countered: { label: 'Countered', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800 border-green-200' },
+  declined: { label: 'Declined', className: 'bg-red-100 text-red-700 border-red-200' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-600 border-gray-200' }
+};
+
+const OfferStatusBadge: React.FC<{ status: OfferStatus }> = ({ status }) => {
+  const { label, className } = STATUS_STYLES[status];
+
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${className}`}>
+      {label}
+    </span>
+  );
+};
+
+export default OfferStatusBadge;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ListingPricePoint } from '../../types/marketplace';
+import { formatNaira } from '../../utils/money';
+
+interface PriceSparklineProps {
+  points: ListingPricePoint[];
+  width?: number;
+  height?: number;
+}
+
+const PriceSparkline: React.FC<PriceSparklineProps> = ({ points, width = 160, height = 40 }) => {
+  if (points.length < 2) return null;
+
+  const prices = points.map(point => point.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const range = max - min || 1;
+  const padding = 3;
+
+  const coords = prices.map((price, index) => {
+    const x = padding + (index / (prices.length - 1)) * (width - padding * 2);
+    const y = padding + (1 - (price - min) / range) * (height - padding * 2);
+    return [x, y];
+  });
+
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const stroke = last < first ? '#16A34A' : last > first ? '#DC2626' : '#2563EB';
+  const [lastX, lastY] = coords[coords.length - 1];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`Price went from ${formatNaira(first)} to ${formatNaira(last)}`}
+    >
+      <polyline
+        points={coords.map(([x, y]) => `${x},${y}`).join(' ')}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={lastX} cy={lastY} r={3} fill={stroke} />
+    </svg>
+  );
+};
+
+export default PriceSparkline;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { X, Bookmark, Bell, BellOff, Trash2, Search } from 'lucide-react';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { SavedSearch, SavedSearchCriteria } from '../../types/marketplace';
+import { formatTimeAgo } from '../../utils/formatters';
+
+interface SavedSearchesModalProps {
+  currentCriteria: SavedSearchCriteria;
+  onApply: (search: SavedSearch) => void;
+  onClose: () => void;
+}
+
+const SavedSearchesModal: React.FC<SavedSearchesModalProps> = ({ currentCriteria, onApply, onClose }) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+
+  const hasCurrentCriteria = Object.values(currentCriteria).some(value => value !== undefined && value !== '');
+
+  useEffect(() => {
+    marketplaceService.getSavedSearches().then(data => {
+      setSearches(data);
+      setLoading(false);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      const saved = await marketplaceService.saveSearch(currentCriteria, name);
+      setSearches(prev => [saved, ...prev]);
+      setName('');
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleAlerts = async (search: SavedSearch) => {
+    const notify = !search.notify;
+    setSearches(prev => prev.map(s => s.id === search.id ? { ...s, notify } : s));
+
+    try {
+      await marketplaceService.setSavedSearchAlerts(search.id, notify);
+    } catch (err: any) {
+      setSearches(prev => prev.map(s => s.id === search.id ? { ...s, notify: search.notify } : s));
+      setError(err?.message || 'Failed to update alerts');
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete "${search.name}"?`)) return;
+
+    try {
+      await marketplaceService.deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to delete saved search');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <Bookmark className="w-5 h-5 text-blue-600" />
+            <h3 className="font-bold text-gray-900">Saved searches</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-xl"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {hasCurrentCriteria && (
+          <div className="p-4 border-b border-gray-100 space-y-2">
+            <p className="text-xs text-gray-500">
+              Current search: <span className="font-medium text-gray-700">{marketplaceService.describeSavedSearch(currentCriteria)}</span>
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (optional)"
+                maxLength={60}
+                className="flex-1 p-2 bg-white border border-blue-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+              />
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-3 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl text-xs font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save search'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="px-4 pt-3 text-xs text-red-600">{error}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : searches.length === 0 ? (
+            <div className="text-center py-8">
+              <Search className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-600">No saved searches yet</p>
+              <p className="text-xs text-gray-500">Search or filter listings, then save it here to get alerts for new matches</p>
+            </div>
+          ) : (
+            searches.map(search => (
+              <div key={search.id} className="flex items-center gap-2 p-3 border border-blue-100 rounded-xl hover:bg-blue-50/50">
+                <button
+                  onClick={() => onApply(search)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="text-sm font-semibold text-gray-900 truncate">{search.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{marketplaceService.describeSavedSearch(search.criteria)}</p>
+                  {search.last_matched_at && (
+                    <p className="text-xs text-blue-600">Last match {formatTimeAgo(search.last_matched_at)}</p>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleToggleAlerts(search)}
+                  className={`p-2 rounded-lg ${search.notify ? 'text-blue-600 hover:bg-blue-100' : 'text-gray-400 hover:bg-gray-100'}`}
+                  aria-label={search.notify ? 'Turn off alerts' : 'Turn on alerts'}
+                  title={search.notify ? 'Alerts on' : 'Alerts off'}
+                >
+                  {search.notify ? <Bell size={16} /> : <BellOff size={16} />}
+                </button>
+                <button
+                  onClick={() => handleDelete(search)}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  aria-label="Delete saved search"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearchesModal;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Star, ShoppingBag, MessageCircle, Clock } from 'lucide-react';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { MarketplaceReview, SellerReputation } from '../../types/marketplace';
+import { formatTimeAgo } from '../../utils/formatters';
+
+interface SellerReputationCardProps {
+  sellerId: string;
+  listingId?: string;   // Lets eligible buyers review this listing
+}
+
+const REVIEWS_PAGE_SIZE = 5;
+
+const describeResponseTime = (minutes: number): string => {
+  if (minutes < 60) return 'within an hour';
+  if (minutes < 6 * 60) return 'within a few hours';
+  if (minutes < 24 * 60) return 'within a day';
+  return 'in a few days';
+};
+
+const Stars: React.FC<{ rating: number; size?: number }> = ({ rating, size = 14 }) => (
+  <div className="flex items-center gap-0.5">
+    {[1, 2, 3, 4, 5].map(star => (
+      <Star
+        key={star}
+        size={size}
+        className={star <= Math.round(rating) ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}
+      />
+    ))}
+  </div>
+);
+
+const SellerReputationCard: React.FC<SellerReputationCardProps> = ({ sellerId, listingId }) => {
+  const [reputation, setReputation] = useState<SellerReputation | null>(null);
+  const [reviews, setReviews] = useState<MarketplaceReview[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [canReview, setCanReview] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReputation = useCallback(async () => {
+    const [stats, firstReviews] = await Promise.all([
+      marketplaceService.getSellerReputation(sellerId),
+      marketplaceService.getSellerReviews(sellerId, REVIEWS_PAGE_SIZE + 1)
+    ]);
+
+    setReputation(stats);
+    setReviews(firstReviews.slice(0, REVIEWS_PAGE_SIZE));
+    setHasMore(firstReviews.length > REVIEWS_PAGE_SIZE);
+    setLoading(false);
+  }, [sellerId]);
+
+  useEffect(() => {
+    loadReputation();
+  }, [loadReputation]);
+
+  useEffect(() => {
+    if (listingId) {
+      marketplaceService.canReviewListing(listingId).then(setCanReview);
+    }
+  }, [listingId]);
+
+  const handleLoadMore = async () => {
+    const more = await marketplaceService.getSellerReviews(sellerId, REVIEWS_PAGE_SIZE + 1, reviews.length);
+    setReviews(prev => [...prev, ...more.slice(0, REVIEWS_PAGE_SIZE)]);
+    setHasMore(more.length > REVIEWS_PAGE_SIZE);
+  };
+
+  const handleSubmitReview = async () => {
+    if (!listingId || rating === 0) return;
+
+    try {
+      setSubmitting(true);
+      await marketplaceService.addReview(listingId, rating, comment.trim());
+      setCanReview(false);
+      setRating(0);
+      setComment('');
+      await loadReputation();
+    } catch (error: any) {
+      alert(error?.message || 'Failed to add review. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-20 bg-blue-50 border border-blue-200 rounded-xl animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="p-3 bg-white border border-blue-200 rounded-xl text-center">
+          <div className="flex items-center justify-center gap-1">
+            <Star size={14} className="text-yellow-500 fill-yellow-500" />
+            <span className="font-bold text-gray-900">
+              {reputation?.review_count ? reputation.average_rating.toFixed(1) : '—'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {reputation?.review_count || 0} review{reputation?.review_count === 1 ? '' : 's'}
+          </p>
+        </div>
+        <div className="p-3 bg-white border border-blue-200 rounded-xl text-center">
+          <div className="flex items-center justify-center gap-1">
+            <ShoppingBag size={14} className="text-blue-600" />
+            <span className="font-bold text-gray-900">{reputation?.completed_sales || 0}</span>
+          </div>
+          <p className="text-xs text-gray-500">Sales</p>
+        </div>
+        <div className="p-3 bg-white border border-blue-200 rounded-xl text-center">
+          <div className="flex items-center justify-center gap-1">
+            <MessageCircle size={14} className="text-green-600" />
+            <span className="font-bold text-gray-900">
+              {reputation?.response_rate != null ? `${Math.round(reputation.response_rate * 100)}%` : '—'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">Response rate</p>
+        </div>
+      </div>
+
+      {reputation?.avg_response_minutes != null && (
+        <p className="text-xs text-gray-600 flex items-center gap-1">
+          <Clock size={12} />
+          Usually replies {describeResponseTime(reputation.avg_response_minutes)}
+        </p>
+      )}
+
+      {canReview && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-xl space-y-2">
+          <p className="text-sm font-medium text-gray-900">Rate your experience with this seller</p>
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map(star => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                className="p-1"
+                aria-label={`${star} star${star === 1 ? '' : 's'}`}
+              >
+                <Star
+                  size={22}
+                  className={star <= rating ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}
+                />
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="How did the transaction go? (optional)"
+            rows={2}
+            maxLength={500}
+            className="w-full p-2 border border-blue-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 resize-none bg-white"
+          />
+          <button
+            onClick={handleSubmitReview}
+            disabled={submitting || rating === 0}
+            className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {submitting ? 'Submitting...' : 'Submit Review'}
+          </button>
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <div className="space-y-2">
+          {reviews.map(review => (
+            <div key={review.id} className="p-3 bg-white border border-blue-100 rounded-xl">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-900">{review.reviewer_name}</span>
+                <Stars rating={review.rating} size={12} />
+              </div>
+              {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+              <p className="text-xs text-gray-500 mt-1 truncate">
+                {review.listing_title} • {formatTimeAgo(review.created_at)}
+              </p>
+            </div>
+          ))}
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              className="w-full py-2 text-sm text-blue-600 font-medium hover:bg-blue-50 rounded-lg"
+            >
+              Show more reviews
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SellerReputationCard;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import {
+  X, Image as ImageIcon, Mic, FileText, ShoppingBag, Play, ExternalLink, MessageSquare
+} from 'lucide-react';
+import { messagingService } from '../../services/supabase/messaging';
+import { Message, SharedMediaKind } from '../../types/messaging';
+import { formatTimeAgo } from '../../utils/formatters';
+
+interface Props {
+  conversationId: string;
+  title: string;
+  currentUserId: string;
+  onClose: () => void;
+  onShowInChat: (messageId: string) => void;
+  onViewListing: (listingId: string) => void;
+}
+
+const TABS: { kind: SharedMediaKind; label: string; icon: React.ElementType; empty: string }[] = [
+  { kind: 'media', label: 'Media', icon: ImageIcon, empty: 'No photos or videos yet' },
+  { kind: 'audio', label: 'Voice', icon: Mic, empty: 'No voice notes yet' },
+  { kind: 'document', label: 'Files', icon: FileText, empty: 'No documents yet' },
+  { kind: 'listing', label: 'Listings', icon: ShoppingBag, empty: 'No listings shared yet' }
+];
+
+const ConversationInfoPanel: React.FC<Props> = ({
+  conversationId, title, currentUserId, onClose, onShowInChat, onViewListing
+}) => {
+  const [activeKind, setActiveKind] = useState<SharedMediaKind>('media');
+  const [items, setItems] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [offset, setOffset] = useState(0);
+
+  // Load one page of the active tab; offset 0 starts the tab over
+  const loadPage = async (kind: SharedMediaKind, pageOffset: number) => {
+    setLoading(true);
+    try {
+      const page = await messagingService.getSharedMedia(conversationId, kind, undefined, pageOffset);
+      setItems(prev => {
+        const merged = pageOffset === 0 ? page.items : [...prev, ...page.items];
+        if (kind !== 'listing') return merged;
+        // A listing discussed several times gets a single card
+        return merged.filter((item, index) =>
+          merged.findIndex(other => other.listing_id === item.listing_id) === index
+        );
+      });
+      setHasMore(page.has_more);
+      setOffset(page.next_offset);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setItems([]);
+    setHasMore(false);
+    setOffset(0);
+    loadPage(activeKind, 0);
+  }, [conversationId, activeKind]);
+
+  const senderLabel = (message: Message) =>
+    message.sender_id === currentUserId ? 'You' : message.sender_name;
+
+  const renderMediaGrid = () => (
+    <div className="grid grid-cols-3 gap-1">
+      {items.map(message => (
+        <button
+          key={message.id}
+          onClick={() => onShowInChat(message.id)}
+          className="relative aspect-square bg-gray-100 overflow-hidden rounded-lg"
+          aria-label={`Show ${message.type} in chat`}
+        >
+          {message.type === 'video' ? (
+            <>
+              <video src={message.media_url} className="w-full h-full object-cover" preload="metadata" />
+              <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+                <Play className="w-6 h-6 text-white" />
+              </div>
+            </>
+          ) : (
+            <img
+              src={message.media_url}
+              alt="Shared photo"
+              className="w-full h-full object-cover"
+              loading="lazy"
+            />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderAudioList = () => (
+    <div className="space-y-3">
+      {items.map(message => (
+        <div key={message.id} className="p-3 bg-gray-50 rounded-xl border border-gray-100">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-gray-700">{senderLabel(message)}</span>
+            <span className="text-xs text-gray-500">{formatTimeAgo(message.created_at)}</span>
+          </div>
+          <audio src={message.media_url} controls className="w-full" />
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderDocumentList = () => (
+    <div className="divide-y divide-gray-100">
+      {items.map(message => (
+        <div key={message.id} className="flex items-center gap-3 py-3">
+          <div className="w-10 h-10 rounded-lg bg-red-50 flex items-center justify-center flex-shrink-0">
+            <FileText className="w-5 h-5 text-red-600" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate">{message.content || 'Document'}</p>
+            <p className="text-xs text-gray-500">
+              {senderLabel(message)} • {formatTimeAgo(message.created_at)}
+            </p>
+          </div>
+          <button
+            onClick={() => onShowInChat(message.id)}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+            aria-label="Show in chat"
+          >
+            <MessageSquare className="w-4 h-4 text-gray-500" />
+          </button>
+          <a
+            href={message.media_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="p-2 hover:bg-gray-100 rounded-lg"
+            aria-label="Open document"
+          >
+            <ExternalLink className="w-4 h-4 text-gray-500" />
+          </a>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderListingList = () => (
+    <div className="space-y-2">
+      {items.map(message => (
+        <button
+          key={message.id}
+          onClick={() => message.listing_id && onViewListing(message.listing_id)}
+          className="w-full flex items-center gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100 text-left hover:bg-gray-100 transition-colors"
+        >
+          <div className="w-10 h-10 rounded-lg bg-blue-50 flex items-center justify-center flex-shrink-0">
+            <ShoppingBag className="w-5 h-5 text-blue-600" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate">{message.listing_title || 'Listing'}</p>
+            <p className="text-xs text-gray-500">
+              Shared by {senderLabel(message)} • {formatTimeAgo(message.created_at)}
+            </p>
+          </div>
+          <ExternalLink className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        </button>
+      ))}
+    </div>
+  );
+
+  const activeTab = TABS.find(tab => tab.kind === activeKind)!;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="font-bold text-gray-900">Media, files and listings</h3>
+            <p className="text-xs text-gray-500 truncate">{title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-xl"
+            aria-label="Close conversation info"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex border-b border-gray-200">
+          {TABS.map(tab => {
+            const Icon = tab.icon;
+            return (
+              <button
+                key={tab.kind}
+                onClick={() => setActiveKind(tab.kind)}
+                className={`flex-1 flex items-center justify-center gap-1 py-3 text-sm font-medium border-b-2 transition-colors ${
+                  activeKind === tab.kind
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {items.length === 0 && !loading ? (
+            <div className="flex flex-col items-center justify-center py-10 text-gray-500">
+              <activeTab.icon className="w-10 h-10 mb-2 text-gray-300" />
+              <p className="text-sm">{activeTab.empty}</p>
+            </div>
+          ) : activeKind === 'media' ? (
+            renderMediaGrid()
+          ) : activeKind === 'audio' ? (
+            renderAudioList()
+          ) : activeKind === 'document' ? (
+            renderDocumentList()
+          ) : (
+            renderListingList()
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {hasMore && !loading && (
+            <button
+              onClick={() => loadPage(activeKind, offset)}
+              className="w-full mt-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-xl hover:bg-blue-100 transition-colors"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationInfoPanel;
@@ -0,0 +1,328 @@
+import React, { useState, useRef } from 'react';
+import {
+  X, Users, Camera, Pencil, Check, UserPlus, Shield, LogOut, UserMinus
+} from 'lucide-react';
+import { messagingService } from '../../services/supabase/messaging';
+import { ConnectionUser, GroupInfo, GroupMember } from '../../types/messaging';
+
+interface Props {
+  group: GroupInfo;
+  currentUserId: string;
+  onClose: () => void;
+  onGroupChanged: (group: GroupInfo) => void;
+  onLeft: () => void;
+}
+
+const GroupInfoPanel: React.FC<Props> = ({ group, currentUserId, onClose, onGroupChanged, onLeft }) => {
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [editingName, setEditingName] = useState(false);
+  const [name, setName] = useState(group.name);
+  const [busy, setBusy] = useState(false);
+  const [showAddMembers, setShowAddMembers] = useState(false);
+  const [candidates, setCandidates] = useState<ConnectionUser[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+
+  const isAdmin = group.members.some(member => member.user_id === currentUserId && member.role === 'admin');
+
+  // Run a group action, then reload the group details
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action();
+      const refreshed = await messagingService.getGroupInfo(group.id, true);
+      if (refreshed) {
+        onGroupChanged(refreshed);
+      }
+    } catch (error: any) {
+      console.error('Group action failed:', error);
+      alert(error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveName = async () => {
+    await runAction(() => messagingService.updateGroupDetails(group.id, { name }));
+    setEditingName(false);
+  };
+
+  const handleAvatarSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      runAction(() => messagingService.updateGroupDetails(group.id, { avatarFile: file }));
+    }
+    event.target.value = '';
+  };
+
+  const handleOpenAddMembers = async () => {
+    setShowAddMembers(true);
+    setSelectedIds(new Set());
+    setLoadingCandidates(true);
+    try {
+      const connections = await messagingService.getConnectedVerifiedUsers();
+      setCandidates(connections.filter(user =>
+        !group.members.some(member => member.user_id === user.id)
+      ));
+    } finally {
+      setLoadingCandidates(false);
+    }
+  };
+
+  const handleAddMembers = async () => {
+    if (selectedIds.size === 0) return;
+    await runAction(() => messagingService.addGroupMembers(group.id, Array.from(selectedIds)));
+    setShowAddMembers(false);
+  };
+
+  const toggleSelected = (userId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const handleRemoveMember = (member: GroupMember) => {
+    if (!window.confirm(`Remove ${member.name} from the group?`)) return;
+    runAction(() => messagingService.removeGroupMember(group.id, member.user_id));
+  };
+
+  const handleToggleAdmin = (member: GroupMember) => {
+    runAction(() => messagingService.setGroupMemberRole(
+      group.id,
+      member.user_id,
+      member.role === 'admin' ? 'member' : 'admin'
+    ));
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm('Leave this group? You will stop receiving its messages.')) return;
+
+    try {
+      setBusy(true);
+      await messagingService.removeGroupMember(group.id, currentUserId);
+      onLeft();
+    } catch (error: any) {
+      console.error('Error leaving group:', error);
+      alert(error?.message || 'Failed to leave the group. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderAvatar = (avatarUrl: string | undefined, label: string, size: string) => (
+    <div className={`${size} rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-purple-500 flex-shrink-0`}>
+      {avatarUrl ? (
+        <img src={avatarUrl} alt={label} className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-white font-bold">
+          {label.charAt(0).toUpperCase()}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0 max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="font-bold text-gray-900">Group Info</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-xl"
+            aria-label="Close group info"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* Group details */}
+          <div className="flex flex-col items-center p-4 border-b border-gray-100">
+            <div className="relative mb-3">
+              {group.avatar_url ? (
+                renderAvatar(group.avatar_url, group.name, 'w-20 h-20')
+              ) : (
+                <div className="w-20 h-20 rounded-xl bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center">
+                  <Users className="w-10 h-10 text-white" />
+                </div>
+              )}
+              {isAdmin && (
+                <button
+                  onClick={() => avatarInputRef.current?.click()}
+                  disabled={busy}
+                  className="absolute -bottom-2 -right-2 p-2 bg-white border border-gray-200 rounded-full shadow hover:bg-gray-50 disabled:opacity-50"
+                  aria-label="Change group photo"
+                >
+                  <Camera className="w-4 h-4 text-gray-700" />
+                </button>
+              )}
+            </div>
+
+            {editingName ? (
+              <div className="flex items-center gap-2 w-full">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={60}
+                  className="flex-1 p-2 px-3 bg-gray-100 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+                <button
+                  onClick={handleSaveName}
+                  disabled={busy || !name.trim()}
+                  className="p-2 bg-blue-600 text-white rounded-xl disabled:opacity-50"
+                  aria-label="Save group name"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <h2 className="text-lg font-bold text-gray-900">{group.name}</h2>
+                {isAdmin && (
+                  <button
+                    onClick={() => setEditingName(true)}
+                    className="p-1 hover:bg-gray-100 rounded-lg"
+                    aria-label="Rename group"
+                  >
+                    <Pencil className="w-4 h-4 text-gray-500" />
+                  </button>
+                )}
+              </div>
+            )}
+            <p className="text-sm text-gray-500 mt-1">{group.members.length} members</p>
+          </div>
+
+          {/* Members */}
+          <div className="p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-gray-900">Members</h4>
+              {isAdmin && !showAddMembers && (
+                <button
+                  onClick={handleOpenAddMembers}
+                  className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <UserPlus className="w-4 h-4" />
+                  Add
+                </button>
+              )}
+            </div>
+
+            {showAddMembers && (
+              <div className="mb-4 p-3 bg-gray-50 rounded-xl border border-gray-200">
+                {loadingCandidates ? (
+                  <div className="flex justify-center py-4">
+                    <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+                ) : candidates.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-2">
+                    All your verified connections are already in this group
+                  </p>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {candidates.map(user => (
+                      <label key={user.id} className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(user.id)}
+                          onChange={() => toggleSelected(user.id)}
+                          className="w-4 h-4 accent-blue-600"
+                        />
+                        {renderAvatar(user.avatar_url, user.username, 'w-8 h-8')}
+                        <span className="text-sm text-gray-900 truncate">{user.username}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={() => setShowAddMembers(false)}
+                    className="flex-1 py-2 bg-white border border-gray-300 text-gray-700 rounded-xl text-sm font-medium"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleAddMembers}
+                    disabled={busy || selectedIds.size === 0}
+                    className="flex-1 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium disabled:opacity-50"
+                  >
+                    Add {selectedIds.size > 0 ? selectedIds.size : ''}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {group.members.map(member => (
+                <div key={member.user_id} className="flex items-center gap-3">
+                  {renderAvatar(member.avatar_url, member.name, 'w-10 h-10')}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {member.user_id === currentUserId ? 'You' : member.name}
+                    </p>
+                    {member.role === 'admin' && (
+                      <span className="inline-flex items-center gap-1 text-xs text-blue-700">
+                        <Shield className="w-3 h-3" />
+                        Admin
+                      </span>
+                    )}
+                  </div>
+                  {isAdmin && member.user_id !== currentUserId && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleToggleAdmin(member)}
+                        disabled={busy}
+                        className="p-2 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                        title={member.role === 'admin' ? 'Remove as admin' : 'Make admin'}
+                      >
+                        <Shield className={`w-4 h-4 ${member.role === 'admin' ? 'text-blue-600' : 'text-gray-400'}`} />
+                      </button>
+                      <button
+                        onClick={() => handleRemoveMember(member)}
+                        disabled={busy}
+                        className="p-2 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                        title="Remove from group"
+                      >
+                        <UserMinus className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Leave */}
+        <div className="p-4 border-t border-gray-200">
+          <button
+            onClick={handleLeave}
+            disabled={busy}
+            className="w-full flex items-center justify-center gap-2 py-3 text-red-600 font-medium rounded-xl hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            <LogOut className="w-4 h-4" />
+            Leave group
+          </button>
+        </div>
+
+        <input
+          type="file"
+          ref={avatarInputRef}
+          onChange={handleAvatarSelect}
+          accept="image/*"
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default GroupInfoPanel;
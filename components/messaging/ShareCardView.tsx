@@ -0,0 +1,62 @@
+import React from 'react';
+import { ShoppingBag, Building2, Briefcase, Calendar, ChevronRight } from 'lucide-react';
+import { ShareCard } from '../../types/messaging';
+import VerifiedBadge from '../VerifiedBadge';
+import { formatNaira } from '../../utils/money';
+
+interface Props {
+  card: ShareCard;
+  onOpen?: (card: ShareCard) => void;
+}
+
+const KIND_DETAILS = {
+  listing: { label: 'Marketplace listing', icon: ShoppingBag },
+  business: { label: 'Business', icon: Building2 },
+  job: { label: 'Job', icon: Briefcase },
+  event: { label: 'Event', icon: Calendar }
+};
+
+const ShareCardView: React.FC<Props> = ({ card, onOpen }) => {
+  const { label, icon: Icon } = KIND_DETAILS[card.kind];
+  const price = card.price != null ? formatNaira(card.price) : card.price_label;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen?.(card)}
+      disabled={!onOpen}
+      className="w-full max-w-xs flex items-stretch bg-white border border-gray-200 rounded-xl overflow-hidden text-left text-gray-900 hover:bg-gray-50 transition-colors disabled:hover:bg-white"
+    >
+      <div className="w-20 flex-shrink-0 bg-gray-100 flex items-center justify-center">
+        {card.image_url ? (
+          <img src={card.image_url} alt={card.title} className="w-full h-full object-cover" loading="lazy" />
+        ) : (
+          <Icon className="w-8 h-8 text-gray-400" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0 p-3">
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <Icon className="w-3 h-3" />
+          {label}
+        </p>
+        <div className="flex items-center gap-1">
+          <p className="font-semibold text-sm truncate">{card.title}</p>
+          {card.verified && <VerifiedBadge size={12} />}
+        </div>
+        {card.subtitle && (
+          <p className="text-xs text-gray-500 truncate">{card.subtitle}</p>
+        )}
+        {price && (
+          <p className="text-sm font-bold text-blue-600 mt-1">{price}</p>
+        )}
+      </div>
+      {onOpen && (
+        <div className="flex items-center pr-2">
+          <ChevronRight className="w-4 h-4 text-gray-400" />
+        </div>
+      )}
+    </button>
+  );
+};
+
+export default ShareCardView;
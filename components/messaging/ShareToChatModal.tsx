@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X, Search, Send, Users } from 'lucide-react';
+import { messagingService } from '../../services/supabase/messaging';
+import { Conversation, ShareCard } from '../../types/messaging';
+import { describeShareCard } from '../../utils/shareCards';
+import ShareCardView from './ShareCardView';
+
+interface Props {
+  card: ShareCard;
+  onClose: () => void;
+}
+
+const conversationName = (conversation: Conversation) =>
+  conversation.context === 'group' ? conversation.group_name || 'Group' : conversation.other_user_name;
+
+const conversationAvatar = (conversation: Conversation) =>
+  conversation.context === 'group' ? conversation.group_avatar : conversation.other_user_avatar;
+
+const ShareToChatModal: React.FC<Props> = ({ card, onClose }) => {
+  const navigate = useNavigate();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sendingTo, setSendingTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    messagingService.getConversations()
+      .then(list => setConversations(list.filter(conversation => !conversation.is_archived)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const filtered = conversations.filter(conversation =>
+    conversationName(conversation).toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const handleSend = async (conversation: Conversation) => {
+    try {
+      setSendingTo(conversation.conversation_id);
+      await messagingService.queueMessage(
+        conversation.conversation_id,
+        describeShareCard(card),
+        'share_card',
+        { shareCard: card }
+      );
+
+      navigate(`/messages/${conversation.conversation_id}`, {
+        state: conversation.context === 'group' ? {
+          context: 'group',
+          group: {
+            id: conversation.conversation_id,
+            name: conversation.group_name,
+            avatar: conversation.group_avatar
+          }
+        } : {
+          otherUser: {
+            id: conversation.other_user_id,
+            name: conversation.other_user_name,
+            avatar: conversation.other_user_avatar
+          },
+          context: conversation.context,
+          listing: conversation.listing_id ? {
+            id: conversation.listing_id,
+            title: conversation.listing_title
+          } : null
+        }
+      });
+    } catch (error: any) {
+      console.error('Error sharing to chat:', error);
+      alert(error?.message || 'Failed to share. Please try again.');
+      setSendingTo(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="font-bold text-gray-900">Send in chat</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-xl"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100 space-y-3">
+          <ShareCardView card={card} />
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search chats"
+              className="w-full pl-9 pr-3 py-2 bg-gray-100 rounded-xl border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">No conversations found</p>
+          ) : (
+            filtered.map(conversation => {
+              const name = conversationName(conversation);
+              const avatar = conversationAvatar(conversation);
+              return (
+                <button
+                  key={conversation.conversation_id}
+                  onClick={() => handleSend(conversation)}
+                  disabled={sendingTo !== null}
+                  className="w-full flex items-center gap-3 p-2 rounded-xl hover:bg-gray-50 disabled:opacity-50 text-left"
+                >
+                  <div className="w-10 h-10 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-purple-500 flex-shrink-0">
+                    {avatar ? (
+                      <img src={avatar} alt={name} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-white font-bold">
+                        {conversation.context === 'group' ? <Users className="w-5 h-5" /> : name.charAt(0).toUpperCase()}
+                      </div>
+                    )}
+                  </div>
+                  <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 truncate">{name}</span>
+                  {sendingTo === conversation.conversation_id ? (
+                    <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                  ) : (
+                    <Send className="w-4 h-4 text-blue-600" />
+                  )}
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareToChatModal;
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { X, AlertCircle, CheckCircle } from 'lucide-react';
+import { parsePriceInput } from '../../utils/money';
+import { validateHours, normalizeHours } from '../../utils/businessHours';
+import BusinessHoursEditor from '../business/BusinessHoursEditor';
 
 interface Props {
   type: string;
@@ -74,7 +77,8 @@ const EditModal: React.FC<Props> = ({ type, data, isOpen, onClose, onSave }) =>
           address: data.address || '',
           email: data.email || '',
           phone: data.phone || '',
-          website: data.website || ''
+          website: data.website || '',
+          hours: data.hours || null
         });
       } else if (type === 'job') {
         setFormData({
@@ -109,7 +113,8 @@ const EditModal: React.FC<Props> = ({ type, data, isOpen, onClose, onSave }) =>
       if (!formData.title?.trim()) {
         newErrors.title = 'Title is required';
       }
-      if (!formData.price || parseFloat(formData.price) <= 0) {
+      const price = parsePriceInput(String(formData.price ?? '')).min;
+      if (price == null || price <= 0) {
         newErrors.price = 'Valid price is required';
       }
       if (!formData.category) {
@@ -125,6 +130,10 @@ const EditModal: React.FC<Props> = ({ type, data, isOpen, onClose, onSave }) =>
       if (!formData.category?.trim()) {
         newErrors.category = 'Category is required';
       }
+      const hoursError = formData.hours && validateHours(formData.hours);
+      if (hoursError) {
+        newErrors.hours = hoursError;
+      }
     } else if (type === 'job') {
       if (!formData.title?.trim()) {
         newErrors.title = 'Job title is required';
@@ -164,9 +173,13 @@ const EditModal: React.FC<Props> = ({ type, data, isOpen, onClose, onSave }) =>
         }
       }
       
+      if (type === 'business' && transformedData.hours) {
+        transformedData.hours = normalizeHours(transformedData.hours);
+      }
+      
       if (type === 'listing') {
         if (transformedData.price) {
-          transformedData.price = parseFloat(transformedData.price);
+          transformedData.price = parsePriceInput(String(transformedData.price)).min;
         }
       }
 
@@ -400,13 +413,13 @@ const EditModal: React.FC<Props> = ({ type, data, isOpen, onClose, onSave }) =>
               <div>
                 <label className="block text-sm font-medium mb-2">Price (₦) *</label>
                 <input
-                  type="number"
+                  type="text"
+                  inputMode="decimal"
                   name="price"
                   value={formData.price || ''}
                   onChange={handleChange}
+                  placeholder="e.g. 85,000 or 1.2m"
                   className={`w-full p-3 border rounded-lg ${errors.price ? 'border-red-500' : 'border-gray-300'}`}
-                  min="0"
-                  step="0.01"
                   disabled={loading}
                 />
                 {errors.price && (
@@ -623,6 +636,21 @@ const EditModal: React.FC<Props> = ({ type, data, isOpen, onClose, onSave }) =>
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium mb-2">Opening Hours</label>
+              <BusinessHoursEditor
+                value={formData.hours || null}
+                onChange={(hours) => setFormData((prev: any) => ({ ...prev, hours }))}
+                disabled={loading}
+              />
+              {errors.hours && (
+                <div className="mt-1 flex items-center gap-1 text-red-600 text-sm">
+                  <AlertCircle size={14} />
+                  <span>{errors.hours}</span>
+                </div>
+              )}
+            </div>
+
             <div className="pt-4">
               <button
                 type="submit"
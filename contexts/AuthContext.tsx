@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode, useRe
 import { supabase } from '../services/supabase';
 import { Session, User } from '@supabase/supabase-js';
 import { appCache } from '../shared/services/UniversalCache';
+import { messagingService } from '../services/supabase/messaging';
 
 /* -------------------- TYPES -------------------- */
 
@@ -416,6 +417,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (user?.id) {
         await appCache.remove(`profile_${user.id}`);
       }
+
+      // Queued chat messages must not go out under the next account
+      await messagingService.clearOutbox();
       
       // Clear from active fetches
       activeProfileFetches.current.delete(user?.id || '');
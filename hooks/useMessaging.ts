@@ -1,13 +1,13 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { messagingService } from '../services/supabase/messaging';
-import { Conversation, Message, ConversationContext, UnreadCounts } from '../types/messaging';
+import { Conversation, Message, ConversationContext, UnreadCounts, UserPresence } from '../types/messaging';
 
 export const useMessaging = () => {
   // State
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [unreadCounts, setUnreadCounts] = useState<UnreadCounts>({ total: 0, marketplace: 0, connection: 0 });
+  const [unreadCounts, setUnreadCounts] = useState<UnreadCounts>({ total: 0, marketplace: 0, connection: 0, group: 0 });
   const [loading, setLoading] = useState({
     conversations: false,
     messages: false,
@@ -319,4 +319,74 @@ export const useMessaging = () => {
   };
 };
 
+// ==================== PRESENCE & TYPING ====================
+
+/**
+ * Online status of the given users, kept fresh while mounted
+ */
+export const usePresence = (userIds: string[]) => {
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const key = Array.from(new Set(userIds.filter(Boolean))).sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setPresence({});
+      return;
+    }
+
+    let active = true;
+    let unsubscribe: (() => void) | undefined;
+
+    messagingService.subscribeToPresence(key.split(','), (data) => {
+      if (active) {
+        setPresence(data);
+      }
+    }).then(fn => {
+      if (active) {
+        unsubscribe = fn;
+      } else {
+        fn();
+      }
+    });
+
+    return () => {
+      active = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [key]);
+
+  return presence;
+};
+
+/**
+ * Who is typing in each of the given conversations, one-to-one and group alike.
+ * The current user never appears, since their own broadcasts aren't echoed back.
+ */
+export const useTyping = (conversationIds: string[]) => {
+  const [typing, setTyping] = useState<Record<string, string[]>>({});
+  const key = conversationIds.filter(Boolean).join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    const unsubscribe = messagingService.subscribeToTyping(key.split(','), setTyping);
+    return () => {
+      unsubscribe();
+      setTyping({});
+    };
+  }, [key]);
+
+  const sendTyping = useCallback((conversationId: string) => {
+    messagingService.sendTyping(conversationId);
+  }, []);
+
+  const stopTyping = useCallback(() => {
+    messagingService.stopTyping();
+  }, []);
+
+  return { typing, sendTyping, stopTyping };
+};
+
 export default useMessaging;
\ No newline at end of file
@@ -3,6 +3,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { profileService } from '../services/supabase/profile';
 import { supabase } from '../services/supabase';
+import { normalizeHours } from '../utils/businessHours';
 
 interface ProfileData {
   profile: any;
@@ -719,6 +720,11 @@ export const useProfile = () => {
             : business
         ));
 
+        // Send hours only when they were edited, so saving other fields never clears them
+        const sameHours = (a: any, b: any) =>
+          JSON.stringify(a ? normalizeHours(a) : null) === JSON.stringify(b ? normalizeHours(b) : null);
+        const hoursChanged = !sameHours(updatedData.hours, selectedItem.hours);
+
         await profileService.updateBusiness(selectedItem.id, {
           name: updatedData.name,
           description: updatedData.description || '',
@@ -728,7 +734,8 @@ export const useProfile = () => {
           address: updatedData.address || '',
           email: updatedData.email || '',
           phone: updatedData.phone || '',
-          website: updatedData.website || ''
+          website: updatedData.website || '',
+          ...(hoursChanged ? { hours: updatedData.hours } : {})
         });
         
         const businessesData = await profileService.getUserBusinesses(profileData!.profile.id, 'current');
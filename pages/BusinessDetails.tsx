@@ -1,12 +1,22 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Star, MapPin, Phone, Mail, Globe, Share2, User, CheckCircle, AlertCircle } from 'lucide-react';
-import { businessService } from '../services/supabase/business';
-import { Business, Review } from '../types/business';
-import { formatTimeAgo } from '../utils/formatters';
+import { ArrowLeft, Star, MapPin, Phone, Mail, Globe, Share2, User, CheckCircle, AlertCircle, Pencil, BarChart2 } from 'lucide-react';
+import { businessService, hasBusinessPermission, BUSINESS_ROLE_LABELS } from '../services/supabase/business';
+import { profileService } from '../services/supabase/profile';
+import { businessInsightsService } from '../services/supabase/businessInsights';
+import { Business, BusinessEventType, BusinessPermission, BusinessRole, Review } from '../types/business';
 import { useAuth } from '../contexts/AuthContext';
 import VerifiedBadge from '../components/VerifiedBadge';
 import { appCache } from '../shared/services/UniversalCache';
+import ShareToChatModal from '../components/messaging/ShareToChatModal';
+import { businessShareCard } from '../utils/shareCards';
+import { getThumbnailUrl } from '../utils/imagePipeline';
+import { WEEKDAYS, formatRanges, getTodayInKano, getWeekdayInKano } from '../utils/businessHours';
+import OpenStatusBadge from '../components/business/OpenStatusBadge';
+import BusinessReviewItem from '../components/business/BusinessReviewItem';
+import BusinessCatalog from '../components/business/BusinessCatalog';
+import BusinessTeam from '../components/business/BusinessTeam';
+import EditModal from '../components/profile/EditModal';
 
 const CACHE_KEY_PREFIX = 'gkbc_business_details_';
 const CACHE_TTL = 5 * 60 * 1000;
@@ -23,9 +33,20 @@ const BusinessDetails: React.FC = () => {
   const [hasSubmittedReview, setHasSubmittedReview] = useState(false);
   const [submittingReview, setSubmittingReview] = useState(false);
   const [error, setError] = useState<string>('');
+  const [showShareToChat, setShowShareToChat] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [myRole, setMyRole] = useState<BusinessRole | null>(null);
 
   const isVerified = userProfile?.user_status === 'verified';
-  const isOwner = useMemo(() => business?.owner_id === user?.id, [business, user]);
+  const can = useCallback((permission: BusinessPermission) => hasBusinessPermission(myRole, permission), [myRole]);
+  const trackClick = (eventType: BusinessEventType) => {
+    if (business && !myRole) businessInsightsService.trackEvent(business.id, eventType);
+  };
+  const todayWeekday = getWeekdayInKano();
+  const upcomingExceptions = useMemo(() => {
+    const today = getTodayInKano();
+    return (business?.hours?.exceptions || []).filter(exception => exception.date >= today);
+  }, [business]);
 
   const loadBusiness = useCallback(async (forceRefresh = false) => {
     if (!id) return;
@@ -121,11 +142,37 @@ const BusinessDetails: React.FC = () => {
     checkUserReview();
   }, [checkUserReview]);
 
+  const loadMyRole = useCallback(async () => {
+    const role = id && user ? await businessService.getMyRole(id) : null;
+    setMyRole(role);
+    return role;
+  }, [id, user]);
+
+  useEffect(() => {
+    loadMyRole().then(role => {
+      // The team's own visits don't count as views
+      if (business?.id && !role) businessInsightsService.trackEvent(business.id, 'profile_view');
+    });
+  }, [loadMyRole, business?.id, business?.owner_id]);
+
+  const handleTeamChanged = useCallback(() => {
+    loadMyRole();
+    refreshBusiness();
+  }, [loadMyRole, refreshBusiness]);
+
+  const handleSaveDetails = useCallback(async (updatedData: any) => {
+    if (!business) return;
+    await profileService.updateBusiness(business.id, updatedData);
+    await businessService.clearBusinessCaches();
+    await appCache.remove(CACHE_KEY_PREFIX + business.id);
+    refreshBusiness();
+  }, [business, refreshBusiness]);
+
   const handleAddReview = useCallback(async () => {
     if (!business || !newReview.comment.trim() || !user) return;
     
-    if (business.owner_id === user.id) {
-      setError('You cannot review your own business');
+    if (business.owner_id === user.id || myRole) {
+      setError('You cannot review a business you help run');
       return;
     }
     
@@ -190,7 +237,24 @@ const BusinessDetails: React.FC = () => {
     } finally {
       setSubmittingReview(false);
     }
-  }, [business, newReview, user, hasSubmittedReview, isVerified, reviews, refreshBusiness]);
+  }, [business, newReview, user, myRole, hasSubmittedReview, isVerified, reviews, refreshBusiness]);
+
+  const handleReviewChanged = useCallback((updated: Review, rating?: { average_rating: number; review_count: number }) => {
+    setReviews(prev => prev.map(review => review.id === updated.id ? updated : review));
+
+    if (rating) {
+      setBusiness(prev => prev ? { ...prev, average_rating: rating.average_rating, review_count: rating.review_count } : prev);
+    }
+
+    appCache.remove(CACHE_KEY_PREFIX + id);
+  }, [id]);
+
+  // The current user's own review first so they can always find it to edit
+  const visibleReviews = useMemo(() => {
+    const own = user ? reviews.filter(review => review.user_id === user.id) : [];
+    const others = reviews.filter(review => !own.includes(review));
+    return [...own, ...others].slice(0, 5);
+  }, [reviews, user]);
 
   const getAnonymousName = useCallback((userId: string, index: number): string => {
     const colors = ['Blue', 'Green', 'Red', 'Yellow', 'Purple', 'Orange', 'Pink', 'Teal'];
@@ -257,12 +321,33 @@ const BusinessDetails: React.FC = () => {
           <ArrowLeft size={20} className="text-blue-600" />
         </button>
         <h1 className="font-bold text-gray-900 text-xs truncate mx-2">{business.name}</h1>
-        <button 
-          className="p-2 rounded-xl border border-blue-200 hover:bg-blue-50 active:scale-95 transition-all min-h-[36px] min-w-[36px]"
-          aria-label="Share business"
-        >
-          <Share2 size={16} className="text-blue-600" />
-        </button>
+        <div className="flex items-center gap-2">
+          {can('view_insights') && (
+            <button
+              onClick={() => navigate(`/business/${business.id}/insights`)}
+              className="p-2 rounded-xl border border-blue-200 hover:bg-blue-50 active:scale-95 transition-all min-h-[36px] min-w-[36px]"
+              aria-label="View insights"
+            >
+              <BarChart2 size={16} className="text-blue-600" />
+            </button>
+          )}
+          {can('edit_details') && (
+            <button
+              onClick={() => setShowEditModal(true)}
+              className="p-2 rounded-xl border border-blue-200 hover:bg-blue-50 active:scale-95 transition-all min-h-[36px] min-w-[36px]"
+              aria-label="Edit business details"
+            >
+              <Pencil size={16} className="text-blue-600" />
+            </button>
+          )}
+          <button 
+            onClick={() => setShowShareToChat(true)}
+            className="p-2 rounded-xl border border-blue-200 hover:bg-blue-50 active:scale-95 transition-all min-h-[36px] min-w-[36px]"
+            aria-label="Share business"
+          >
+            <Share2 size={16} className="text-blue-600" />
+          </button>
+        </div>
       </div>
 
       {/* Banner */}
@@ -286,9 +371,9 @@ const BusinessDetails: React.FC = () => {
           </div>
         )}
         
-        {isOwner && (
+        {myRole && (
           <div className="absolute top-3 left-3 px-2 py-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white text-xs font-bold rounded-full border border-blue-800">
-            Your Business
+            {myRole === 'owner' ? 'Your Business' : `You're ${BUSINESS_ROLE_LABELS[myRole].toLowerCase()}`}
           </div>
         )}
       </div>
@@ -355,7 +440,7 @@ const BusinessDetails: React.FC = () => {
         </div>
 
         {/* Type & Category */}
-        <div className="flex gap-1 mb-4">
+        <div className="flex flex-wrap gap-1 mb-4">
           <span className={`px-2 py-1 rounded-full text-xs font-medium border ${business.business_type === 'products' 
             ? 'bg-gradient-to-r from-blue-50 to-blue-100 border-blue-300 text-blue-700' 
             : 'bg-gradient-to-r from-green-50 to-green-100 border-green-300 text-green-700'}`}>
@@ -364,6 +449,7 @@ const BusinessDetails: React.FC = () => {
           <span className="px-2 py-1 bg-gradient-to-r from-gray-50 to-gray-100 border border-gray-300 text-gray-700 rounded-full text-xs font-medium">
             {business.category}
           </span>
+          <OpenStatusBadge hours={business.hours} className="py-1" />
         </div>
 
         {/* Description */}
@@ -372,6 +458,71 @@ const BusinessDetails: React.FC = () => {
           <p className="text-gray-700 text-xs whitespace-pre-line leading-relaxed">{business.description}</p>
         </div>
 
+        {/* Photos */}
+        {business.gallery_urls && business.gallery_urls.length > 1 && (
+          <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+            <h3 className="font-bold text-gray-900 mb-2 text-xs border-b border-blue-100 pb-2">Photos</h3>
+            <div className="flex gap-2 overflow-x-auto">
+              {business.gallery_urls.map((url, index) => (
+                <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                  <img
+                    src={getThumbnailUrl(url)}
+                    onError={(e) => {
+                      if (e.currentTarget.src !== url) e.currentTarget.src = url;
+                    }}
+                    alt={`${business.name} photo ${index + 1}`}
+                    className="w-24 h-24 object-cover rounded-lg border border-blue-100"
+                    loading="lazy"
+                    decoding="async"
+                  />
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Catalog */}
+        <BusinessCatalog businessId={business.id} canManage={can('manage_catalog')} />
+
+        {/* Team */}
+        <BusinessTeam
+          businessId={business.id}
+          businessName={business.name}
+          myRole={myRole}
+          onTeamChanged={handleTeamChanged}
+        />
+
+        {/* Opening Hours */}
+        {business.hours && (
+          <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+            <h3 className="font-bold text-gray-900 mb-2 text-xs border-b border-blue-100 pb-2">Opening Hours</h3>
+            <div className="space-y-1">
+              {WEEKDAYS.map(day => (
+                <div
+                  key={day.key}
+                  className={`flex justify-between gap-3 text-xs ${day.key === todayWeekday ? 'font-bold text-gray-900' : 'text-gray-700'}`}
+                >
+                  <span>{day.label}</span>
+                  <span className="text-right">{formatRanges(business.hours!.weekly[day.key] || [])}</span>
+                </div>
+              ))}
+            </div>
+            {upcomingExceptions.length > 0 && (
+              <div className="mt-3 pt-2 border-t border-blue-100 space-y-1">
+                {upcomingExceptions.map(exception => (
+                  <div key={exception.date} className="flex justify-between gap-3 text-xs text-orange-700">
+                    <span>
+                      {new Date(`${exception.date}T12:00:00`).toLocaleDateString('en-NG', { weekday: 'short', day: 'numeric', month: 'short' })}
+                      {exception.note && ` · ${exception.note}`}
+                    </span>
+                    <span className="text-right">{exception.closed ? 'Closed' : formatRanges(exception.ranges || [])}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Contact Info */}
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border border-blue-200 p-3 mb-4">
           <h3 className="font-bold text-gray-900 mb-3 text-xs border-b border-blue-200 pb-2">Contact Information</h3>
@@ -383,7 +534,15 @@ const BusinessDetails: React.FC = () => {
                 </div>
                 <div className="flex-1">
                   <p className="text-xs text-gray-600 mb-1">Address</p>
-                  <p className="text-gray-900 font-medium text-xs">{business.address}</p>
+                  <a
+                    href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${business.address}, Kano`)}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => trackClick('map_click')}
+                    className="text-gray-900 font-medium hover:text-blue-800 text-xs"
+                  >
+                    {business.address}
+                  </a>
                 </div>
               </div>
             )}
@@ -394,7 +553,11 @@ const BusinessDetails: React.FC = () => {
                 </div>
                 <div className="flex-1">
                   <p className="text-xs text-gray-600 mb-1">Phone</p>
-                  <a href={`tel:${business.phone}`} className="text-blue-700 font-medium hover:text-blue-800 text-xs">
+                  <a
+                    href={`tel:${business.phone}`}
+                    onClick={() => trackClick('phone_click')}
+                    className="text-blue-700 font-medium hover:text-blue-800 text-xs"
+                  >
                     {business.phone}
                   </a>
                 </div>
@@ -407,7 +570,11 @@ const BusinessDetails: React.FC = () => {
                 </div>
                 <div className="flex-1">
                   <p className="text-xs text-gray-600 mb-1">Email</p>
-                  <a href={`mailto:${business.email}`} className="text-blue-700 font-medium hover:text-blue-800 truncate block text-xs">
+                  <a
+                    href={`mailto:${business.email}`}
+                    onClick={() => trackClick('email_click')}
+                    className="text-blue-700 font-medium hover:text-blue-800 truncate block text-xs"
+                  >
                     {business.email}
                   </a>
                 </div>
@@ -424,6 +591,7 @@ const BusinessDetails: React.FC = () => {
                     href={business.website} 
                     target="_blank" 
                     rel="noopener noreferrer" 
+                    onClick={() => trackClick('website_click')}
                     className="text-blue-700 font-medium hover:text-blue-800 truncate block text-xs"
                   >
                     {business.website.replace(/^https?:\/\//, '')}
@@ -442,136 +610,112 @@ const BusinessDetails: React.FC = () => {
         )}
 
         {/* Reviews Section */}
-        {!isOwner && (
-          <div className="pb-6">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <h3 className="font-bold text-gray-900 text-xs">Reviews</h3>
-                <p className="text-xs text-gray-600">({business.review_count} reviews)</p>
-              </div>
-              <div className="flex items-center gap-1 bg-yellow-50 px-2 py-1 rounded-lg border border-yellow-200">
-                <Star size={14} className="text-yellow-500 fill-yellow-500" />
-                <span className="font-bold text-gray-900 text-xs">{business.average_rating.toFixed(1)}</span>
-              </div>
+        <div className="pb-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="font-bold text-gray-900 text-xs">Reviews</h3>
+              <p className="text-xs text-gray-600">({business.review_count} reviews)</p>
             </div>
+            <div className="flex items-center gap-1 bg-yellow-50 px-2 py-1 rounded-lg border border-yellow-200">
+              <Star size={14} className="text-yellow-500 fill-yellow-500" />
+              <span className="font-bold text-gray-900 text-xs">{business.average_rating.toFixed(1)}</span>
+            </div>
+          </div>
 
-            {/* Add Review Form */}
-            {user && !hasSubmittedReview && (
-              <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
-                <h4 className="font-bold text-gray-900 mb-3 text-xs border-b border-blue-100 pb-2">Add Your Review</h4>
-                
-                <div className="flex gap-1 mb-3 justify-center">
-                  {[1, 2, 3, 4, 5].map(star => (
-                    <button
-                      key={star}
-                      onClick={() => setNewReview(prev => ({ ...prev, rating: star }))}
-                      className="p-1.5 hover:scale-110 active:scale-95 transition-transform min-h-[36px] min-w-[36px]"
-                      aria-label={`Rate ${star} stars`}
-                    >
-                      <Star
-                        size={20}
-                        className={`transition-colors ${
-                          star <= newReview.rating 
-                            ? 'text-yellow-500 fill-yellow-500' 
-                            : 'text-gray-300 hover:text-yellow-400'
-                        }`}
-                      />
-                    </button>
-                  ))}
-                </div>
-                
-                <div className="text-center mb-3">
-                  <span className="text-gray-700 font-medium text-xs">Selected: {newReview.rating} star{newReview.rating !== 1 ? 's' : ''}</span>
-                </div>
-                
-                <textarea
-                  value={newReview.comment}
-                  onChange={(e) => setNewReview(prev => ({ ...prev, comment: e.target.value }))}
-                  placeholder="Share your experience..."
-                  className="w-full p-2.5 border border-blue-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 mb-3 min-h-[100px] text-xs"
-                  rows={3}
-                  maxLength={500}
-                />
-                
-                <div className="flex items-center justify-between text-xs text-gray-500 mb-3">
-                  <div className="flex items-center gap-1">
-                    <User size={12} />
-                    <span>Your review will be anonymous</span>
-                  </div>
-                  <span>{newReview.comment.length}/500</span>
-                </div>
-                
-                <button
-                  onClick={handleAddReview}
-                  disabled={!newReview.comment.trim() || submittingReview}
-                  className="w-full py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed active:scale-[0.99] transition-all border border-blue-800 min-h-[44px] text-xs"
-                  aria-label="Submit review"
-                >
-                  {submittingReview ? (
-                    <span className="flex items-center justify-center gap-1">
-                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      Submitting...
-                    </span>
-                  ) : (
-                    'Submit Review'
-                  )}
-                </button>
-              </div>
-            )}
-
-            {/* Reviews List */}
-            {reviews.length > 0 ? (
-              <div className="space-y-3">
-                <h4 className="font-bold text-gray-900 mb-2 text-xs">Recent Reviews</h4>
-                {reviews.slice(0, 5).map((review, index) => (
-                  <div key={review.id || index} className="bg-white rounded-xl border border-blue-200 p-3">
-                    <div className="flex items-start gap-2 mb-2">
-                      <div className="relative">
-                        <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-full flex items-center justify-center text-white font-bold text-xs border-2 border-white">
-                          {getAnonymousName(review.user_id || `review_${index}`, index).charAt(0)}
-                        </div>
-                        {review.user_verified && (
-                          <div className="absolute -top-1 -right-1">
-                            <VerifiedBadge size={10} />
-                          </div>
-                        )}
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center justify-between mb-1">
-                          <div className="flex items-center gap-1">
-                            <span className="font-bold text-gray-900 text-xs">
-                              {getAnonymousName(review.user_id || `review_${index}`, index)}
-                            </span>
-                            {review.user_verified && <VerifiedBadge size={10} />}
-                          </div>
-                          <div className="flex items-center gap-1">
-                            {[...Array(5)].map((_, i) => (
-                              <Star
-                                key={i}
-                                size={10}
-                                className={i < review.rating ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}
-                              />
-                            ))}
-                          </div>
-                        </div>
-                        <span className="text-xs text-gray-500">{formatTimeAgo(review.created_at)}</span>
-                      </div>
-                    </div>
-                    <p className="text-gray-700 text-xs leading-relaxed">{review.comment}</p>
-                  </div>
+          {/* Add Review Form */}
+          {user && !myRole && !hasSubmittedReview && (
+            <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+              <h4 className="font-bold text-gray-900 mb-3 text-xs border-b border-blue-100 pb-2">Add Your Review</h4>
+              
+              <div className="flex gap-1 mb-3 justify-center">
+                {[1, 2, 3, 4, 5].map(star => (
+                  <button
+                    key={star}
+                    onClick={() => setNewReview(prev => ({ ...prev, rating: star }))}
+                    className="p-1.5 hover:scale-110 active:scale-95 transition-transform min-h-[36px] min-w-[36px]"
+                    aria-label={`Rate ${star} stars`}
+                  >
+                    <Star
+                      size={20}
+                      className={`transition-colors ${
+                        star <= newReview.rating 
+                          ? 'text-yellow-500 fill-yellow-500' 
+                          : 'text-gray-300 hover:text-yellow-400'
+                      }`}
+                    />
+                  </button>
                 ))}
               </div>
-            ) : (
-              <div className="text-center py-6">
-                <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center border border-gray-300 mx-auto mb-2">
-                  <Star size={20} className="text-gray-400" />
+              
+              <div className="text-center mb-3">
+                <span className="text-gray-700 font-medium text-xs">Selected: {newReview.rating} star{newReview.rating !== 1 ? 's' : ''}</span>
+              </div>
+              
+              <textarea
+                value={newReview.comment}
+                onChange={(e) => setNewReview(prev => ({ ...prev, comment: e.target.value }))}
+                placeholder="Share your experience..."
+                className="w-full p-2.5 border border-blue-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 mb-3 min-h-[100px] text-xs"
+                rows={3}
+                maxLength={500}
+              />
+              
+              <div className="flex items-center justify-between text-xs text-gray-500 mb-3">
+                <div className="flex items-center gap-1">
+                  <User size={12} />
+                  <span>Your review will be anonymous</span>
                 </div>
-                <h4 className="font-bold text-gray-700 mb-1 text-xs">No Reviews Yet</h4>
-                <p className="text-gray-500 text-xs">Be the first to review this business!</p>
+                <span>{newReview.comment.length}/500</span>
               </div>
-            )}
-          </div>
-        )}
+              
+              <button
+                onClick={handleAddReview}
+                disabled={!newReview.comment.trim() || submittingReview}
+                className="w-full py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold rounded-xl hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed active:scale-[0.99] transition-all border border-blue-800 min-h-[44px] text-xs"
+                aria-label="Submit review"
+              >
+                {submittingReview ? (
+                  <span className="flex items-center justify-center gap-1">
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    Submitting...
+                  </span>
+                ) : (
+                  'Submit Review'
+                )}
+              </button>
+            </div>
+          )}
+
+          {/* Reviews List */}
+          {reviews.length > 0 ? (
+            <div className="space-y-3">
+              <h4 className="font-bold text-gray-900 mb-2 text-xs">Recent Reviews</h4>
+              {visibleReviews.map((review, index) => (
+                <BusinessReviewItem
+                  key={review.id || index}
+                  review={review}
+                  businessId={business.id}
+                  businessName={business.name}
+                  authorName={getAnonymousName(review.user_id || `review_${index}`, index)}
+                  isAuthor={!!user && review.user_id === user.id}
+                  canReply={can('reply_reviews')}
+                  canFlag={!!user && review.user_id !== user.id}
+                  onChanged={handleReviewChanged}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-6">
+              <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center border border-gray-300 mx-auto mb-2">
+                <Star size={20} className="text-gray-400" />
+              </div>
+              <h4 className="font-bold text-gray-700 mb-1 text-xs">No Reviews Yet</h4>
+              <p className="text-gray-500 text-xs">
+                {myRole ? 'Reviews from customers will appear here.' : 'Be the first to review this business!'}
+              </p>
+            </div>
+          )}
+        </div>
       </div>
 
       {refreshing && (
@@ -579,6 +723,23 @@ const BusinessDetails: React.FC = () => {
           <div className="w-1.5 h-1.5 bg-white rounded-full"></div>
         </div>
       )}
+
+      {showEditModal && (
+        <EditModal
+          type="business"
+          data={business}
+          isOpen={showEditModal}
+          onClose={() => setShowEditModal(false)}
+          onSave={handleSaveDetails}
+        />
+      )}
+
+      {showShareToChat && (
+        <ShareToChatModal
+          card={businessShareCard(business)}
+          onClose={() => setShowShareToChat(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Download, Star, AlertCircle } from 'lucide-react';
+import { businessService } from '../services/supabase/business';
+import { businessInsightsService } from '../services/supabase/businessInsights';
+import { BusinessEventType, InsightsBucket, InsightsPeriod } from '../types/business';
+import {
+  INSIGHT_METRICS,
+  INSIGHT_PERIODS,
+  sumMetric,
+  averageRating,
+  formatBucketLabel,
+  insightsToCsvRows
+} from '../utils/businessInsights';
+import { downloadCsv } from '../utils/csv';
+import InsightsBarChart from '../components/business/InsightsBarChart';
+
+/**
+ * How customers find and contact a business, for its owner and managers
+ */
+const BusinessInsights: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [businessName, setBusinessName] = useState('');
+  const [period, setPeriod] = useState<InsightsPeriod>('daily');
+  const [metric, setMetric] = useState<BusinessEventType>('profile_view');
+  const [buckets, setBuckets] = useState<InsightsBucket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!id) return;
+    businessService.getBusinessDetails(id)
+      .then(({ business }) => setBusinessName(business.name))
+      .catch(() => setBusinessName(''));
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    businessInsightsService.getInsights(id, period)
+      .then(result => {
+        if (!cancelled) setBuckets(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err?.message || 'Failed to load insights');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, period]);
+
+  const labels = useMemo(() => buckets.map(bucket => formatBucketLabel(bucket.start, period)), [buckets, period]);
+  const overallRating = useMemo(() => averageRating(buckets), [buckets]);
+  const totalReviews = useMemo(() => buckets.reduce((sum, bucket) => sum + bucket.new_reviews, 0), [buckets]);
+  const periodLabel = INSIGHT_PERIODS.find(item => item.key === period);
+  const rangeLabel = period === 'daily'
+    ? `Last ${periodLabel?.buckets} days`
+    : period === 'weekly' ? `Last ${periodLabel?.buckets} weeks` : `Last ${periodLabel?.buckets} months`;
+
+  const handleExport = () => {
+    const slug = (businessName || 'business').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadCsv(`${slug}-insights-${period}.csv`, insightsToCsvRows(buckets, period));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white safe-area">
+      {/* Header */}
+      <div className="sticky top-0 bg-white/95 backdrop-blur-sm border-b border-blue-200 z-10 p-3 flex items-center justify-between">
+        <button
+          onClick={() => navigate(`/business/${id}`)}
+          className="p-2 rounded-xl border border-blue-200 hover:bg-blue-50 active:scale-95 transition-all min-h-[36px] min-w-[36px]"
+          aria-label="Back to business"
+        >
+          <ArrowLeft size={20} className="text-blue-600" />
+        </button>
+        <h1 className="font-bold text-gray-900 text-xs truncate mx-2">
+          {businessName ? `${businessName} · Insights` : 'Insights'}
+        </h1>
+        <button
+          onClick={handleExport}
+          disabled={loading || !!error}
+          className="p-2 rounded-xl border border-blue-200 hover:bg-blue-50 active:scale-95 transition-all min-h-[36px] min-w-[36px] disabled:opacity-50"
+          aria-label="Export as CSV"
+        >
+          <Download size={16} className="text-blue-600" />
+        </button>
+      </div>
+
+      <div className="p-3">
+        {/* Period */}
+        <div className="flex gap-2 mb-4">
+          {INSIGHT_PERIODS.map(option => (
+            <button
+              key={option.key}
+              onClick={() => setPeriod(option.key)}
+              className={`flex-1 py-2 rounded-xl text-xs font-medium border transition-colors ${
+                period === option.key
+                  ? 'bg-blue-600 text-white border-blue-700'
+                  : 'bg-white text-gray-700 border-blue-200 hover:bg-blue-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="text-center py-10">
+            <AlertCircle size={24} className="text-blue-500 mx-auto mb-2" />
+            <p className="text-xs text-gray-600">{error}</p>
+          </div>
+        ) : loading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              {INSIGHT_METRICS.map(item => (
+                <div key={item.key} className="h-14 bg-gray-200 rounded-xl" />
+              ))}
+            </div>
+            <div className="h-40 bg-gray-200 rounded-xl" />
+          </div>
+        ) : (
+          <>
+            {/* Totals; tap one to chart it */}
+            <p className="text-xs text-gray-500 mb-2">{rangeLabel}</p>
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              {INSIGHT_METRICS.map(item => (
+                <button
+                  key={item.key}
+                  onClick={() => setMetric(item.key)}
+                  className={`p-2 rounded-xl border text-left transition-colors ${
+                    metric === item.key ? 'bg-blue-50 border-blue-500' : 'bg-white border-blue-200 hover:bg-blue-50'
+                  }`}
+                >
+                  <p className="text-sm font-bold text-gray-900">{sumMetric(buckets, item.key).toLocaleString()}</p>
+                  <p className="text-xs text-gray-600">{item.label}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+              <h3 className="font-bold text-gray-900 text-xs mb-3 border-b border-blue-100 pb-2">
+                {INSIGHT_METRICS.find(item => item.key === metric)?.label}
+              </h3>
+              <InsightsBarChart values={buckets.map(bucket => bucket.events[metric])} labels={labels} />
+              <div className="flex justify-between mt-1 text-xs text-gray-500">
+                <span>{labels[0]}</span>
+                <span>{labels[labels.length - 1]}</span>
+              </div>
+            </div>
+
+            {/* Review trend */}
+            <div className="bg-white rounded-xl border border-blue-200 p-3 mb-4">
+              <div className="flex items-center justify-between mb-3 border-b border-blue-100 pb-2">
+                <h3 className="font-bold text-gray-900 text-xs">Reviews</h3>
+                <span className="flex items-center gap-1 text-xs text-gray-600">
+                  {totalReviews} new
+                  {overallRating != null && (
+                    <>
+                      {' · '}
+                      <Star size={10} className="text-yellow-500 fill-yellow-500" />
+                      {overallRating.toFixed(1)}
+                    </>
+                  )}
+                </span>
+              </div>
+              {totalReviews === 0 ? (
+                <p className="text-xs text-gray-500 text-center py-4">No new reviews in this period.</p>
+              ) : (
+                <>
+                  <InsightsBarChart values={buckets.map(bucket => bucket.new_reviews)} labels={labels} height={80} />
+                  <div className="mt-3 space-y-1">
+                    {buckets.filter(bucket => bucket.new_reviews > 0).reverse().map(bucket => (
+                      <div key={bucket.start} className="flex items-center justify-between text-xs">
+                        <span className="text-gray-600">{formatBucketLabel(bucket.start, period)}</span>
+                        <span className="flex items-center gap-1 text-gray-900">
+                          {bucket.new_reviews} {bucket.new_reviews === 1 ? 'review' : 'reviews'}
+                          {bucket.average_rating != null && (
+                            <>
+                              {' · '}
+                              <Star size={10} className="text-yellow-500 fill-yellow-500" />
+                              {bucket.average_rating.toFixed(1)}
+                            </>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BusinessInsights;
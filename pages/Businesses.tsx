@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { Search, Filter, Plus, Store, Star, MapPin, Building, X, AlertCircle } from 'lucide-react';
+import { Search, Filter, Plus, Store, Star, MapPin, Building, X, AlertCircle, Package } from 'lucide-react';
 import { useBusiness } from '../hooks/useBusiness';
-import { LOCATION_AXIS } from '../types/business';
+import { LOCATION_AXIS, CatalogItem } from '../types/business';
+import { catalogService } from '../services/supabase/catalog';
+import { businessInsightsService } from '../services/supabase/businessInsights';
+import { formatCatalogPrice } from '../utils/formatters';
+import { getThumbnailUrl } from '../utils/imagePipeline';
 import CreateBusinessModal from '../components/business/CreateBusinessModal';
 import VerifiedBadge from '../components/VerifiedBadge';
 import { useAuth } from '../contexts/AuthContext';
@@ -13,6 +17,8 @@ const Businesses: React.FC = () => {
   const [selectedType, setSelectedType] = useState<'products' | 'services' | 'all'>('all');
   const [selectedLocation, setSelectedLocation] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [openNow, setOpenNow] = useState(false);
+  const [catalogMatches, setCatalogMatches] = useState<CatalogItem[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [showVerificationAlert, setShowVerificationAlert] = useState(false);
   
@@ -30,8 +36,9 @@ const Businesses: React.FC = () => {
   const filters = useMemo(() => ({
     business_type: selectedType === 'all' ? undefined : selectedType,
     location_axis: selectedLocation === 'all' ? undefined : selectedLocation,
-    search: searchQuery || undefined
-  }), [selectedType, selectedLocation, searchQuery]);
+    search: searchQuery || undefined,
+    open_now: openNow || undefined
+  }), [selectedType, selectedLocation, searchQuery, openNow]);
 
   const handleCreateClick = useCallback(() => {
     if (!canCreateBusiness) {
@@ -58,6 +65,7 @@ const Businesses: React.FC = () => {
     setSelectedType('all');
     setSelectedLocation('all');
     setSearchQuery('');
+    setOpenNow(false);
     setShowFilters(false);
   }, []);
 
@@ -75,13 +83,38 @@ const Businesses: React.FC = () => {
     return () => clearInterval(refreshInterval);
   }, [loadData, refreshBusinesses, filters]);
 
+  // Only a search or filter counts as an appearance; the default directory list is just browsing
+  const isSearching = !!(filters.search || filters.business_type || filters.location_axis || filters.open_now);
+
+  useEffect(() => {
+    if (isSearching && businesses.length > 0) {
+      businessInsightsService.trackSearchAppearances(businesses.map(business => business.id));
+    }
+    // Runs when results arrive, not when the filters change ahead of them
+  }, [businesses]);
+
+  // Products and services matching the search, shown above the businesses
+  useEffect(() => {
+    if (searchQuery.trim().length < 2) {
+      setCatalogMatches([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setCatalogMatches(await catalogService.searchCatalog(searchQuery));
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   const activeFiltersCount = useMemo(() => {
     let count = 0;
     if (selectedType !== 'all') count++;
     if (selectedLocation !== 'all') count++;
     if (searchQuery) count++;
+    if (openNow) count++;
     return count;
-  }, [selectedType, selectedLocation, searchQuery]);
+  }, [selectedType, selectedLocation, searchQuery, openNow]);
 
   if (loading && businesses.length === 0) {
     return (
@@ -245,6 +278,17 @@ const Businesses: React.FC = () => {
                   ))}
                 </select>
               </div>
+
+              {/* Open Now Filter */}
+              <label className="flex items-center gap-2 text-xs text-gray-700 font-medium min-h-[36px]">
+                <input
+                  type="checkbox"
+                  checked={openNow}
+                  onChange={(e) => setOpenNow(e.target.checked)}
+                  className="rounded border-blue-300 text-blue-600 focus:ring-blue-500"
+                />
+                Open now
+              </label>
             </div>
           </div>
         </div>
@@ -292,6 +336,18 @@ const Businesses: React.FC = () => {
                   </button>
                 </span>
               )}
+              {openNow && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-700 text-xs font-medium rounded-full border border-blue-200">
+                  Open now
+                  <button 
+                    onClick={() => setOpenNow(false)}
+                    className="ml-0.5 p-0.5"
+                    aria-label="Remove open now filter"
+                  >
+                    <X size={8} />
+                  </button>
+                </span>
+              )}
             </div>
             <button
               onClick={() => setShowFilters(true)}
@@ -306,6 +362,46 @@ const Businesses: React.FC = () => {
 
       {/* Businesses List */}
       <div className="max-w-7xl mx-auto">
+        {catalogMatches.length > 0 && (
+          <div className="px-3 pt-3">
+            <h2 className="text-xs font-bold text-gray-900 mb-2">Products & services</h2>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {catalogMatches.map(item => (
+                <Link
+                  key={item.id}
+                  to={`/business/${item.business_id}#catalog`}
+                  className="flex-shrink-0 w-32 bg-white rounded-xl border border-blue-200 overflow-hidden hover:border-blue-400 transition-colors"
+                  aria-label={`View ${item.name} from ${item.business_name}`}
+                >
+                  <div className="h-20 bg-blue-50">
+                    {item.image_urls[0] ? (
+                      <img
+                        src={getThumbnailUrl(item.image_urls[0])}
+                        alt={item.name}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                        onError={(e) => {
+                          const img = e.currentTarget;
+                          if (img.src !== item.image_urls[0]) img.src = item.image_urls[0];
+                        }}
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Package size={20} className="text-blue-300" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-2">
+                    <p className="text-xs font-bold text-gray-900 truncate">{item.name}</p>
+                    <p className="text-xs text-blue-700 truncate">{formatCatalogPrice(item)}</p>
+                    <p className="text-xs text-gray-500 truncate">{item.business_name}</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {businesses.length === 0 ? (
           <div className="p-6 text-center">
             <div className="w-16 h-16 bg-blue-100 rounded-full mx-auto mb-3 flex items-center justify-center border border-blue-200">
@@ -3,13 +3,26 @@ import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, Send, Image as ImageIcon, Mic, MoreVertical,
   Paperclip, Camera, X, ShoppingBag, ExternalLink,
-  Check, CheckCheck, AlertCircle, Clock, FileText, Video, Music
+  Check, CheckCheck, AlertCircle, Clock, FileText, Video, Music,
+  Pencil, Trash2, Reply, SmilePlus, Users, Ban, Flag, FolderOpen
 } from 'lucide-react';
+import Picker from '@emoji-mart/react';
+import emojiData from '@emoji-mart/data';
 import { messagingService } from '../services/supabase/messaging';
 import { supabase } from '../services/supabase';
-import { Message, MessageType, ConversationContext } from '../types/messaging';
+import { 
+  Message, MessageType, ConversationContext, UserPresence, MessageDeleteScope,
+  MessageReaction, MessageReplyPreview, GroupInfo
+} from '../types/messaging';
 import { formatTimeAgo } from '../utils/formatters';
 import VerifiedBadge from '../components/VerifiedBadge';
+import GroupInfoPanel from '../components/messaging/GroupInfoPanel';
+import ConversationInfoPanel from '../components/messaging/ConversationInfoPanel';
+import ShareCardView from '../components/messaging/ShareCardView';
+import OfferCard from '../components/marketplace/OfferCard';
+import ReportUserModal from '../components/ReportUserModal';
+import { blockingService } from '../services/supabase/blocking';
+import { usePresence, useTyping } from '../hooks/useMessaging';
 
 // Cache keys
 const CACHE_KEYS = {
@@ -18,8 +31,51 @@ const CACHE_KEYS = {
   CONVERSATION_INFO: (conversationId: string) => `chat_info_${conversationId}`
 };
 
-// Generate temporary ID for optimistic updates
-const generateTempId = () => `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+// Quick reactions shown in the message actions sheet
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Build the quoted preview for a reply
+const toReplyPreview = (message: Message): MessageReplyPreview => ({
+  id: message.id,
+  sender_id: message.sender_id,
+  sender_name: message.sender_name,
+  type: message.type,
+  content: message.content,
+  is_deleted: message.is_deleted
+});
+
+// Short text for a quoted message
+const describeReply = (reply: MessageReplyPreview) => {
+  if (reply.is_deleted) return 'This message was deleted';
+  if (reply.type === 'text') return reply.content || '';
+  if (reply.type === 'document') return `📄 ${reply.content || 'Document'}`;
+  if (reply.type === 'share_card') return `🔗 ${reply.content || 'Shared card'}`;
+  if (reply.type === 'offer') return `💰 ${reply.content || 'Offer'}`;
+  return reply.type === 'image' ? '📷 Photo' : reply.type === 'video' ? '🎥 Video' : '🎤 Voice note';
+};
+
+// Apply the current user's reaction toggle locally
+const toggleReactionLocally = (reactions: MessageReaction[] = [], emoji: string, userId: string): MessageReaction[] => {
+  const existing = reactions.find(reaction => reaction.emoji === emoji);
+  
+  if (!existing) {
+    return [...reactions, { emoji, count: 1, user_ids: [userId] }];
+  }
+  
+  if (existing.user_ids.includes(userId)) {
+    return reactions
+      .map(reaction => reaction.emoji === emoji
+        ? { ...reaction, count: reaction.count - 1, user_ids: reaction.user_ids.filter(id => id !== userId) }
+        : reaction
+      )
+      .filter(reaction => reaction.count > 0);
+  }
+  
+  return reactions.map(reaction => reaction.emoji === emoji
+    ? { ...reaction, count: reaction.count + 1, user_ids: [...reaction.user_ids, userId] }
+    : reaction
+  );
+};
 
 // File preview modal component
 const FilePreviewModal: React.FC<{
@@ -150,6 +206,7 @@ const ChatWindow: React.FC = () => {
   const navigate = useNavigate();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   
   const [messages, setMessages] = useState<Message[]>([]);
@@ -162,11 +219,20 @@ const ChatWindow: React.FC = () => {
   const [showMediaOptions, setShowMediaOptions] = useState(false);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [realtimeConnected, setRealtimeConnected] = useState(false);
-  const [pendingMessages, setPendingMessages] = useState<Set<string>>(new Set());
-  const [failedMessages, setFailedMessages] = useState<Map<string, { message: string, retryCount: number }>>(new Map());
   const [conversationContext, setConversationContext] = useState<ConversationContext>('connection');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [showFilePreview, setShowFilePreview] = useState(false);
+  const [activeMessage, setActiveMessage] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [groupInfo, setGroupInfo] = useState<GroupInfo | null>(null);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [blockStatus, setBlockStatus] = useState<'none' | 'blocked_by_me' | 'blocked_me'>('none');
+  const [showChatMenu, setShowChatMenu] = useState(false);
+  const [showConversationInfo, setShowConversationInfo] = useState(false);
+  const [reportTarget, setReportTarget] = useState<{ userId: string; userName: string; messageId?: string } | null>(null);
   
   const otherUser = location.state?.otherUser || {
     id: '',
@@ -178,6 +244,14 @@ const ChatWindow: React.FC = () => {
   // Get context from location state or determine from conversation
   const initialContext = location.state?.context as ConversationContext || 'connection';
   const listing = location.state?.listing || null;
+  const groupState = location.state?.group || null;
+  // Message to jump to when opened from a search result
+  const focusMessageId: string | null = location.state?.focusMessageId || null;
+
+  const isGroup = conversationContext === 'group';
+  const headerName: string = isGroup ? (groupInfo?.name || groupState?.name || 'Group') : otherUser.name;
+  const headerAvatar: string | undefined = isGroup ? (groupInfo?.avatar_url || groupState?.avatar) : otherUser.avatar;
+
 
   // Sort messages in ascending order (oldest first, newest last)
   const sortedMessages = [...messages].sort((a, b) => 
@@ -224,6 +298,64 @@ const ChatWindow: React.FC = () => {
     getCurrentUser();
   }, []);
 
+  // Typing is shared only with this conversation's participants
+  const { typing, sendTyping, stopTyping } = useTyping(conversationId ? [conversationId] : []);
+  const typingUserIds = conversationId ? typing[conversationId] || [] : [];
+  const otherUserTyping = typingUserIds.length > 0;
+
+  // Names of the group members currently typing
+  const typingLabel = (() => {
+    if (!isGroup || !otherUserTyping) return 'typing…';
+    const names = typingUserIds
+      .map(userId => groupInfo?.members.find(member => member.user_id === userId)?.name)
+      .filter(Boolean) as string[];
+    if (names.length === 0) return 'typing…';
+    if (names.length === 1) return `${names[0]} is typing…`;
+    return names.length === 2 ? `${names[0]} and ${names[1]} are typing…` : 'Several people are typing…';
+  })();
+
+  useEffect(() => {
+    return () => stopTyping();
+  }, [conversationId, stopTyping]);
+
+  // The other user's online status
+  const presence = usePresence(isGroup ? [] : [otherUser.id]);
+  const otherUserPresence: UserPresence | null = presence[otherUser.id] || null;
+
+  // Check for a block between the two users of a one-to-one chat
+  useEffect(() => {
+    if (!otherUser.id || initialContext === 'group') return;
+    
+    const checkBlock = async () => {
+      if (!(await blockingService.isBlocked(otherUser.id))) {
+        setBlockStatus('none');
+        return;
+      }
+      setBlockStatus(await blockingService.hasBlocked(otherUser.id) ? 'blocked_by_me' : 'blocked_me');
+    };
+    
+    checkBlock();
+  }, [otherUser.id, initialContext]);
+
+  // Load group details (also detects groups opened without navigation state)
+  useEffect(() => {
+    if (!conversationId) return;
+    if (initialContext !== 'group' && location.state) return;
+
+    let isMounted = true;
+
+    messagingService.getGroupInfo(conversationId).then(info => {
+      if (isMounted && info) {
+        setGroupInfo(info);
+        setConversationContext('group');
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [conversationId, initialContext, location.state]);
+
   // Scroll to bottom helper
   const scrollToBottom = useCallback((instant: boolean = false) => {
     requestAnimationFrame(() => {
@@ -255,6 +387,30 @@ const ChatWindow: React.FC = () => {
     return distanceFromBottom <= 200;
   }, []);
 
+  // Follow outbox delivery states (queued → sending → sent / failed)
+  useEffect(() => {
+    if (!conversationId) return;
+
+    return messagingService.subscribeToOutbox((tempId, message) => {
+      if (message.conversation_id !== conversationId) return;
+
+      setMessages(prev => {
+        // Realtime may already have delivered the sent row
+        if (message.id !== tempId && prev.some(msg => msg.id === message.id)) {
+          return prev.filter(msg => msg.id !== tempId);
+        }
+        return prev.map(msg => msg.id === tempId ? { ...msg, ...message } : msg);
+      });
+    });
+  }, [conversationId]);
+
+  // Keep the typing indicator in view
+  useEffect(() => {
+    if (otherUserTyping && isNearBottom()) {
+      scrollToBottom();
+    }
+  }, [otherUserTyping, isNearBottom, scrollToBottom]);
+
   // Load messages and setup realtime
   useEffect(() => {
     let isMounted = true;
@@ -285,13 +441,15 @@ const ChatWindow: React.FC = () => {
             try {
               const parsedMessages = JSON.parse(cachedMessages);
               if (isMounted && Array.isArray(parsedMessages)) {
-                // Sort cached messages ascending
-                const sortedCachedMessages = parsedMessages.sort((a: Message, b: Message) => 
+                // Outbox copies are restored from the outbox itself, not the cache
+                const sortedCachedMessages = parsedMessages.filter((msg: Message) => !msg.id.startsWith('temp_')).sort((a: Message, b: Message) => 
                   new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
                 );
                 setMessages(sortedCachedMessages);
                 setInitialLoadComplete(true);
-                scrollToBottom(true);
+                if (!focusMessageId) {
+                  scrollToBottom(true);
+                }
                 
                 // Mark as read in background
                 setTimeout(() => {
@@ -309,20 +467,32 @@ const ChatWindow: React.FC = () => {
         
         // Fetch fresh messages
         const freshMessages = await messagingService.getConversationMessages(conversationId);
+        const queuedMessages = await messagingService.getQueuedMessages(conversationId);
+        
+        // Load the history around a search hit that may be older than the latest page
+        const contextMessages = focusMessageId
+          ? (await messagingService.getMessageContext(conversationId, focusMessageId))
+              .filter(msg => !freshMessages.some(fresh => fresh.id === msg.id))
+          : [];
         
         if (isMounted) {
           // Sort messages in ascending order
           const sortedFreshMessages = freshMessages.sort((a, b) => 
             new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
           );
+          const visibleMessages = [...contextMessages, ...sortedFreshMessages].sort((a, b) => 
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+          );
           
-          // Merge with cached messages (prefer fresh data)
-          setMessages(sortedFreshMessages);
+          // Merge with cached messages (prefer fresh data), keeping undelivered ones at the end
+          setMessages([...visibleMessages, ...queuedMessages]);
           setLoading(false);
           setInitialLoadComplete(true);
           
           // Determine conversation context from messages
-          if (freshMessages.length > 0) {
+          if (initialContext === 'group') {
+            setConversationContext('group');
+          } else if (freshMessages.length > 0) {
             // Check if any message has a listing_id (marketplace context)
             const hasListingMessages = freshMessages.some(msg => msg.listing_id);
             setConversationContext(hasListingMessages ? 'marketplace' : 'connection');
@@ -330,7 +500,12 @@ const ChatWindow: React.FC = () => {
             setConversationContext(initialContext);
           }
           
-          scrollToBottom();
+          if (focusMessageId) {
+            // Wait for the merged history to render before jumping
+            setTimeout(() => handleJumpToMessage(focusMessageId), 300);
+          } else {
+            scrollToBottom();
+          }
           
           // Send pre-filled marketplace message if needed
           if (shouldSendPrefilled && prefilledListing && freshMessages.length === 0) {
@@ -362,6 +537,20 @@ const ChatWindow: React.FC = () => {
       
       console.log(`🔔 Setting up realtime for conversation: ${conversationId}`);
       
+      const refreshReactions = async (messageId?: string) => {
+        if (!messageId) return;
+        
+        const reactions = await messagingService.getReactions([messageId]);
+        
+        if (isMounted) {
+          setMessages(prev => prev.map(msg => 
+            msg.id === messageId 
+              ? { ...msg, reactions: reactions[messageId] || [] } 
+              : msg
+          ));
+        }
+      };
+      
       // Subscribe to new messages
       realtimeChannel = supabase
         .channel(`messages:${conversationId}`)
@@ -376,17 +565,6 @@ const ChatWindow: React.FC = () => {
           async (payload) => {
             const newMessage = payload.new as Message;
             
-            // Skip if this is our own optimistic message
-            if (pendingMessages.has(newMessage.id)) {
-              console.log('Skipping realtime message (optimistic):', newMessage.id);
-              setPendingMessages(prev => {
-                const next = new Set(prev);
-                next.delete(newMessage.id);
-                return next;
-              });
-              return;
-            }
-            
             if (isMounted) {
               // Add the new message (maintaining ascending order)
               setMessages(prev => {
@@ -394,7 +572,26 @@ const ChatWindow: React.FC = () => {
                 const exists = prev.some(msg => msg.id === newMessage.id);
                 if (exists) return prev;
                 
-                const updated = [...prev, newMessage].sort((a, b) => 
+                // Our own outbox copy is still waiting for its real id
+                const isOutboxCopy = prev.some(msg => 
+                  msg.delivery_status === 'sending' &&
+                  msg.sender_id === newMessage.sender_id &&
+                  msg.type === newMessage.type &&
+                  msg.content === newMessage.content
+                );
+                if (isOutboxCopy) return prev;
+                
+                // Raw rows only carry reply_to_id, build the quote from loaded messages
+                const original = newMessage.reply_to_id
+                  ? prev.find(msg => msg.id === newMessage.reply_to_id)
+                  : undefined;
+                const enriched: Message = {
+                  ...newMessage,
+                  reply_to: original ? toReplyPreview(original) : newMessage.reply_to || null,
+                  reactions: newMessage.reactions || []
+                };
+                
+                const updated = [...prev, enriched].sort((a, b) => 
                   new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
                 );
                 
@@ -416,7 +613,7 @@ const ChatWindow: React.FC = () => {
               });
               
               // Update context if this is a marketplace message
-              if (newMessage.listing_id) {
+              if (newMessage.listing_id && initialContext !== 'group') {
                 setConversationContext('marketplace');
               }
               
@@ -447,9 +644,25 @@ const ChatWindow: React.FC = () => {
             console.log('✏️  Message updated:', updatedMessage.id);
             
             if (isMounted) {
+              // Deleted for the current user only
+              if (updatedMessage.deleted_for?.includes(currentUserId)) {
+                setMessages(prev => prev.filter(msg => msg.id !== updatedMessage.id));
+                return;
+              }
+              
+              // The raw row has no sender/listing details, only take the changed fields
               setMessages(prev => 
                 prev.map(msg => 
-                  msg.id === updatedMessage.id ? updatedMessage : msg
+                  msg.id === updatedMessage.id
+                    ? {
+                        ...msg,
+                        content: updatedMessage.content,
+                        media_url: updatedMessage.media_url,
+                        is_read: updatedMessage.is_read,
+                        edited_at: updatedMessage.edited_at,
+                        is_deleted: updatedMessage.is_deleted
+                      }
+                    : msg
                 ).sort((a, b) => 
                   new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
                 )
@@ -457,6 +670,18 @@ const ChatWindow: React.FC = () => {
             }
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'message_reactions',
+            filter: `conversation_id=eq.${conversationId}`
+          },
+          (payload) => refreshReactions((payload.new as any)?.message_id)
+        )
+        // Filtered DELETE changes are never delivered; toggleReaction broadcasts removals instead
+        .on('broadcast', { event: 'reaction_removed' }, ({ payload }) => refreshReactions(payload?.message_id))
         .subscribe((status) => {
           console.log(`📡 Realtime status: ${status}`);
           setRealtimeConnected(status === 'SUBSCRIBED');
@@ -506,122 +731,200 @@ const ChatWindow: React.FC = () => {
     }
   };
 
-  // Optimistic send message
+  // Start replying to a message
+  const handleStartReply = (message: Message) => {
+    setActiveMessage(null);
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  // Scroll to the quoted message and highlight it briefly
+  const handleJumpToMessage = (messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) return;
+    
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(null), 1500);
+  };
+
+  // Jump to a message picked in the shared media panel, loading its history if needed
+  const handleShowInChat = async (messageId: string) => {
+    setShowConversationInfo(false);
+    if (!conversationId) return;
+    
+    if (!document.getElementById(`message-${messageId}`)) {
+      const contextMessages = await messagingService.getMessageContext(conversationId, messageId);
+      setMessages(prev => [
+        ...prev,
+        ...contextMessages.filter(msg => !prev.some(existing => existing.id === msg.id))
+      ]);
+    }
+    
+    setTimeout(() => handleJumpToMessage(messageId), 300);
+  };
+
+  // Toggle a reaction with an optimistic update
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    setActiveMessage(null);
+    setShowEmojiPicker(false);
+    
+    if (!currentUserId || message.id.startsWith('temp_')) return;
+    
+    const previousReactions = message.reactions || [];
+    setMessages(prev => prev.map(msg => 
+      msg.id === message.id 
+        ? { ...msg, reactions: toggleReactionLocally(msg.reactions, emoji, currentUserId) } 
+        : msg
+    ));
+    
+    try {
+      await messagingService.toggleReaction(message, emoji);
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+      setMessages(prev => prev.map(msg => 
+        msg.id === message.id ? { ...msg, reactions: previousReactions } : msg
+      ));
+    }
+  };
+
+  // Start editing one of our own messages
+  const handleStartEdit = (message: Message) => {
+    setActiveMessage(null);
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content || '');
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  // Save an edited message
+  const handleSaveEdit = async () => {
+    if (!editingMessage || !newMessage.trim()) return;
+    
+    const message = editingMessage;
+    const content = newMessage.trim();
+    
+    if (content === message.content) {
+      handleCancelEdit();
+      return;
+    }
+    
+    try {
+      setSending(true);
+      await messagingService.editMessage(message, content);
+      
+      setMessages(prev => prev.map(msg => 
+        msg.id === message.id 
+          ? { ...msg, content, edited_at: new Date().toISOString() } 
+          : msg
+      ));
+      
+      setEditingMessage(null);
+      setNewMessage('');
+    } catch (error: any) {
+      console.error('Error editing message:', error);
+      alert(error?.message || 'Failed to edit message. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Delete a message for me or for everyone
+  const handleDeleteMessage = async (message: Message, scope: MessageDeleteScope) => {
+    setActiveMessage(null);
+    
+    const prompt = scope === 'everyone'
+      ? 'Delete this message for everyone?'
+      : 'Delete this message for you? Others will still see it.';
+    if (!window.confirm(prompt)) return;
+    
+    try {
+      await messagingService.deleteMessage(message, scope);
+      
+      setMessages(prev => scope === 'me'
+        ? prev.filter(msg => msg.id !== message.id)
+        : prev.map(msg => 
+            msg.id === message.id 
+              ? { ...msg, is_deleted: true, content: undefined, media_url: undefined } 
+              : msg
+          )
+      );
+      
+      if (editingMessage?.id === message.id) {
+        handleCancelEdit();
+      }
+    } catch (error: any) {
+      console.error('Error deleting message:', error);
+      alert(error?.message || 'Failed to delete message. Please try again.');
+    }
+  };
+
+  // Add a queued outbox message to the list
+  const addQueuedMessage = (queued: Message) => {
+    setMessages(prev => [...prev, queued].sort((a, b) => 
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    ));
+    scrollToBottom();
+  };
+
+  // Queue message in the outbox; delivery state updates arrive via subscribeToOutbox
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !conversationId || sending) return;
+    
+    if (editingMessage) {
+      handleSaveEdit();
+      return;
+    }
 
     const messageContent = newMessage.trim();
-    const tempId = generateTempId();
+    const replyTo = replyingTo;
+    stopTyping();
     
     // Determine if this is a marketplace message
     const listingId = conversationContext === 'marketplace' && listing?.id ? listing.id : undefined;
-    
-    // Create optimistic message
-    const optimisticMessage: Message = {
-      id: tempId,
-      conversation_id: conversationId,
-      sender_id: currentUserId,
-      sender_name: 'You',
-      sender_avatar: '',
-      type: 'text',
-      content: messageContent,
-      listing_id: listingId,
-      listing_title: listing?.title,
-      media_url: undefined,
-      is_read: false,
-      created_at: new Date().toISOString()
-    };
 
     try {
       setSending(true);
       setNewMessage('');
+      setReplyingTo(null);
       
-      // Add to pending messages
-      setPendingMessages(prev => new Set([...prev, tempId]));
-      
-      // Add optimistic message immediately (maintaining order)
-      setMessages(prev => {
-        const updated = [...prev, optimisticMessage].sort((a, b) => 
-          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-        );
-        
-        // Update cache
-        try {
-          localStorage.setItem(
-            CACHE_KEYS.MESSAGES(conversationId),
-            JSON.stringify(updated)
-          );
-        } catch (error) {
-          console.error('Error updating cache:', error);
-        }
-        
-        return updated;
-      });
-      
-      // Scroll to show new message
-      scrollToBottom();
-      
-      // Send actual message using new service
-      const messageId = await messagingService.sendMessage(
-        conversationId,
-        messageContent,
-        'text',
-        listingId
-      );
-      
-      console.log('✅ Message sent successfully:', messageId);
-      
-      // Remove from pending
-      setPendingMessages(prev => {
-        const next = new Set(prev);
-        next.delete(tempId);
-        return next;
+      const queued = await messagingService.queueMessage(conversationId, messageContent, 'text', {
+        listingId,
+        listingTitle: listing?.title,
+        replyTo: replyTo ? toReplyPreview(replyTo) : null
       });
       
-      // Update message with real ID
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === tempId 
-            ? { ...msg, id: messageId } 
-            : msg
-        ).sort((a, b) => 
-          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-        )
-      );
+      addQueuedMessage(queued);
       
     } catch (error) {
-      console.error('❌ Error sending message:', error);
-      
-      // Remove from pending
-      setPendingMessages(prev => {
-        const next = new Set(prev);
-        next.delete(tempId);
-        return next;
-      });
-      
-      // Mark as failed
-      setFailedMessages(prev => {
-        const next = new Map(prev);
-        next.set(tempId, { 
-          message: messageContent, 
-          retryCount: 0 
-        });
-        return next;
-      });
-      
-      // Remove optimistic message (will show retry UI)
-      setMessages(prev => prev.filter(msg => msg.id !== tempId).sort((a, b) => 
-        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-      ));
-      
-      // Show error toast
+      console.error('❌ Error queueing message:', error);
+      setNewMessage(messageContent);
       alert('Failed to send message. Please try again.');
     } finally {
       setSending(false);
     }
   };
 
+  // Retry a message that ran out of automatic attempts
+  const handleRetryMessage = async (messageId: string) => {
+    try {
+      await messagingService.retryQueuedMessage(messageId);
+    } catch (error) {
+      console.error('Error retrying message:', error);
+    }
+  };
+
+  // Remove a failed message from the outbox
+  const handleDiscardMessage = async (messageId: string) => {
+    await messagingService.discardQueuedMessage(messageId);
+    setMessages(prev => prev.filter(msg => msg.id !== messageId));
+  };
+
   // Handle file selection - show preview modal
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -633,87 +936,33 @@ const ChatWindow: React.FC = () => {
     event.target.value = '';
   };
 
-  // Send media file after preview confirmation
+  // Queue media file after preview confirmation; the upload runs from the outbox
   const handleSendFile = async () => {
     if (!selectedFile || !conversationId || uploading) return;
     
-    const tempId = generateTempId();
     const listingId = conversationContext === 'marketplace' && listing?.id ? listing.id : undefined;
+    const type: MessageType = selectedFile.type.startsWith('image/') ? 'image' : 
+      selectedFile.type.startsWith('video/') ? 'video' :
+      selectedFile.type === 'application/pdf' ? 'document' : 'audio';
     
     try {
       setUploading(true);
       
-      // Create optimistic message for media
-      const optimisticMessage: Message = {
-        id: tempId,
-        conversation_id: conversationId,
-        sender_id: currentUserId,
-        sender_name: 'You',
-        sender_avatar: '',
-        type: selectedFile.type.startsWith('image/') ? 'image' : 
-              selectedFile.type.startsWith('video/') ? 'video' : 'audio',
-        content: selectedFile.name,
-        listing_id: listingId,
-        listing_title: listing?.title,
-        media_url: URL.createObjectURL(selectedFile), // Temp URL for preview
-        is_read: false,
-        created_at: new Date().toISOString()
-      };
-      
-      // Add to pending
-      setPendingMessages(prev => new Set([...prev, tempId]));
-      
-      // Add optimistic message (maintaining order)
-      setMessages(prev => {
-        const updated = [...prev, optimisticMessage].sort((a, b) => 
-          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-        );
-        return updated;
-      });
-      
-      scrollToBottom();
-      
-      // Upload and send using new service
-      await messagingService.sendMessage(
-        conversationId,
-        selectedFile.name,
-        optimisticMessage.type as MessageType,
+      const queued = await messagingService.queueMessage(conversationId, selectedFile.name, type, {
         listingId,
-        selectedFile
-      );
-      
-      // Remove from pending
-      setPendingMessages(prev => {
-        const next = new Set(prev);
-        next.delete(tempId);
-        return next;
-      });
-      
-      // Close preview modal and clear selected file
-      setShowFilePreview(false);
-      setSelectedFile(null);
-      
-    } catch (error) {
-      console.error('Error uploading media:', error);
-      
-      // Remove from pending
-      setPendingMessages(prev => {
-        const next = new Set(prev);
-        next.delete(tempId);
-        return next;
+        listingTitle: listing?.title,
+        mediaFile: selectedFile
       });
       
-      // Remove optimistic message
-      setMessages(prev => prev.filter(msg => msg.id !== tempId).sort((a, b) => 
-        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-      ));
+      addQueuedMessage(queued);
       
-      // Close preview modal
+    } catch (error: any) {
+      console.error('Error queueing media:', error);
+      alert(error?.message || 'Failed to upload media. Please try again.');
+    } finally {
+      // Close preview modal and clear selected file
       setShowFilePreview(false);
       setSelectedFile(null);
-      
-      alert('Failed to upload media. Please try again.');
-    } finally {
       setUploading(false);
     }
   };
@@ -724,7 +973,29 @@ const ChatWindow: React.FC = () => {
     setSelectedFile(null);
   };
 
+  const handleToggleBlock = async () => {
+    setShowChatMenu(false);
+    
+    try {
+      if (blockStatus === 'blocked_by_me') {
+        await blockingService.unblockUser(otherUser.id);
+        setBlockStatus('none');
+      } else {
+        if (!window.confirm(`Block ${otherUser.name}? They will not be able to message you or send you connection requests.`)) return;
+        await blockingService.blockUser(otherUser.id);
+        setBlockStatus('blocked_by_me');
+      }
+    } catch (error: any) {
+      console.error('Error updating block:', error);
+      alert(error?.message || 'Failed to update block. Please try again.');
+    }
+  };
+
   const handleProfileClick = () => {
+    if (isGroup) {
+      setShowGroupInfo(true);
+      return;
+    }
     navigate(`/profile/${otherUser.id}`);
   };
 
@@ -781,10 +1052,10 @@ const ChatWindow: React.FC = () => {
                 className="flex items-center gap-3 hover:opacity-80 transition-opacity"
               >
                 <div className="w-12 h-12 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-purple-500 flex-shrink-0 relative">
-                  {otherUser.avatar ? (
+                  {headerAvatar ? (
                     <img
-                      src={otherUser.avatar}
-                      alt={otherUser.name}
+                      src={headerAvatar}
+                      alt={headerName}
                       className="w-full h-full object-cover"
                       onError={(e) => {
                         // Fallback if image fails to load
@@ -792,17 +1063,21 @@ const ChatWindow: React.FC = () => {
                         target.style.display = 'none';
                         target.parentElement!.innerHTML = `
                           <div class="w-full h-full flex items-center justify-center text-white font-bold text-lg">
-                            ${otherUser.name?.charAt(0).toUpperCase()}
+                            ${headerName?.charAt(0).toUpperCase()}
                           </div>
                         `;
                       }}
                     />
+                  ) : isGroup ? (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Users className="w-6 h-6 text-white" />
+                    </div>
                   ) : (
                     <div className="w-full h-full flex items-center justify-center text-white font-bold text-lg">
-                      {otherUser.name?.charAt(0).toUpperCase()}
+                      {headerName?.charAt(0).toUpperCase()}
                     </div>
                   )}
-                  {otherUser.status === 'verified' && (
+                  {!isGroup && otherUser.status === 'verified' && (
                     <div className="absolute -bottom-1 -right-1">
                       <VerifiedBadge size={12} />
                     </div>
@@ -811,8 +1086,8 @@ const ChatWindow: React.FC = () => {
                 
                 <div className="min-w-0">
                   <div className="flex items-center gap-1">
-                    <h2 className="font-bold text-gray-900 truncate">{otherUser.name}</h2>
-                    {otherUser.status === 'verified' && (
+                    <h2 className="font-bold text-gray-900 truncate">{headerName}</h2>
+                    {!isGroup && otherUser.status === 'verified' && (
                       <VerifiedBadge size={12} />
                     )}
                   </div>
@@ -821,12 +1096,37 @@ const ChatWindow: React.FC = () => {
                       {conversationContext === 'marketplace' ? 'Marketplace conversation' : ''}
                     </p>
                     <div className="flex items-center gap-1">
-                      <div className={`w-2 h-2 rounded-full ${
-                        realtimeConnected ? 'bg-green-500' : 'bg-gray-400'
-                      }`} />
-                      <span className="text-xs text-gray-500">
-                        {realtimeConnected ? 'Live' : 'Offline'}
-                      </span>
+                      {isGroup && otherUserTyping ? (
+                        <span className="text-xs text-blue-600 font-medium truncate">{typingLabel}</span>
+                      ) : isGroup ? (
+                        <span className="text-xs text-gray-500">
+                          {groupInfo ? `${groupInfo.members.length} members` : 'Group'}
+                        </span>
+                      ) : otherUserTyping ? (
+                        <span className="text-xs text-blue-600 font-medium">typing…</span>
+                      ) : otherUserPresence ? (
+                        <>
+                          <div className={`w-2 h-2 rounded-full ${
+                            otherUserPresence.is_online ? 'bg-green-500' : 'bg-gray-400'
+                          }`} />
+                          <span className="text-xs text-gray-500">
+                            {otherUserPresence.is_online
+                              ? 'Online'
+                              : otherUserPresence.last_seen
+                                ? `Last seen ${formatTimeAgo(otherUserPresence.last_seen)}`
+                                : 'Offline'}
+                          </span>
+                        </>
+                      ) : (
+                        <>
+                          <div className={`w-2 h-2 rounded-full ${
+                            realtimeConnected ? 'bg-green-500' : 'bg-gray-400'
+                          }`} />
+                          <span className="text-xs text-gray-500">
+                            {realtimeConnected ? 'Live' : 'Offline'}
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -841,6 +1141,56 @@ const ChatWindow: React.FC = () => {
                   Member
                 </span>
               )}
+              
+              {/* Shared media, plus block / report for one-to-one chats */}
+              {(isGroup || otherUser.id) && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowChatMenu(!showChatMenu)}
+                    className="p-2 hover:bg-gray-100 rounded-xl"
+                    aria-label="Chat options"
+                  >
+                    <MoreVertical className="w-5 h-5 text-gray-600" />
+                  </button>
+                  {showChatMenu && (
+                    <div className="absolute right-0 top-11 bg-white rounded-xl shadow-2xl border border-gray-200 w-44 py-1 z-60">
+                      <button
+                        onClick={() => {
+                          setShowChatMenu(false);
+                          setShowConversationInfo(true);
+                        }}
+                        className="w-full px-4 py-3 text-left flex items-center gap-3 hover:bg-gray-50 text-gray-700"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                        <span className="text-sm font-medium">Media & files</span>
+                      </button>
+                      {!isGroup && blockStatus !== 'blocked_me' && (
+                        <button
+                          onClick={handleToggleBlock}
+                          className="w-full px-4 py-3 text-left flex items-center gap-3 hover:bg-gray-50 text-gray-700"
+                        >
+                          <Ban className="w-4 h-4" />
+                          <span className="text-sm font-medium">
+                            {blockStatus === 'blocked_by_me' ? 'Unblock' : 'Block'}
+                          </span>
+                        </button>
+                      )}
+                      {!isGroup && (
+                        <button
+                          onClick={() => {
+                            setShowChatMenu(false);
+                            setReportTarget({ userId: otherUser.id, userName: otherUser.name });
+                          }}
+                          className="w-full px-4 py-3 text-left flex items-center gap-3 hover:bg-red-50 text-red-600"
+                        >
+                          <Flag className="w-4 h-4" />
+                          <span className="text-sm font-medium">Report</span>
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -892,27 +1242,48 @@ const ChatWindow: React.FC = () => {
           <div className="space-y-4">
             {sortedMessages.map((message) => {
               const isOwn = message.sender_id === currentUserId;
-              const isPending = pendingMessages.has(message.id);
               const isTemp = message.id.startsWith('temp_');
-              const failedMessage = failedMessages.get(message.id);
+              const deliveryStatus = message.delivery_status;
+              const isPending = deliveryStatus === 'queued' || deliveryStatus === 'sending';
+              const isFailed = deliveryStatus === 'failed';
+              
+              // System messages ("X added Y") are centred notices
+              if (message.type === 'system') {
+                return (
+                  <div key={message.id} id={`message-${message.id}`} className="flex justify-center">
+                    <span className="text-xs text-gray-600 bg-gray-100 px-3 py-1 rounded-full text-center">
+                      {message.content}
+                    </span>
+                  </div>
+                );
+              }
               
               return (
                 <div
                   key={message.id}
-                  className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                  id={`message-${message.id}`}
+                  className={`flex ${isOwn ? 'justify-end' : 'justify-start'} rounded-2xl transition-colors duration-500 ${
+                    highlightedMessageId === message.id ? 'bg-blue-50' : ''
+                  }`}
                 >
                   <div className={`max-w-xs lg:max-w-md ${isOwn ? 'flex flex-col items-end' : ''}`}>
                     {/* Failed message retry UI */}
-                    {failedMessage && (
+                    {isFailed && (
                       <div className="mb-2 flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg p-2">
                         <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
                         <span className="text-sm text-red-700">Failed to send</span>
                         <button
-                          onClick={() => handleRetryMessage(message.id, failedMessage.message)}
+                          onClick={() => handleRetryMessage(message.id)}
                           className="ml-auto text-sm font-medium text-red-600 hover:text-red-800"
                         >
                           Retry
                         </button>
+                        <button
+                          onClick={() => handleDiscardMessage(message.id)}
+                          className="text-sm text-gray-500 hover:text-gray-700"
+                        >
+                          Discard
+                        </button>
                       </div>
                     )}
                     
@@ -926,7 +1297,7 @@ const ChatWindow: React.FC = () => {
                       }`}
                     >
                       {/* Pending indicator */}
-                      {isPending && (
+                      {deliveryStatus === 'sending' && (
                         <div className="absolute -top-2 -right-2">
                           <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                         </div>
@@ -939,7 +1310,25 @@ const ChatWindow: React.FC = () => {
                         </div>
                       )}
                       
-                      {message.type === 'text' ? (
+                      {/* Quoted reply */}
+                      {message.reply_to && !message.is_deleted && (
+                        <button
+                          type="button"
+                          onClick={() => handleJumpToMessage(message.reply_to!.id)}
+                          className={`block w-full text-left mb-2 px-3 py-2 rounded-lg border-l-4 ${
+                            isOwn ? 'bg-white/15 border-white/60' : 'bg-white border-blue-500'
+                          }`}
+                        >
+                          <p className={`text-xs font-semibold ${isOwn ? 'text-white' : 'text-blue-600'}`}>
+                            {message.reply_to.sender_id === currentUserId ? 'You' : message.reply_to.sender_name}
+                          </p>
+                          <p className="text-sm opacity-80 truncate">{describeReply(message.reply_to)}</p>
+                        </button>
+                      )}
+                      
+                      {message.is_deleted ? (
+                        <p className="italic opacity-75">This message was deleted</p>
+                      ) : message.type === 'text' ? (
                         <p className="whitespace-pre-wrap">{message.content}</p>
                       ) : message.type === 'image' ? (
                         <div className="space-y-2">
@@ -990,9 +1379,54 @@ const ChatWindow: React.FC = () => {
                             <p className="text-sm">{message.content}</p>
                           )}
                         </div>
+                      ) : message.type === 'share_card' && message.share_card ? (
+                        <ShareCardView
+                          card={message.share_card}
+                          onOpen={(card) => navigate(card.path)}
+                        />
+                      ) : message.type === 'offer' && message.offer_id ? (
+                        <OfferCard offerId={message.offer_id} currentUserId={currentUserId} />
+                      ) : message.type === 'document' ? (
+                        <a
+                          href={message.media_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`flex items-center gap-3 p-2 rounded-lg ${
+                            isOwn ? 'bg-white/15' : 'bg-white border border-gray-200'
+                          }`}
+                        >
+                          <FileText className={`w-8 h-8 flex-shrink-0 ${isOwn ? 'text-white' : 'text-red-600'}`} />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{message.content || 'Document'}</p>
+                            <p className="text-xs opacity-75">PDF</p>
+                          </div>
+                        </a>
                       ) : null}
                     </div>
                     
+                    {/* Reactions */}
+                    {message.reactions && message.reactions.length > 0 && !message.is_deleted && (
+                      <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? 'justify-end' : ''}`}>
+                        {message.reactions.map(reaction => {
+                          const reacted = reaction.user_ids.includes(currentUserId);
+                          return (
+                            <button
+                              key={reaction.emoji}
+                              onClick={() => handleToggleReaction(message, reaction.emoji)}
+                              className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                                reacted
+                                  ? 'bg-blue-50 border-blue-300 text-blue-700'
+                                  : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                              }`}
+                            >
+                              <span>{reaction.emoji}</span>
+                              <span>{reaction.count}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                    
                     <div className="flex items-center gap-2 mt-1 px-1">
                       {/* Sender name for others' messages */}
                       {!isOwn && message.sender_name && (
@@ -1003,16 +1437,28 @@ const ChatWindow: React.FC = () => {
                       
                       {/* Timestamp */}
                       <span className="text-xs text-gray-800 flex items-center gap-1">
-                        {isTemp ? (
+                        {deliveryStatus === 'queued' ? (
+                          <>
+                            <Clock className="w-3 h-3" />
+                            <span>Queued</span>
+                          </>
+                        ) : deliveryStatus === 'sending' ? (
                           <>
                             <Clock className="w-3 h-3" />
                             <span>Sending...</span>
                           </>
+                        ) : isFailed ? (
+                          <span className="text-red-600">Not sent</span>
                         ) : (
                           formatTimeAgo(message.created_at)
                         )}
                       </span>
                       
+                      {/* Edited marker */}
+                      {message.edited_at && !message.is_deleted && (
+                        <span className="text-xs text-gray-500">edited</span>
+                      )}
+                      
                       {/* Read status */}
                       {isOwn && !isTemp && (
                         <span className="text-xs">
@@ -1023,11 +1469,33 @@ const ChatWindow: React.FC = () => {
                           )}
                         </span>
                       )}
+                      
+                      {/* Message actions */}
+                      {!isTemp && !message.is_deleted && (
+                        <button
+                          onClick={() => setActiveMessage(message)}
+                          className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+                          aria-label="Message options"
+                        >
+                          <MoreVertical className="w-3 h-3" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
               );
             })}
+            
+            {/* Typing indicator */}
+            {otherUserTyping && (
+              <div className="flex justify-start">
+                <div className="bg-gray-100 rounded-2xl rounded-bl-none px-4 py-3 flex items-center gap-1">
+                  <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                  <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce [animation-delay:150ms]" />
+                  <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce [animation-delay:300ms]" />
+                </div>
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
         )}
@@ -1069,7 +1537,7 @@ const ChatWindow: React.FC = () => {
               </button>
               
               <button
-                onClick={() => {/* Open files */}}
+                onClick={() => documentInputRef.current?.click()}
                 className="flex flex-col items-center justify-center p-4 hover:bg-gray-50 rounded-xl transition-colors"
               >
                 <div className="w-12 h-12 bg-purple-50 rounded-xl flex items-center justify-center mb-2">
@@ -1082,6 +1550,143 @@ const ChatWindow: React.FC = () => {
         </div>
       )}
 
+      {/* Message Actions Modal */}
+      {activeMessage && (
+        <div
+          className="fixed inset-0 bg-black/50 z-60 flex items-end justify-center p-4"
+          onClick={() => setActiveMessage(null)}
+        >
+          <div
+            className="bg-white rounded-2xl w-full max-w-md p-2 mb-16"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Quick reactions */}
+            <div className="flex items-center justify-between px-2 py-2 mb-1 border-b border-gray-100">
+              {QUICK_REACTIONS.map(emoji => (
+                <button
+                  key={emoji}
+                  onClick={() => handleToggleReaction(activeMessage, emoji)}
+                  className={`w-10 h-10 flex items-center justify-center text-2xl rounded-full hover:bg-gray-100 transition-colors ${
+                    activeMessage.reactions?.some(r => r.emoji === emoji && r.user_ids.includes(currentUserId))
+                      ? 'bg-blue-50'
+                      : ''
+                  }`}
+                >
+                  {emoji}
+                </button>
+              ))}
+              <button
+                onClick={() => setShowEmojiPicker(true)}
+                className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-gray-100 transition-colors"
+                aria-label="More reactions"
+              >
+                <SmilePlus className="w-6 h-6 text-gray-500" />
+              </button>
+            </div>
+            
+            <button
+              onClick={() => handleStartReply(activeMessage)}
+              className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-xl transition-colors text-gray-700"
+            >
+              <Reply className="w-5 h-5 text-blue-600" />
+              <span className="font-medium">Reply</span>
+            </button>
+            
+            {messagingService.canEditMessage(activeMessage, currentUserId) && (
+              <button
+                onClick={() => handleStartEdit(activeMessage)}
+                className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-xl transition-colors text-gray-700"
+              >
+                <Pencil className="w-5 h-5 text-blue-600" />
+                <span className="font-medium">Edit</span>
+              </button>
+            )}
+            
+            {messagingService.canDeleteForEveryone(activeMessage, currentUserId) && (
+              <button
+                onClick={() => handleDeleteMessage(activeMessage, 'everyone')}
+                className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-xl transition-colors text-red-600"
+              >
+                <Trash2 className="w-5 h-5" />
+                <span className="font-medium">Delete for everyone</span>
+              </button>
+            )}
+            
+            <button
+              onClick={() => handleDeleteMessage(activeMessage, 'me')}
+              className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-xl transition-colors text-red-600"
+            >
+              <Trash2 className="w-5 h-5" />
+              <span className="font-medium">Delete for me</span>
+            </button>
+            
+            {activeMessage.sender_id !== currentUserId && (
+              <button
+                onClick={() => {
+                  setReportTarget({
+                    userId: activeMessage.sender_id,
+                    userName: activeMessage.sender_name,
+                    messageId: activeMessage.id
+                  });
+                  setActiveMessage(null);
+                }}
+                className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-xl transition-colors text-red-600"
+              >
+                <Flag className="w-5 h-5" />
+                <span className="font-medium">Report</span>
+              </button>
+            )}
+            
+            <button
+              onClick={() => setActiveMessage(null)}
+              className="w-full p-3 mt-1 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium text-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Emoji Picker for reactions */}
+      {showEmojiPicker && activeMessage && (
+        <div
+          className="fixed inset-0 bg-black/50 z-60 flex items-end justify-center p-4"
+          onClick={() => setShowEmojiPicker(false)}
+        >
+          <div className="mb-16" onClick={(e) => e.stopPropagation()}>
+            <Picker
+              data={emojiData}
+              onEmojiSelect={(emoji: { native: string }) => handleToggleReaction(activeMessage, emoji.native)}
+              previewPosition="none"
+              skinTonePosition="none"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Group Info Panel */}
+      {showGroupInfo && groupInfo && (
+        <GroupInfoPanel
+          group={groupInfo}
+          currentUserId={currentUserId}
+          onClose={() => setShowGroupInfo(false)}
+          onGroupChanged={setGroupInfo}
+          onLeft={() => navigate('/messages', { replace: true })}
+        />
+      )}
+
+      {/* Shared Media Panel */}
+      {showConversationInfo && conversationId && (
+        <ConversationInfoPanel
+          conversationId={conversationId}
+          title={headerName}
+          currentUserId={currentUserId}
+          onClose={() => setShowConversationInfo(false)}
+          onShowInChat={handleShowInChat}
+          onViewListing={(listingId) => navigate(`/marketplace/${listingId}`)}
+        />
+      )}
+
       {/* File Preview Modal */}
       {showFilePreview && selectedFile && (
         <FilePreviewModal
@@ -1100,63 +1705,150 @@ const ChatWindow: React.FC = () => {
         className="hidden"
       />
 
+      <input
+        type="file"
+        ref={documentInputRef}
+        onChange={handleFileSelect}
+        accept="application/pdf"
+        className="hidden"
+      />
+
       {/* Fixed Message Input */}
       <div className="sticky bottom-0 z-50 bg-white border-t border-gray-200 shadow-lg">
-        <form onSubmit={handleSendMessage} className="p-3">
-          <div className="flex items-center gap-2">
+        {editingMessage && (
+          <div className="flex items-center gap-2 px-4 pt-3">
+            <Pencil className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-blue-600">Editing message</p>
+              <p className="text-sm text-gray-600 truncate">{editingMessage.content}</p>
+            </div>
             <button
               type="button"
-              onClick={() => setShowMediaOptions(true)}
-              disabled={uploading}
-              className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-xl transition-colors disabled:opacity-50"
+              onClick={handleCancelEdit}
+              className="p-1 hover:bg-gray-100 rounded-lg"
+              aria-label="Cancel editing"
             >
-              {uploading ? (
-                <div className="w-5 h-5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin"></div>
-              ) : (
-                <Paperclip className="w-5 h-5" />
-              )}
+              <X className="w-4 h-4 text-gray-500" />
             </button>
-            
-            <div className="flex-1">
-              <input
-                type="text"
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                placeholder="Type a message..."
-                className="w-full p-3 px-4 bg-gray-100 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleSendMessage(e);
-                  }
-                }}
-                disabled={sending || uploading}
-              />
+          </div>
+        )}
+        {replyingTo && !editingMessage && (
+          <div className="flex items-center gap-2 px-4 pt-3">
+            <Reply className="w-4 h-4 text-blue-600 flex-shrink-0" />
+            <div className="flex-1 min-w-0 border-l-4 border-blue-500 pl-2">
+              <p className="text-xs font-medium text-blue-600">
+                Replying to {replyingTo.sender_id === currentUserId ? 'yourself' : replyingTo.sender_name}
+              </p>
+              <p className="text-sm text-gray-600 truncate">{describeReply(toReplyPreview(replyingTo))}</p>
             </div>
-            
-            {newMessage.trim() ? (
-              <button
-                type="submit"
-                disabled={sending || uploading}
-                className="p-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-xl hover:shadow-lg transition-all disabled:opacity-50 min-w-[44px] flex items-center justify-center"
-              >
-                {sending ? (
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                ) : (
-                  <Send className="w-5 h-5" />
-                )}
-              </button>
+            <button
+              type="button"
+              onClick={() => setReplyingTo(null)}
+              className="p-1 hover:bg-gray-100 rounded-lg"
+              aria-label="Cancel reply"
+            >
+              <X className="w-4 h-4 text-gray-500" />
+            </button>
+          </div>
+        )}
+        {blockStatus !== 'none' ? (
+          <div className="p-4 flex items-center justify-center gap-3 text-sm text-gray-600">
+            <Ban className="w-4 h-4 text-gray-400" />
+            {blockStatus === 'blocked_by_me' ? (
+              <>
+                <span>You blocked this user.</span>
+                <button
+                  onClick={handleToggleBlock}
+                  className="font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Unblock
+                </button>
+              </>
             ) : (
+              <span>You can no longer message this user.</span>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSendMessage} className="p-3">
+            <div className="flex items-center gap-2">
               <button
                 type="button"
-                className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-xl transition-colors"
+                onClick={() => setShowMediaOptions(true)}
+                disabled={uploading}
+                className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-xl transition-colors disabled:opacity-50"
               >
-                
+                {uploading ? (
+                  <div className="w-5 h-5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <Paperclip className="w-5 h-5" />
+                )}
               </button>
-            )}
-          </div>
-        </form>
+              
+              <div className="flex-1">
+                <input
+                  type="text"
+                  value={newMessage}
+                  onChange={(e) => {
+                    setNewMessage(e.target.value);
+                    if (!conversationId || editingMessage) return;
+                    if (e.target.value.trim()) {
+                      sendTyping(conversationId);
+                    } else {
+                      stopTyping();
+                    }
+                  }}
+                  placeholder="Type a message..."
+                  className="w-full p-3 px-4 bg-gray-100 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSendMessage(e);
+                    }
+                  }}
+                  disabled={sending || uploading}
+                />
+              </div>
+              
+              {newMessage.trim() ? (
+                <button
+                  type="submit"
+                  disabled={sending || uploading}
+                  className="p-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white rounded-xl hover:shadow-lg transition-all disabled:opacity-50 min-w-[44px] flex items-center justify-center"
+                >
+                  {sending ? (
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  ) : (
+                    <Send className="w-5 h-5" />
+                  )}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className="p-3 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-xl transition-colors"
+                >
+                  
+                </button>
+              )}
+            </div>
+          </form>
+        )}
       </div>
+
+      {/* Report user */}
+      {reportTarget && conversationId && (
+        <ReportUserModal
+          userId={reportTarget.userId}
+          userName={reportTarget.userName}
+          context={{ source: 'chat', conversation_id: conversationId, message_id: reportTarget.messageId }}
+          onClose={() => setReportTarget(null)}
+          onReported={(alsoBlocked) => {
+            if (alsoBlocked && reportTarget.userId === otherUser.id) {
+              setBlockStatus('blocked_by_me');
+            }
+            alert('Report submitted. Thank you for keeping the community safe.');
+          }}
+        />
+      )}
     </div>
   );
 };
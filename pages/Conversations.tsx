@@ -4,13 +4,15 @@ import {
   Search, MessageCircle, Check, CheckCheck, 
   Store, Users, Plus,
   ShoppingBag, RefreshCw, Bell,
-  User, Clock, AlertCircle
+  User, Clock, AlertCircle, UsersRound,
+  MoreVertical, Pin, PinOff, Archive, ArchiveRestore, BellOff, ArrowLeft
 } from 'lucide-react';
 import { messagingService } from '../services/supabase/messaging';
-import { Conversation, ConversationContext } from '../types/messaging';
+import { Conversation, ConversationContext, MessageSearchResult } from '../types/messaging';
 import { formatTimeAgo } from '../utils/formatters';
 import { supabase } from '../services/supabase';
 import VerifiedBadge from '../components/VerifiedBadge';
+import { usePresence, useTyping } from '../hooks/useMessaging';
 
 // Cache keys
 const CACHE_KEYS = {
@@ -20,6 +22,9 @@ const CACHE_KEYS = {
   USER_STATUS_TS: 'user_status_timestamp'
 };
 
+// Typing indicators are shown for this many of the most recent chats
+const TYPING_WATCH_LIMIT = 20;
+
 // Extend Conversation type locally to include other_user_status
 interface ConversationWithUserStatus extends Conversation {
   other_user_status?: 'verified' | 'member';
@@ -37,12 +42,17 @@ const ConversationsList: React.FC = () => {
   const [initialLoading, setInitialLoading] = useState(true);
   const [backgroundLoading, setBackgroundLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'all' | 'friends' | 'marketplace'>('all');
+  const [activeTab, setActiveTab] = useState<'all' | 'friends' | 'groups' | 'marketplace'>('all');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [realtimeStatus, setRealtimeStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
   const [newMessageIndicator, setNewMessageIndicator] = useState<string | null>(null);
   const [userStatus, setUserStatus] = useState<'verified' | 'member' | null>(null);
   const [isCheckingStatus, setIsCheckingStatus] = useState(true);
+  const [searchMode, setSearchMode] = useState<'chats' | 'messages'>('chats');
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [searchingMessages, setSearchingMessages] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [actionConversation, setActionConversation] = useState<ConversationWithUserStatus | null>(null);
   
   // Refs for state management
   const conversationsRef = useRef<ConversationWithUserStatus[]>([]);
@@ -89,6 +99,12 @@ const ConversationsList: React.FC = () => {
     const enhancedConversations: ConversationWithUserStatus[] = [];
     
     for (const conv of conversations) {
+      // Groups have no single other user
+      if (conv.context === 'group') {
+        enhancedConversations.push(conv);
+        continue;
+      }
+      
       const userStatus = await getOtherUserStatus(conv.other_user_id);
       enhancedConversations.push({
         ...conv,
@@ -196,6 +212,22 @@ const ConversationsList: React.FC = () => {
     };
   }, []);
 
+  /**
+   * Subscribe to online / typing status of the people in the list
+   */
+  const otherUserIds = useMemo(
+    () => conversations.filter(conv => conv.context !== 'group').map(conv => conv.other_user_id),
+    [conversations]
+  );
+  const presence = usePresence(otherUserIds);
+
+  // One typing channel per conversation, so only the most recent ones are watched
+  const typingConversationIds = useMemo(
+    () => conversations.slice(0, TYPING_WATCH_LIMIT).map(conv => conv.conversation_id),
+    [conversations]
+  );
+  const { typing: typingIn } = useTyping(typingConversationIds);
+
   /**
    * Filter conversations
    */
@@ -204,11 +236,13 @@ const ConversationsList: React.FC = () => {
       // Filter by active tab
       const matchesTab = activeTab === 'all' || 
         (activeTab === 'friends' && conv.context === 'connection') ||
+        (activeTab === 'groups' && conv.context === 'group') ||
         (activeTab === 'marketplace' && conv.context === 'marketplace');
       
       // Filter by search query
       const matchesSearch = searchQuery === '' ||
         conv.other_user_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        conv.group_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         conv.listing_title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         conv.last_message?.toLowerCase().includes(searchQuery.toLowerCase());
       
@@ -222,11 +256,131 @@ const ConversationsList: React.FC = () => {
         return false;
       }
       
-      return matchesTab && matchesSearch;
+      // Archived conversations only show in the Archived view
+      const matchesArchive = showArchived ? !!conv.is_archived : !conv.is_archived;
+      
+      return matchesTab && matchesSearch && matchesArchive;
     });
     
     setFilteredConversations(filtered);
-  }, [conversations, searchQuery, activeTab, userStatus]);
+  }, [conversations, searchQuery, activeTab, userStatus, showArchived]);
+
+  const archivedCount = useMemo(
+    () => conversations.filter(conv => conv.is_archived).length,
+    [conversations]
+  );
+
+  /**
+   * Pin, archive or mute a conversation from the actions sheet
+   */
+  const handleConversationAction = async (
+    conversation: ConversationWithUserStatus,
+    action: 'pin' | 'archive' | 'mute'
+  ) => {
+    setActionConversation(null);
+    
+    const changes: Partial<Conversation> = action === 'pin'
+      ? { is_pinned: !conversation.is_pinned, ...(!conversation.is_pinned ? { is_archived: false } : {}) }
+      : action === 'archive'
+        ? { is_archived: !conversation.is_archived, ...(!conversation.is_archived ? { is_pinned: false } : {}) }
+        : { is_muted: !conversation.is_muted };
+    
+    try {
+      if (action === 'pin') {
+        await messagingService.setConversationPinned(conversation.conversation_id, !conversation.is_pinned);
+      } else if (action === 'archive') {
+        await messagingService.setConversationArchived(conversation.conversation_id, !conversation.is_archived);
+      } else {
+        await messagingService.setConversationMuted(conversation.conversation_id, !conversation.is_muted);
+      }
+      
+      setConversations(prev => {
+        const updated = prev
+          .map(conv => conv.conversation_id === conversation.conversation_id ? { ...conv, ...changes } : conv)
+          .sort((a, b) => {
+            if (!!a.is_pinned !== !!b.is_pinned) return a.is_pinned ? -1 : 1;
+            return new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime();
+          });
+        conversationsRef.current = updated;
+        saveToCache(updated);
+        return updated;
+      });
+      
+      if (action === 'mute') {
+        setUnreadCounts(await messagingService.getUnreadCounts());
+      }
+    } catch (error: any) {
+      console.error('Error updating conversation:', error);
+      alert(error?.message || 'Failed to update conversation. Please try again.');
+    }
+  };
+
+  /**
+   * Search message history (debounced) while in messages search mode
+   */
+  useEffect(() => {
+    if (searchMode !== 'messages' || searchQuery.trim().length < 2) {
+      setMessageResults([]);
+      setSearchingMessages(false);
+      return;
+    }
+
+    let active = true;
+    setSearchingMessages(true);
+
+    const context: ConversationContext | undefined = userStatus === 'member' || activeTab === 'marketplace'
+      ? 'marketplace'
+      : activeTab === 'friends'
+        ? 'connection'
+        : activeTab === 'groups'
+          ? 'group'
+          : undefined;
+
+    const timer = setTimeout(async () => {
+      const results = await messagingService.searchMessages(searchQuery, context);
+      if (active) {
+        setMessageResults(results);
+        setSearchingMessages(false);
+      }
+    }, 300);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [searchMode, searchQuery, activeTab, userStatus]);
+
+  /**
+   * Open the conversation of a search hit, scrolled to the message
+   */
+  const handleOpenSearchResult = (result: MessageSearchResult) => {
+    const conversation = conversations.find(conv => conv.conversation_id === result.conversation_id);
+
+    navigate(`/messages/${result.conversation_id}`, {
+      state: result.context === 'group' ? {
+        context: 'group',
+        group: {
+          id: result.conversation_id,
+          name: result.conversation_name,
+          avatar: result.conversation_avatar
+        },
+        focusMessageId: result.message_id
+      } : {
+        otherUser: {
+          id: result.other_user_id,
+          name: result.conversation_name,
+          avatar: result.conversation_avatar,
+          status: conversation?.other_user_status
+        },
+        context: result.context,
+        listing: result.listing_id ? {
+          id: result.listing_id,
+          title: result.listing_title
+        } : null,
+        focusMessageId: result.message_id
+      }
+    });
+  };
 
   /**
    * Load conversations from server - WITH DEBUG LOGS
@@ -257,6 +411,8 @@ const ConversationsList: React.FC = () => {
       } else if (activeTab === 'friends') {
         context = 'connection';
         console.log('🔍 DEBUG: Friends tab active, context: connection');
+      } else if (activeTab === 'groups') {
+        context = 'group';
       } else {
         console.log('🔍 DEBUG: All tab active, context: undefined (get all)');
       }
@@ -285,8 +441,8 @@ const ConversationsList: React.FC = () => {
 
       if (isMounted.current) {
         // Check for new unread messages
-        const oldUnreadTotal = conversationsRef.current.reduce((sum, conv) => sum + conv.unread_count, 0);
-        const newUnreadTotal = enhancedData.reduce((sum, conv) => sum + conv.unread_count, 0);
+        const oldUnreadTotal = conversationsRef.current.reduce((sum, conv) => sum + (conv.is_muted ? 0 : conv.unread_count), 0);
+        const newUnreadTotal = enhancedData.reduce((sum, conv) => sum + (conv.is_muted ? 0 : conv.unread_count), 0);
         
         // Show notification indicator for new messages
         if (newUnreadTotal > oldUnreadTotal) {
@@ -401,7 +557,7 @@ const ConversationsList: React.FC = () => {
       messagingService.clearAllCache();
       
       // Also clear local cache
-      const contexts = ['all', 'marketplace', 'connection'];
+      const contexts = ['all', 'marketplace', 'connection', 'group'];
       contexts.forEach(context => {
         localStorage.removeItem(CACHE_KEYS.CONVERSATIONS(context));
         localStorage.removeItem(CACHE_KEYS.CONVERSATIONS_TS(context));
@@ -419,7 +575,7 @@ const ConversationsList: React.FC = () => {
   /**
    * Calculate unread counts - USING NEW MESSAGING SERVICE
    */
-  const [unreadCounts, setUnreadCounts] = useState({ total: 0, marketplace: 0, connection: 0 });
+  const [unreadCounts, setUnreadCounts] = useState({ total: 0, marketplace: 0, connection: 0, group: 0 });
 
   useEffect(() => {
     const loadUnreadCounts = async () => {
@@ -443,6 +599,7 @@ const ConversationsList: React.FC = () => {
   const totalUnread = useMemo(() => unreadCounts.total, [unreadCounts]);
   const friendsUnread = useMemo(() => unreadCounts.connection, [unreadCounts]);
   const marketplaceUnread = useMemo(() => unreadCounts.marketplace, [unreadCounts]);
+  const groupsUnread = useMemo(() => unreadCounts.group, [unreadCounts]);
 
   /**
    * Navigate to new conversation
@@ -633,6 +790,25 @@ const ConversationsList: React.FC = () => {
             </button>
           )}
           
+          {userStatus === 'verified' && (
+            <button
+              onClick={() => setActiveTab('groups')}
+              className={`flex items-center gap-2 py-3 border-b-2 transition-all whitespace-nowrap ${
+                activeTab === 'groups'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-blue-500'
+              }`}
+            >
+              <UsersRound className="w-4 h-4" />
+              <span className="font-medium">Groups</span>
+              {groupsUnread > 0 && (
+                <span className="bg-red-100 text-red-600 text-xs font-medium px-1.5 py-0.5 rounded-full">
+                  {groupsUnread}
+                </span>
+              )}
+            </button>
+          )}
+          
           <button
             onClick={() => setActiveTab('marketplace')}
             className={`flex items-center gap-2 py-3 border-b-2 transition-all whitespace-nowrap ${
@@ -652,11 +828,125 @@ const ConversationsList: React.FC = () => {
         </div>
       </div>
 
+      {/* Search mode: conversation names or message history */}
+      {searchQuery && (
+        <div className="flex gap-2 px-4 pt-3">
+          {(['chats', 'messages'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setSearchMode(mode)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-all ${
+                searchMode === mode
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-600 border-blue-200 hover:bg-blue-50'
+              }`}
+            >
+              {mode === 'chats' ? 'Chats' : 'Messages'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Conversations List or Restriction Message */}
       {userStatus === 'member' && activeTab === 'friends' ? (
         renderRestrictionMessage()
+      ) : searchQuery && searchMode === 'messages' ? (
+        <div className="p-3">
+          {searchingMessages ? (
+            <div className="flex justify-center py-12">
+              <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : messageResults.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <div className="w-20 h-20 bg-gradient-to-br from-blue-50 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4 border border-blue-200">
+                <Search className="w-8 h-8 text-blue-400" />
+              </div>
+              <h3 className="text-lg font-bold text-gray-900 mb-2">
+                {searchQuery.trim().length < 2 ? 'Keep typing…' : 'No messages found'}
+              </h3>
+              <p className="text-gray-600">
+                {searchQuery.trim().length < 2
+                  ? 'Enter at least 2 characters to search your messages'
+                  : 'Try a different word or phrase'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {messageResults.map(result => (
+                <button
+                  key={result.message_id}
+                  onClick={() => handleOpenSearchResult(result)}
+                  className="block w-full text-left bg-white rounded-2xl p-4 hover:shadow-lg transition-all duration-200 border border-blue-100 active:scale-[0.99]"
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="w-10 h-10 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-blue-600 border border-blue-300 flex-shrink-0">
+                      {result.conversation_avatar ? (
+                        <img
+                          src={result.conversation_avatar}
+                          alt={result.conversation_name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          {result.context === 'group' ? (
+                            <UsersRound className="w-5 h-5 text-white" />
+                          ) : (
+                            <User className="w-5 h-5 text-white" />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <h3 className="font-bold text-gray-900 truncate text-sm">
+                          {result.conversation_name}
+                        </h3>
+                        <span className="text-xs text-gray-500 flex-shrink-0">
+                          {formatTimeAgo(result.created_at)}
+                        </span>
+                      </div>
+                      {result.listing_title && (
+                        <p className="text-xs text-gray-500 truncate">{result.listing_title}</p>
+                      )}
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                        <span className="font-medium text-gray-800">{result.sender_name}: </span>
+                        {result.snippet.map((part, index) => part.highlighted ? (
+                          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        ))}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
       ) : (
         <div className="p-3">
+          {/* Archived view header / entry */}
+          {showArchived ? (
+            <button
+              onClick={() => setShowArchived(false)}
+              className="flex items-center gap-2 mb-3 px-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Archived
+            </button>
+          ) : archivedCount > 0 && !searchQuery && (
+            <button
+              onClick={() => setShowArchived(true)}
+              className="w-full flex items-center gap-3 mb-3 px-4 py-3 bg-white rounded-2xl border border-blue-100 hover:bg-blue-50 transition-colors"
+            >
+              <Archive className="w-5 h-5 text-gray-500" />
+              <span className="flex-1 text-left font-medium text-gray-900">Archived</span>
+              <span className="text-sm text-gray-500">{archivedCount}</span>
+            </button>
+          )}
+          
           {filteredConversations.length === 0 ? (
             <div className="text-center py-12 px-4">
               <div className="w-20 h-20 bg-gradient-to-br from-blue-50 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4 border border-blue-200">
@@ -669,16 +959,20 @@ const ConversationsList: React.FC = () => {
                 )}
               </div>
               <h3 className="text-lg font-bold text-gray-900 mb-2">
-                {searchQuery ? 'No matches found' : 'No conversations yet'}
+                {searchQuery ? 'No matches found' : showArchived ? 'No archived chats' : 'No conversations yet'}
               </h3>
               <p className="text-gray-600 mb-6">
                 {searchQuery 
                   ? 'Try a different search term'
-                  : activeTab === 'marketplace'
+                  : showArchived
+                    ? 'Archived conversations will appear here'
+                    : activeTab === 'marketplace'
                     ? 'Start a conversation about a product'
-                    : 'Connect with verified members to start chatting'}
+                    : activeTab === 'groups'
+                      ? 'Create a group for your committee or association'
+                      : 'Connect with verified members to start chatting'}
               </p>
-              {!searchQuery && (
+              {!searchQuery && !showArchived && (
                 <button
                   onClick={handleStartNewConversation}
                   className="inline-flex items-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-medium px-4 py-2.5 rounded-xl shadow-lg hover:shadow-xl transition-all border border-blue-500"
@@ -694,7 +988,14 @@ const ConversationsList: React.FC = () => {
                 <Link
                   key={conversation.conversation_id}
                   to={`/messages/${conversation.conversation_id}`}
-                  state={{ 
+                  state={conversation.context === 'group' ? {
+                    context: 'group',
+                    group: {
+                      id: conversation.conversation_id,
+                      name: conversation.group_name,
+                      avatar: conversation.group_avatar
+                    }
+                  } : { 
                     otherUser: {
                       id: conversation.other_user_id,
                       name: conversation.other_user_name,
@@ -713,7 +1014,19 @@ const ConversationsList: React.FC = () => {
                     {/* User Avatar */}
                     <div className="relative flex-shrink-0">
                       <div className="w-14 h-14 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-blue-600 border border-blue-300">
-                        {conversation.other_user_avatar ? (
+                        {conversation.context === 'group' ? (
+                          conversation.group_avatar ? (
+                            <img
+                              src={conversation.group_avatar}
+                              alt={conversation.group_name}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center">
+                              <UsersRound className="w-6 h-6 text-white" />
+                            </div>
+                          )
+                        ) : conversation.other_user_avatar ? (
                           <img
                             src={conversation.other_user_avatar}
                             alt={conversation.other_user_name}
@@ -738,6 +1051,14 @@ const ConversationsList: React.FC = () => {
                         )}
                       </div>
                       
+                      {/* Online Indicator */}
+                      {presence[conversation.other_user_id]?.is_online && (
+                        <span
+                          className="absolute -bottom-1 -left-1 w-3.5 h-3.5 bg-green-500 border-2 border-white rounded-full"
+                          title="Online"
+                        />
+                      )}
+                      
                       {/* Verification Badge */}
                       {conversation.other_user_status === 'verified' && (
                         <div className="absolute -bottom-1 -right-1">
@@ -747,7 +1068,9 @@ const ConversationsList: React.FC = () => {
                       
                       {/* Unread Message Indicator */}
                       {conversation.unread_count > 0 && (
-                        <span className="absolute -top-1 -right-1 bg-gradient-to-r from-red-500 to-red-600 text-white text-xs font-bold w-5 h-5 rounded-full flex items-center justify-center shadow-sm">
+                        <span className={`absolute -top-1 -right-1 text-white text-xs font-bold w-5 h-5 rounded-full flex items-center justify-center shadow-sm ${
+                          conversation.is_muted ? 'bg-gray-400' : 'bg-gradient-to-r from-red-500 to-red-600'
+                        }`}>
                           {conversation.unread_count > 9 ? '9+' : conversation.unread_count}
                         </span>
                       )}
@@ -758,15 +1081,21 @@ const ConversationsList: React.FC = () => {
                       {/* First Row: Name and Context */}
                       <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between mb-2 gap-1">
                         <div className="flex items-center gap-2">
-                          <h3 
-                            onClick={(e) => handleUserProfileClick(e, conversation.other_user_id)}
-                            className="font-bold text-gray-900 truncate hover:text-blue-600 transition-colors cursor-pointer text-base flex items-center gap-1"
-                          >
-                            {conversation.other_user_name}
-                            {conversation.other_user_status === 'verified' && (
-                              <VerifiedBadge size={12} />
-                            )}
-                          </h3>
+                          {conversation.context === 'group' ? (
+                            <h3 className="font-bold text-gray-900 truncate text-base">
+                              {conversation.group_name}
+                            </h3>
+                          ) : (
+                            <h3 
+                              onClick={(e) => handleUserProfileClick(e, conversation.other_user_id)}
+                              className="font-bold text-gray-900 truncate hover:text-blue-600 transition-colors cursor-pointer text-base flex items-center gap-1"
+                            >
+                              {conversation.other_user_name}
+                              {conversation.other_user_status === 'verified' && (
+                                <VerifiedBadge size={12} />
+                              )}
+                            </h3>
+                          )}
                           
                           {/* Context Badge */}
                           {conversation.context === 'marketplace' && (
@@ -775,7 +1104,32 @@ const ConversationsList: React.FC = () => {
                               <span>Customer</span>
                             </span>
                           )}
+                          {conversation.context === 'group' && (
+                            <span className="inline-flex items-center gap-1 bg-gradient-to-r from-purple-50 to-purple-100 text-purple-700 text-xs font-small px-2 py-0.5 rounded-full border border-purple-200">
+                              <UsersRound className="w-3 h-3" />
+                              <span>{conversation.member_count ? `${conversation.member_count} members` : 'Group'}</span>
+                            </span>
+                          )}
+                          
+                          {conversation.is_pinned && (
+                            <Pin className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" aria-label="Pinned" />
+                          )}
+                          {conversation.is_muted && (
+                            <BellOff className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" aria-label="Muted" />
+                          )}
                         </div>
+                        
+                        <button
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setActionConversation(conversation);
+                          }}
+                          className="self-end sm:self-start p-1 -mr-1 text-gray-400 hover:text-gray-600 rounded-lg"
+                          aria-label="Conversation options"
+                        >
+                          <MoreVertical className="w-4 h-4" />
+                        </button>
                       </div>
 
                       {/* Second Row: Product Title */}
@@ -789,9 +1143,15 @@ const ConversationsList: React.FC = () => {
 
                       {/* Third Row: Last Message and Status */}
                       <div className="flex items-center justify-between gap-2 mt-2">
-                        <p className="text-sm text-gray-600 truncate flex-1">
-                          {conversation.last_message || 'Start a conversation...'}
-                        </p>
+                        {typingIn[conversation.conversation_id]?.length ? (
+                          <p className="text-sm text-blue-600 font-medium truncate flex-1">
+                            typing…
+                          </p>
+                        ) : (
+                          <p className="text-sm text-gray-600 truncate flex-1">
+                            {conversation.last_message || 'Start a conversation...'}
+                          </p>
+                        )}
                         
                         {/* Read Status Indicators */}
                         <div className="flex items-center gap-1 flex-shrink-0">
@@ -812,7 +1172,7 @@ const ConversationsList: React.FC = () => {
                         
                         {/* Unread count badge */}
                         {conversation.unread_count > 0 && (
-                          <span className="text-xs font-medium text-blue-600">
+                          <span className={`text-xs font-medium ${conversation.is_muted ? 'text-gray-500' : 'text-blue-600'}`}>
                             {conversation.unread_count} new
                           </span>
                         )}
@@ -826,6 +1186,50 @@ const ConversationsList: React.FC = () => {
         </div>
       )}
 
+      {/* Conversation actions sheet */}
+      {actionConversation && (
+        <div
+          className="fixed inset-0 bg-black/50 z-60 flex items-end md:items-center justify-center p-4"
+          onClick={() => setActionConversation(null)}
+        >
+          <div
+            className="bg-white w-full max-w-sm rounded-2xl shadow-2xl border border-gray-200 mb-16 md:mb-0 overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <p className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-100 truncate">
+              {actionConversation.context === 'group' ? actionConversation.group_name : actionConversation.other_user_name}
+            </p>
+            <button
+              onClick={() => handleConversationAction(actionConversation, 'pin')}
+              className="w-full flex items-center gap-3 px-4 py-3 text-gray-800 hover:bg-gray-50"
+            >
+              {actionConversation.is_pinned ? <PinOff className="w-5 h-5" /> : <Pin className="w-5 h-5" />}
+              {actionConversation.is_pinned ? 'Unpin' : 'Pin to top'}
+            </button>
+            <button
+              onClick={() => handleConversationAction(actionConversation, 'mute')}
+              className="w-full flex items-center gap-3 px-4 py-3 text-gray-800 hover:bg-gray-50"
+            >
+              {actionConversation.is_muted ? <Bell className="w-5 h-5" /> : <BellOff className="w-5 h-5" />}
+              {actionConversation.is_muted ? 'Unmute' : 'Mute notifications'}
+            </button>
+            <button
+              onClick={() => handleConversationAction(actionConversation, 'archive')}
+              className="w-full flex items-center gap-3 px-4 py-3 text-gray-800 hover:bg-gray-50"
+            >
+              {actionConversation.is_archived ? <ArchiveRestore className="w-5 h-5" /> : <Archive className="w-5 h-5" />}
+              {actionConversation.is_archived ? 'Unarchive' : 'Archive'}
+            </button>
+            <button
+              onClick={() => setActionConversation(null)}
+              className="w-full px-4 py-3 text-gray-500 border-t border-gray-100 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Background Loading Indicator */}
       {backgroundLoading && (
         <div className="fixed bottom-24 right-4 z-30">
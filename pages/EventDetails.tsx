@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Calendar, MapPin, Clock, Users, Share2, User, Globe, Info } from 'lucide-react';
+import { ArrowLeft, Calendar, MapPin, Clock, Users, Share2, Send, User, Globe, Info } from 'lucide-react';
 import { Event } from '../types';
 import { supabase } from '../services/supabase';
+import ShareToChatModal from '../components/messaging/ShareToChatModal';
+import { eventShareCard } from '../utils/shareCards';
 
 const EventDetails = () => {
     const { id } = useParams();
@@ -10,6 +12,7 @@ const EventDetails = () => {
     const [event, setEvent] = useState<Event | null>(null);
     const [loading, setLoading] = useState(true);
     const [organizer, setOrganizer] = useState<any>(null);
+    const [showShareToChat, setShowShareToChat] = useState(false);
 
     useEffect(() => {
         const fetchEvent = async () => {
@@ -375,10 +378,24 @@ const EventDetails = () => {
                             >
                                 Share Event
                             </button>
+                            <button 
+                                onClick={() => setShowShareToChat(true)}
+                                className="w-full max-w-xs mt-2 flex items-center justify-center gap-2 bg-white border border-blue-200 text-blue-700 font-bold py-3 rounded-xl hover:bg-blue-50 active:scale-[0.98] transition-all"
+                            >
+                                <Send size={18} />
+                                Send in Chat
+                            </button>
                         </div>
                     </div>
                 </div>
             </main>
+
+            {showShareToChat && (
+                <ShareToChatModal
+                    card={eventShareCard({ ...event, event_date: event.start_time })}
+                    onClose={() => setShowShareToChat(false)}
+                />
+            )}
         </div>
     );
 };
@@ -1,11 +1,20 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Heart, Share2, MapPin, Eye, MessageCircle, Shield, User, Star, Clock, CheckCircle } from 'lucide-react';
+import { ArrowLeft, Heart, Share2, Send, MapPin, Eye, MessageCircle, Shield, User, Star, Clock, CheckCircle, Tag, Bell, BellOff, TrendingDown, RefreshCw, Lock } from 'lucide-react';
 import { useMarketplace } from '../hooks/useMarketplace';
-import { MarketplaceListing } from '../types/marketplace';
+import { MarketplaceListing, ListingPricePoint } from '../types/marketplace';
 import { formatTimeAgo } from '../utils/formatters';
+import { formatNaira, formatUsdReference } from '../utils/money';
 import { useAuth } from '../contexts/AuthContext';
 import { messagingService } from '../services/supabase/messaging';
+import ShareToChatModal from '../components/messaging/ShareToChatModal';
+import { listingShareCard } from '../utils/shareCards';
+import { marketplaceService } from '../services/supabase/marketplace';
+import MakeOfferModal from '../components/marketplace/MakeOfferModal';
+import ListingOffersPanel from '../components/marketplace/ListingOffersPanel';
+import PriceSparkline from '../components/marketplace/PriceSparkline';
+import SellerReputationCard from '../components/marketplace/SellerReputationCard';
+import { getCategoryAttributes, formatAttributeValue } from '../utils/listingAttributes';
 
 /**
  * ListingDetails Component with caching and optimized for all user types
@@ -21,6 +30,12 @@ const ListingDetails: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState(0);
   const [sending, setSending] = useState(false);
   const [favoriteLoading, setFavoriteLoading] = useState(false);
+  const [showShareToChat, setShowShareToChat] = useState(false);
+  const [showMakeOffer, setShowMakeOffer] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'offers'>('details');
+  const [priceHistory, setPriceHistory] = useState<ListingPricePoint[]>([]);
+  const [alertsLoading, setAlertsLoading] = useState(false);
+  const [statusLoading, setStatusLoading] = useState(false);
   
   // Cache for this component
   const componentCacheRef = useRef<Map<string, { data: MarketplaceListing, timestamp: number }>>(new Map());
@@ -86,6 +101,12 @@ const ListingDetails: React.FC = () => {
     }
   }, [id, loadListing]);
 
+  useEffect(() => {
+    if (id) {
+      marketplaceService.getPriceHistory(id).then(setPriceHistory);
+    }
+  }, [id]);
+
   // Refresh listing when returning to page
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -227,6 +248,105 @@ const ListingDetails: React.FC = () => {
   }
 };
 
+  const handleOpenMakeOffer = () => {
+    if (!user) {
+      alert('Please sign in to make an offer');
+      navigate('/login');
+      return;
+    }
+
+    setShowMakeOffer(true);
+  };
+
+  const handleMakeOffer = async (amount: number, message: string) => {
+    if (!listing) return;
+
+    const { conversationId } = await marketplaceService.makeOffer(listing, amount, message);
+
+    navigate(`/messages/${conversationId}`, {
+      state: {
+        otherUser: {
+          id: listing.seller_id,
+          name: listing.seller_name,
+          status: listing.seller_verified ? 'verified' : 'member'
+        },
+        context: 'marketplace',
+        listing: {
+          id: listing.id,
+          title: listing.title,
+          price: listing.price
+        }
+      }
+    });
+  };
+
+  const handleListingChange = (updates: Partial<MarketplaceListing>) => {
+    setListing(prev => prev ? { ...prev, ...updates } : prev);
+    componentCacheRef.current.delete(id!);
+  };
+
+  const handleToggleAlerts = async () => {
+    if (!listing) return;
+
+    const enabled = !(listing.alerts_enabled ?? true);
+
+    try {
+      setAlertsLoading(true);
+      await marketplaceService.setListingAlerts(listing.id, enabled);
+      handleListingChange({ alerts_enabled: enabled });
+    } catch (error: any) {
+      alert(error?.message || 'Failed to update alerts. Please try again.');
+    } finally {
+      setAlertsLoading(false);
+    }
+  };
+
+  const handleToggleSold = async () => {
+    if (!listing) return;
+
+    try {
+      setStatusLoading(true);
+      if (listing.is_sold) {
+        await marketplaceService.markAsAvailable(listing.id);
+      } else {
+        await marketplaceService.markAsSold(listing.id);
+      }
+      handleListingChange({ is_sold: !listing.is_sold });
+    } catch (error: any) {
+      alert(error?.message || 'Failed to update listing. Please try again.');
+    } finally {
+      setStatusLoading(false);
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!listing) return;
+
+    try {
+      setStatusLoading(true);
+      const expiresAt = await marketplaceService.renewListing(listing.id);
+      handleListingChange({ expires_at: expiresAt });
+    } catch (error: any) {
+      alert(error?.message || 'Failed to renew listing. Please try again.');
+    } finally {
+      setStatusLoading(false);
+    }
+  };
+
+  const handleToggleReserved = async () => {
+    if (!listing) return;
+
+    try {
+      setStatusLoading(true);
+      await marketplaceService.setReserved(listing.id, !listing.is_reserved);
+      handleListingChange({ is_reserved: !listing.is_reserved, reserved_for: null });
+    } catch (error: any) {
+      alert(error?.message || 'Failed to update listing. Please try again.');
+    } finally {
+      setStatusLoading(false);
+    }
+  };
+
   const handlePreviousImage = () => {
     if (listing && listing.images.length > 0) {
       setSelectedImage(prev => 
@@ -247,7 +367,7 @@ const ListingDetails: React.FC = () => {
     try {
       const shareData = {
         title: listing?.title || 'Marketplace Listing',
-        text: `Check out "${listing?.title}" for ₦${listing?.price?.toLocaleString()} on GKBC Marketplace`,
+        text: `Check out "${listing?.title}" for ${formatNaira(listing?.price)} on GKBC Marketplace`,
         url: window.location.href,
       };
 
@@ -276,6 +396,10 @@ const ListingDetails: React.FC = () => {
   };
 
   const isOwner = listing?.seller_id === user?.id;
+  const listingStatus = listing ? marketplaceService.getListingStatus(listing) : 'active';
+  const attributeRows = listing
+    ? getCategoryAttributes(listing.category).filter(field => listing.attributes?.[field.key] != null)
+    : [];
   const currentUserVerified = userProfile?.user_status === 'verified';
 
   if (loading) {
@@ -373,6 +497,16 @@ const ListingDetails: React.FC = () => {
               <Share2 size={18} className="text-blue-600" />
             </button>
             
+            {user && (
+              <button 
+                onClick={() => setShowShareToChat(true)}
+                className="w-10 h-10 flex items-center justify-center bg-white border border-blue-200 rounded-xl hover:bg-blue-50 active:scale-95 transition-all min-h-[44px] min-w-[44px] shadow-sm"
+                aria-label="Send listing in chat"
+              >
+                <Send size={18} className="text-blue-600" />
+              </button>
+            )}
+            
             {!isOwner && user && (
               <button 
                 onClick={handleFavorite}
@@ -483,13 +617,14 @@ const ListingDetails: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900 pr-2 leading-tight">{listing.title}</h1>
           <div className="flex flex-col items-end">
             <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
-              ₦{listing.price.toLocaleString()}
+              {formatNaira(listing.price)}
             </span>
             {listing.original_price && listing.original_price > listing.price && (
               <span className="text-sm text-gray-500 line-through">
-                ₦{listing.original_price.toLocaleString()}
+                {formatNaira(listing.original_price)}
               </span>
             )}
+            <span className="text-xs text-gray-500">{formatUsdReference(listing.price)}</span>
           </div>
         </div>
 
@@ -513,6 +648,87 @@ const ListingDetails: React.FC = () => {
           </div>
         </div>
 
+        {/* Price History */}
+        {priceHistory.length >= 2 && (
+          <div className="flex items-center justify-between gap-3 p-3 mb-4 bg-white border border-blue-200 rounded-xl">
+            <div>
+              <p className="text-xs font-medium text-gray-500 flex items-center gap-1">
+                <TrendingDown size={12} />
+                Price history
+              </p>
+              <p className="text-sm text-gray-700">
+                Lowest {formatNaira(Math.min(...priceHistory.map(point => point.price)))}
+              </p>
+            </div>
+            <PriceSparkline points={priceHistory} />
+          </div>
+        )}
+
+        {/* Favorite alerts */}
+        {!isOwner && listing.is_favorited && (
+          <button
+            onClick={handleToggleAlerts}
+            disabled={alertsLoading}
+            className="w-full flex items-center gap-2 p-3 mb-4 bg-blue-50 border border-blue-200 rounded-xl text-sm text-left hover:bg-blue-100 disabled:opacity-50 transition-colors"
+          >
+            {(listing.alerts_enabled ?? true) ? (
+              <Bell size={16} className="text-blue-600" />
+            ) : (
+              <BellOff size={16} className="text-gray-500" />
+            )}
+            <span className="flex-1 text-gray-700">
+              {(listing.alerts_enabled ?? true)
+                ? "You'll be notified if the price drops or it's back in stock"
+                : 'Price and stock alerts are off for this listing'}
+            </span>
+            <span className="text-xs font-medium text-blue-600">
+              {(listing.alerts_enabled ?? true) ? 'Turn off' : 'Turn on'}
+            </span>
+          </button>
+        )}
+
+        {/* Owner lifecycle controls */}
+        {isOwner && (
+          <div className="p-3 mb-4 bg-white border border-blue-200 rounded-xl space-y-3">
+            <p className="text-sm text-gray-700 flex items-center gap-2">
+              <Clock size={14} className="text-gray-500" />
+              {listingStatus === 'sold'
+                ? 'Sold'
+                : listingStatus === 'expired'
+                ? 'Expired and hidden from the marketplace'
+                : listing.expires_at
+                ? `Visible until ${new Date(listing.expires_at).toLocaleDateString()}`
+                : 'Visible in the marketplace'}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={handleRenew}
+                disabled={statusLoading || listing.is_sold}
+                className="flex items-center justify-center gap-1 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm font-medium text-blue-700 hover:bg-blue-100 disabled:opacity-50 min-h-[44px]"
+              >
+                <RefreshCw size={14} />
+                Renew
+              </button>
+              <button
+                onClick={handleToggleReserved}
+                disabled={statusLoading || listing.is_sold}
+                className="flex items-center justify-center gap-1 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm font-medium text-amber-700 hover:bg-amber-100 disabled:opacity-50 min-h-[44px]"
+              >
+                <Lock size={14} />
+                {listing.is_reserved ? 'Unreserve' : 'Reserve'}
+              </button>
+              <button
+                onClick={handleToggleSold}
+                disabled={statusLoading}
+                className="flex items-center justify-center gap-1 py-2 bg-green-50 border border-green-200 rounded-lg text-sm font-medium text-green-700 hover:bg-green-100 disabled:opacity-50 min-h-[44px]"
+              >
+                <CheckCircle size={14} />
+                {listing.is_sold ? 'Relist' : 'Sold'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Badges */}
         <div className="flex gap-2 mb-6 flex-wrap">
           <span className="px-3 py-1.5 bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 border border-blue-200 rounded-full text-sm font-medium">
@@ -532,6 +748,16 @@ const ListingDetails: React.FC = () => {
               Sold
             </span>
           )}
+          {listingStatus === 'expired' && (
+            <span className="px-3 py-1.5 bg-gradient-to-r from-gray-100 to-gray-50 text-gray-600 border border-gray-200 rounded-full text-sm font-medium">
+              Expired
+            </span>
+          )}
+          {listing.is_reserved && !listing.is_sold && (
+            <span className="px-3 py-1.5 bg-gradient-to-r from-amber-100 to-amber-50 text-amber-700 border border-amber-200 rounded-full text-sm font-medium">
+              Reserved
+            </span>
+          )}
           {listing.seller_verified && (
             <span className="px-3 py-1.5 bg-gradient-to-r from-green-100 to-emerald-50 text-green-700 border border-green-200 rounded-full text-sm font-medium flex items-center gap-1">
               <Shield size={12} />
@@ -540,6 +766,27 @@ const ListingDetails: React.FC = () => {
           )}
         </div>
 
+        {/* Owner tabs */}
+        {isOwner && (
+          <div className="flex gap-2 mb-6 p-1 bg-blue-50 border border-blue-200 rounded-xl">
+            {(['details', 'offers'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all min-h-[44px] ${
+                  activeTab === tab ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-blue-600'
+                }`}
+              >
+                {tab === 'details' ? 'Details' : 'Offers'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isOwner && activeTab === 'offers' ? (
+          <ListingOffersPanel listing={listing} onListingChange={handleListingChange} />
+        ) : (
+        <>
         {/* Description */}
         <div className="mb-8">
           <h3 className="font-bold mb-3 text-lg text-gray-900 flex items-center gap-2">
@@ -552,6 +799,23 @@ const ListingDetails: React.FC = () => {
           </div>
         </div>
 
+        {/* Category details */}
+        {attributeRows.length > 0 && (
+          <div className="mb-8">
+            <h3 className="font-bold mb-3 text-lg text-gray-900">Details</h3>
+            <dl className="grid grid-cols-2 gap-2">
+              {attributeRows.map(field => (
+                <div key={field.key} className="p-3 bg-white border border-blue-200 rounded-xl">
+                  <dt className="text-xs text-gray-500">{field.label}</dt>
+                  <dd className="text-sm font-medium text-gray-900">
+                    {formatAttributeValue(field, listing.attributes![field.key])}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
         {/* Seller Information */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -623,6 +887,10 @@ const ListingDetails: React.FC = () => {
                 </p>
               </div>
             </div>
+            <SellerReputationCard
+              sellerId={listing.seller_id}
+              listingId={!isOwner && user ? listing.id : undefined}
+            />
           </div>
         </div>
 
@@ -651,6 +919,8 @@ const ListingDetails: React.FC = () => {
             </li>
           </ul>
         </div>
+        </>
+        )}
       </div>
 
       {/* Fixed Bottom Action Bar - Only for non-owners */}
@@ -675,6 +945,17 @@ const ListingDetails: React.FC = () => {
               )}
             </button>
             
+            {/* Make Offer Button */}
+            {listingStatus === 'active' && (
+              <button
+                onClick={handleOpenMakeOffer}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white text-blue-700 rounded-xl font-medium hover:bg-blue-50 active:scale-[0.98] transition-all border border-blue-300 shadow-sm min-h-[44px]"
+              >
+                <Tag size={18} />
+                <span>Make Offer</span>
+              </button>
+            )}
+            
             {/* Contact Seller Button */}
             <button
               onClick={handleContactSeller}
@@ -698,6 +979,23 @@ const ListingDetails: React.FC = () => {
         </div>
       )}
 
+      {showMakeOffer && (
+        <MakeOfferModal
+          title="Make an offer"
+          listingTitle={listing.title}
+          askingPrice={listing.price}
+          onClose={() => setShowMakeOffer(false)}
+          onSubmit={handleMakeOffer}
+        />
+      )}
+
+      {showShareToChat && (
+        <ShareToChatModal
+          card={listingShareCard(listing)}
+          onClose={() => setShowShareToChat(false)}
+        />
+      )}
+
       {/* CSS for scrollbar hide */}
       <style jsx>{`
         .scrollbar-hide {
@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Search, Filter, Plus, MessageCircle, X, CheckCircle, AlertCircle, Loader2, Shield } from 'lucide-react';
+import { Search, Filter, Plus, MessageCircle, X, CheckCircle, AlertCircle, Loader2, Shield, Bookmark, FileSpreadsheet } from 'lucide-react';
 import { useMarketplace } from '../hooks/useMarketplace';
 import MarketplaceListingCard from '../components/marketplace/MarketplaceListingCard';
 import CreateListingModal from '../components/marketplace/CreateListingModal';
+import SavedSearchesModal from '../components/marketplace/SavedSearchesModal';
+import BulkImportModal from '../components/marketplace/BulkImportModal';
+import { SavedSearch, SavedSearchCriteria } from '../types/marketplace';
+import { LISTING_CATEGORIES, getFilterableAttributes } from '../utils/listingAttributes';
 import { useAuth } from '../contexts/AuthContext';
 import { appCache } from '../shared/services/UniversalCache';
 
@@ -11,6 +15,8 @@ interface FilterParams {
   maxPrice: string;
   condition: string;
   category: string;
+  location: string;
+  attributes: Record<string, string>;
 }
 
 interface FeedbackMessage {
@@ -28,12 +34,17 @@ const Marketplace: React.FC = () => {
     minPrice: '',
     maxPrice: '',
     condition: 'all',
-    category: 'All'
+    category: 'All',
+    location: '',
+    attributes: {}
   });
   const [feedbackMessages, setFeedbackMessages] = useState<FeedbackMessage[]>([]);
   const [isApplyingFilters, setIsApplyingFilters] = useState(false);
   const [activeFilterCount, setActiveFilterCount] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  const [savedSearchApplied, setSavedSearchApplied] = useState(0);
   
   const { listings, loading, getListings, createListing } = useMarketplace();
   const { userProfile } = useAuth();
@@ -45,7 +56,8 @@ const Marketplace: React.FC = () => {
 
   const isVerified = userProfile?.user_status === 'verified';
 
-  const categories = useMemo(() => ['All', 'Electronics', 'Fashion', 'Vehicles', 'Property', 'Services', 'Others'], []);
+  const categories = useMemo(() => ['All', ...LISTING_CATEGORIES], []);
+  const attributeFilters = useMemo(() => getFilterableAttributes(selectedCategory), [selectedCategory]);
   
   const conditions = useMemo(() => [
     { value: 'all', label: 'All Conditions' },
@@ -94,6 +106,17 @@ const Marketplace: React.FC = () => {
       filterParams.condition = filterObj.condition;
     }
     
+    if (filterObj.location.trim()) {
+      filterParams.location = filterObj.location.trim();
+    }
+    
+    const attributes = Object.fromEntries(
+      Object.entries(filterObj.attributes).filter(([, value]) => value)
+    );
+    if (Object.keys(attributes).length > 0) {
+      filterParams.attributes = attributes;
+    }
+    
     const searchValue = searchText || searchQuery;
     if (searchValue && searchValue.trim()) {
       filterParams.search = searchValue.trim();
@@ -163,10 +186,14 @@ const Marketplace: React.FC = () => {
     handleSearch(value);
   }, [handleSearch]);
 
-  const handleFilterChange = useCallback((key: keyof FilterParams, value: string) => {
+  const handleFilterChange = useCallback((key: Exclude<keyof FilterParams, 'attributes'>, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   }, []);
 
+  const handleAttributeFilterChange = useCallback((key: string, value: string) => {
+    setFilters(prev => ({ ...prev, attributes: { ...prev.attributes, [key]: value } }));
+  }, []);
+
   const applyFilters = useCallback(async () => {
     try {
       setIsApplyingFilters(true);
@@ -185,7 +212,9 @@ const Marketplace: React.FC = () => {
       minPrice: '',
       maxPrice: '',
       condition: 'all',
-      category: 'All'
+      category: 'All',
+      location: '',
+      attributes: {}
     });
     setSelectedCategory('All');
     setSearchQuery('');
@@ -196,7 +225,7 @@ const Marketplace: React.FC = () => {
 
   const handleCategorySelect = useCallback(async (category: string) => {
     setSelectedCategory(category);
-    setFilters(prev => ({ ...prev, category }));
+    setFilters(prev => ({ ...prev, category, attributes: {} }));
     
     try {
       await loadListingsWithFilters(searchQuery, true);
@@ -233,16 +262,63 @@ const Marketplace: React.FC = () => {
     }
   }, [isVerified, createListing, loadListingsWithFilters, searchQuery, showFeedback]);
 
+  const handleBulkImported = useCallback(async (createdCount: number) => {
+    if (createdCount === 0) return;
+
+    await appCache.remove(CACHE_KEY);
+    await loadListingsWithFilters(searchQuery, true);
+    showFeedback(`${createdCount} listings created`, 'success');
+  }, [loadListingsWithFilters, searchQuery, showFeedback]);
+
   useEffect(() => {
     let count = 0;
     if (filters.minPrice) count++;
     if (filters.maxPrice) count++;
     if (filters.condition !== 'all') count++;
+    if (filters.location.trim()) count++;
+    count += Object.values(filters.attributes).filter(Boolean).length;
     if (selectedCategory !== 'All') count++;
     if (searchQuery) count++;
     setActiveFilterCount(count);
   }, [filters, selectedCategory, searchQuery]);
 
+  const currentSearchCriteria = useMemo((): SavedSearchCriteria => {
+    const params = buildFilterParams(filters);
+    return {
+      query: params.search,
+      category: params.category,
+      condition: params.condition,
+      minPrice: params.minPrice,
+      maxPrice: params.maxPrice,
+      location: params.location
+    };
+  }, [filters, buildFilterParams]);
+
+  const handleApplySavedSearch = useCallback((search: SavedSearch) => {
+    const { criteria } = search;
+    const category = criteria.category || 'All';
+
+    setSelectedCategory(category);
+    setSearchQuery(criteria.query || '');
+    setFilters({
+      minPrice: criteria.minPrice != null ? String(criteria.minPrice) : '',
+      maxPrice: criteria.maxPrice != null ? String(criteria.maxPrice) : '',
+      condition: criteria.condition || 'all',
+      category,
+      location: criteria.location || '',
+      attributes: {}
+    });
+    setShowSavedSearches(false);
+    setSavedSearchApplied(prev => prev + 1);
+  }, []);
+
+  // Reload once the saved search's filters have landed in state
+  useEffect(() => {
+    if (savedSearchApplied > 0) {
+      loadListingsWithFilters(searchQuery, true);
+    }
+  }, [savedSearchApplied]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (filterPanelRef.current && !filterPanelRef.current.contains(event.target as Node)) {
@@ -398,6 +474,26 @@ const Marketplace: React.FC = () => {
               )}
             </button>
 
+            {userProfile && (
+              <button 
+                onClick={() => setShowSavedSearches(true)}
+                className="p-2 rounded-xl flex items-center justify-center min-h-[36px] min-w-[36px] border transition-colors bg-white text-blue-600 border-blue-200 hover:bg-blue-50"
+                aria-label="Saved searches"
+              >
+                <Bookmark size={16} />
+              </button>
+            )}
+
+            {isVerified && (
+              <button 
+                onClick={() => setShowBulkImport(true)}
+                className="p-2 rounded-xl flex items-center justify-center min-h-[36px] min-w-[36px] border transition-colors bg-white text-blue-600 border-blue-200 hover:bg-blue-50"
+                aria-label="Bulk import listings"
+              >
+                <FileSpreadsheet size={16} />
+              </button>
+            )}
+
             <button 
               onClick={handleCreateListingClick}
               className={`p-2 rounded-xl flex items-center justify-center min-h-[36px] min-w-[36px] border transition-colors ${
@@ -477,6 +573,39 @@ const Marketplace: React.FC = () => {
             </div>
           </div>
           
+          {attributeFilters.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {attributeFilters.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">{field.label}</label>
+                  <select
+                    value={filters.attributes[field.key] || ''}
+                    onChange={(e) => handleAttributeFilterChange(field.key, e.target.value)}
+                    className="w-full p-2 bg-white border border-blue-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-400 transition-all text-xs"
+                    aria-label={`Filter by ${field.label.toLowerCase()}`}
+                  >
+                    <option value="">Any {field.label.toLowerCase()}</option>
+                    {field.options?.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Location</label>
+            <input
+              type="text"
+              value={filters.location}
+              onChange={(e) => handleFilterChange('location', e.target.value)}
+              placeholder="Any location"
+              className="w-full p-2 bg-white border border-blue-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-400 transition-all text-xs"
+              aria-label="Filter by location"
+            />
+          </div>
+          
           <div>
             <label className="block text-xs font-medium text-gray-700 mb-1">Condition</label>
             <select
@@ -587,6 +716,21 @@ const Marketplace: React.FC = () => {
         onClose={() => setShowCreateModal(false)}
         onSubmit={handleCreateListing}
       />
+
+      {showBulkImport && isVerified && (
+        <BulkImportModal
+          onClose={() => setShowBulkImport(false)}
+          onImported={handleBulkImported}
+        />
+      )}
+
+      {showSavedSearches && (
+        <SavedSearchesModal
+          currentCriteria={currentSearchCriteria}
+          onApply={handleApplySavedSearch}
+          onClose={() => setShowSavedSearches(false)}
+        />
+      )}
     </div>
   );
 };
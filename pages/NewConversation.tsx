@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Search, User, UserCheck, UserPlus, Store, AlertCircle } from 'lucide-react';
+import { 
+  ArrowLeft, Search, User, UserCheck, UserPlus, Store, AlertCircle, UsersRound, Camera, Check
+} from 'lucide-react';
 import { supabase } from '../services/supabase';
 import { messagingService } from '../services/supabase/messaging';
 import VerifiedBadge from '../components/VerifiedBadge';
@@ -35,6 +37,14 @@ const NewConversation: React.FC = () => {
   const [currentUserStatus, setCurrentUserStatus] = useState<'verified' | 'member' | null>(null);
   const [isCheckingStatus, setIsCheckingStatus] = useState(true);
   const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  
+  // Group creation
+  const [groupMode, setGroupMode] = useState(false);
+  const [selectedMemberIds, setSelectedMemberIds] = useState<Set<string>>(new Set());
+  const [groupName, setGroupName] = useState('');
+  const [groupAvatar, setGroupAvatar] = useState<File | null>(null);
+  const [creatingGroup, setCreatingGroup] = useState(false);
+  const groupAvatarInputRef = useRef<HTMLInputElement>(null);
 
   // Get current user ID and status on mount
   useEffect(() => {
@@ -249,6 +259,63 @@ const NewConversation: React.FC = () => {
     }
   };
 
+  /**
+   * Toggle a connection in the new group's member list
+   */
+  const toggleGroupMember = (userId: string) => {
+    setSelectedMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Leave group mode and reset the form
+   */
+  const handleCancelGroup = () => {
+    setGroupMode(false);
+    setSelectedMemberIds(new Set());
+    setGroupName('');
+    setGroupAvatar(null);
+  };
+
+  /**
+   * Create a group conversation with the selected connections
+   */
+  const handleCreateGroup = async () => {
+    if (!groupName.trim() || selectedMemberIds.size === 0 || creatingGroup) return;
+
+    try {
+      setCreatingGroup(true);
+      
+      const conversationId = await messagingService.createGroupConversation(
+        groupName,
+        Array.from(selectedMemberIds),
+        groupAvatar || undefined
+      );
+      
+      navigate(`/messages/${conversationId}`, {
+        state: {
+          context: 'group',
+          group: {
+            id: conversationId,
+            name: groupName.trim()
+          }
+        }
+      });
+    } catch (error: any) {
+      console.error('Error creating group:', error);
+      alert(error.message || 'Failed to create group. Please try again.');
+    } finally {
+      setCreatingGroup(false);
+    }
+  };
+
   /**
    * Get user's full name
    */
@@ -396,12 +463,27 @@ const NewConversation: React.FC = () => {
           >
             <ArrowLeft className="w-5 h-5" />
           </button>
-          <div className="flex items-center gap-2">
-            <h1 className="text-xl font-semibold text-gray-900">Start a Conversation</h1>
-            <span className="bg-gradient-to-r from-blue-500 to-blue-600 text-white text-xs font-medium px-2 py-1 rounded-full shadow-sm">
-              Verified
-            </span>
+          <div className="flex items-center gap-2 flex-1">
+            <h1 className="text-xl font-semibold text-gray-900">
+              {groupMode ? 'New Group' : 'Start a Conversation'}
+            </h1>
+            {!groupMode && (
+              <span className="bg-gradient-to-r from-blue-500 to-blue-600 text-white text-xs font-medium px-2 py-1 rounded-full shadow-sm">
+                Verified
+              </span>
+            )}
           </div>
+          <button
+            onClick={() => groupMode ? handleCancelGroup() : setGroupMode(true)}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-xl transition-colors min-h-[44px] border border-blue-200"
+          >
+            {groupMode ? 'Cancel' : (
+              <>
+                <UsersRound className="w-4 h-4" />
+                New Group
+              </>
+            )}
+          </button>
         </div>
         
         {/* Search Bar */}
@@ -418,6 +500,110 @@ const NewConversation: React.FC = () => {
         </div>
       </div>
 
+      {groupMode ? (
+        <>
+          {/* Group details */}
+          <div className="p-4 bg-white border-b border-gray-200 flex items-center gap-3">
+            <button
+              onClick={() => groupAvatarInputRef.current?.click()}
+              className="w-14 h-14 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center flex-shrink-0 border border-blue-300"
+              aria-label="Choose group photo"
+            >
+              {groupAvatar ? (
+                <img
+                  src={URL.createObjectURL(groupAvatar)}
+                  alt="Group photo"
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <Camera className="w-6 h-6 text-white" />
+              )}
+            </button>
+            <input
+              type="text"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              placeholder="Group name (e.g. Textile Traders Committee)"
+              maxLength={60}
+              className="flex-1 p-3 px-4 bg-white rounded-xl border-2 border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400 transition-all"
+            />
+            <input
+              type="file"
+              ref={groupAvatarInputRef}
+              onChange={(e) => {
+                setGroupAvatar(e.target.files?.[0] || null);
+                e.target.value = '';
+              }}
+              accept="image/*"
+              className="hidden"
+            />
+          </div>
+
+          {/* Member selection */}
+          <div className="p-4 pb-32">
+            <p className="text-sm text-gray-600 mb-3">
+              Add members from your verified network ({selectedMemberIds.size} selected)
+            </p>
+            {connections.length === 0 ? (
+              <div className="text-center py-12 px-4">
+                <UserCheck className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-600 text-sm">Connect with verified members to create a group</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {connections
+                  .filter(user => !searchQuery.trim() ||
+                    getUserFullName(user).toLowerCase().includes(searchQuery.trim().toLowerCase()))
+                  .map(user => {
+                    const selected = selectedMemberIds.has(user.id);
+                    return (
+                      <button
+                        key={user.id}
+                        onClick={() => toggleGroupMember(user.id)}
+                        className={`w-full flex items-center gap-3 bg-white rounded-2xl p-3 border-2 transition-all text-left ${
+                          selected ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                        }`}
+                      >
+                        <div className="w-10 h-10 rounded-xl overflow-hidden bg-gradient-to-br from-blue-500 to-purple-500 flex-shrink-0">
+                          {user.avatar_url ? (
+                            <img src={user.avatar_url} alt={getUserFullName(user)} className="w-full h-full object-cover" />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center text-white font-bold">
+                              {getUserInitials(user)}
+                            </div>
+                          )}
+                        </div>
+                        <span className="flex-1 font-medium text-gray-900 truncate">{getUserFullName(user)}</span>
+                        <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                          selected ? 'bg-blue-600 border-blue-600' : 'border-gray-300'
+                        }`}>
+                          {selected && <Check className="w-4 h-4 text-white" />}
+                        </div>
+                      </button>
+                    );
+                  })}
+              </div>
+            )}
+          </div>
+
+          {/* Create button */}
+          <div className="fixed bottom-20 left-0 right-0 px-4 z-20">
+            <button
+              onClick={handleCreateGroup}
+              disabled={creatingGroup || !groupName.trim() || selectedMemberIds.size === 0}
+              className="w-full py-3.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-medium rounded-xl shadow-lg disabled:opacity-50 flex items-center justify-center gap-2 border border-blue-800"
+            >
+              {creatingGroup ? (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <UsersRound className="w-5 h-5" />
+              )}
+              Create Group
+            </button>
+          </div>
+        </>
+      ) : (
+      <>
       {/* Tabs */}
       <div className="border-b border-gray-200 bg-white/80 backdrop-blur-sm">
         <div className="flex px-4">
@@ -604,6 +790,8 @@ const NewConversation: React.FC = () => {
           </div>
         </div>
       )}
+      </>
+      )}
     </div>
   );
 };
@@ -6,6 +6,9 @@ import { notificationService } from '../services/supabase/notifications';
 import { Notification } from '../types/notifications';
 import { formatTimeAgo } from '../utils/formatters';
 
+// Marketplace alerts that link to a listing
+const LISTING_NOTIFICATION_TYPES = ['saved_search_match', 'price_drop', 'back_in_stock', 'listing_expiring', 'listing_expired'];
+
 const Notifications: React.FC = () => {
   const navigate = useNavigate();
   const [notifications, setNotifications] = useState<Notification[]>([]);
@@ -37,9 +40,11 @@ const Notifications: React.FC = () => {
       );
     }
 
-    // Only help_support is clickable - redirects to ticket
+    // help_support opens the ticket; marketplace alerts open the listing
     if (notification.type === 'help_support' && notification.data?.ticket_id) {
       navigate(`/support/ticket/${notification.data.ticket_id}`);
+    } else if (LISTING_NOTIFICATION_TYPES.includes(notification.type) && notification.data?.listing_id) {
+      navigate(`/marketplace/${notification.data.listing_id}`);
     }
   };
 
@@ -119,12 +124,17 @@ const Notifications: React.FC = () => {
                 
                 <p className="text-gray-700">{notification.message}</p>
                 
-                {/* Show click hint only for help_support */}
+                {/* Click hints for notifications that link somewhere */}
                 {notification.type === 'help_support' && (
                   <div className="mt-2 text-sm text-blue-600">
                     Click to view ticket →
                   </div>
                 )}
+                {LISTING_NOTIFICATION_TYPES.includes(notification.type) && (
+                  <div className="mt-2 text-sm text-blue-600">
+                    Click to view listing →
+                  </div>
+                )}
               </div>
             ))}
           </div>
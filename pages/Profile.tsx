@@ -1,18 +1,22 @@
 // components/profile/Profile.tsx
-import React, { useRef } from 'react';
+import React, { useRef, useState, useEffect } from 'react';
 import { 
   Edit3, UserPlus, UserMinus, Check, 
   MoreVertical, Camera, Building, Briefcase, Calendar,
   ChevronLeft, Upload, X, Globe, Phone, Mail, MapPin,
   Link, Share2, Settings, LogOut, Trash2, AlertCircle, 
   Info, CheckCircle, XCircle, Clock, Heart, Bell,
-  MessageCircle, Share, ExternalLink
+  MessageCircle, Share, ExternalLink, Ban
 } from 'lucide-react';
 import { useProfile } from '../hooks/useProfile';
 import { formatTimeAgo } from '../utils/formatters';
+import { formatNaira } from '../utils/money';
 import EditModal from '../components/profile/EditModal';
 import DeleteModal from '../components/profile/DeleteModal';
 import VerifiedBadge from '../components/VerifiedBadge';
+import ReportUserModal from '../components/ReportUserModal';
+import SellerReputationCard from '../components/marketplace/SellerReputationCard';
+import { blockingService } from '../services/supabase/blocking';
 
 // Loading Skeleton Component (included in same file)
 const ProfileSkeleton = () => (
@@ -232,7 +236,7 @@ const ListingGridMobile = ({ listings, isOwner, onEdit, onDelete }: any) => {
             </div>
             <div className="flex-1 min-w-0">
               <h3 className="font-bold text-gray-900 text-sm truncate">{listing.title}</h3>
-              <p className="text-blue-600 font-bold text-base mt-1">₦{listing.price?.toLocaleString()}</p>
+              <p className="text-blue-600 font-bold text-base mt-1">{formatNaira(listing.price)}</p>
               <div className="flex items-center gap-1 mt-1">
                 <MapPin size={12} className="text-gray-500" />
                 <p className="text-xs text-gray-600 truncate">{listing.location}</p>
@@ -526,6 +530,35 @@ const Profile: React.FC = () => {
   const optionsMenuRef = useRef<HTMLDivElement>(null);
   const shareMenuRef = useRef<HTMLDivElement>(null);
 
+  // Block / report state for other users' profiles
+  const [isBlockedByMe, setIsBlockedByMe] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const viewedUserId = profileData?.profile?.id;
+
+  useEffect(() => {
+    if (!viewedUserId || isOwner) return;
+    blockingService.hasBlocked(viewedUserId).then(setIsBlockedByMe);
+  }, [viewedUserId, isOwner]);
+
+  const handleToggleBlock = async () => {
+    if (!viewedUserId) return;
+
+    try {
+      if (isBlockedByMe) {
+        await blockingService.unblockUser(viewedUserId);
+        setIsBlockedByMe(false);
+        showNotification('success', 'User unblocked');
+      } else {
+        if (!window.confirm('Block this user? They will not be able to message you or send you connection requests.')) return;
+        await blockingService.blockUser(viewedUserId);
+        setIsBlockedByMe(true);
+        showNotification('success', 'User blocked');
+      }
+    } catch (error: any) {
+      showNotification('error', error?.message || 'Failed to update block. Please try again.');
+    }
+  };
+
   const triggerAvatarUpload = () => {
     avatarInputRef.current?.click();
   };
@@ -594,6 +627,18 @@ const Profile: React.FC = () => {
       );
     }
 
+    if (isBlockedByMe) {
+      return (
+        <button
+          onClick={handleToggleBlock}
+          className="w-full max-w-xs mx-auto py-4 bg-gradient-to-r from-gray-600 to-gray-700 text-white rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg hover:from-gray-700 hover:to-gray-800 active:scale-[0.98] transition-all min-h-[52px] border border-gray-800"
+        >
+          <Ban size={20} />
+          Unblock
+        </button>
+      );
+    }
+
     if (isConnected) {
       return (
         <button
@@ -790,10 +835,17 @@ const Profile: React.FC = () => {
                       <Share2 size={18} className="text-gray-600" />
                       <span className="font-medium">Share Profile</span>
                     </button>
+                    <button 
+                      onClick={() => { setShowOptionsMenu(false); handleToggleBlock(); }}
+                      className="w-full px-4 py-3 text-left flex items-center gap-3 hover:bg-gray-50 transition-colors"
+                    >
+                      <Ban size={18} className="text-gray-600" />
+                      <span className="font-medium">{isBlockedByMe ? 'Unblock User' : 'Block User'}</span>
+                    </button>
                     <button 
                       onClick={() => { 
                         setShowOptionsMenu(false); 
-                        navigate(`/report?type=user&id=${profile.id}`); 
+                        setShowReportModal(true); 
                       }}
                       className="w-full px-4 py-3 text-left flex items-center gap-3 text-red-600 hover:bg-red-50 transition-colors border-t border-gray-200 mt-2 pt-3"
                     >
@@ -1087,12 +1139,15 @@ const Profile: React.FC = () => {
           )}
           {activeTab === 'items' && (
             isVerifiedUser ? (
-              <ListingGridMobile 
-                listings={listings} 
-                isOwner={isOwner} 
-                onEdit={(listing) => handleEditItem(listing, 'listing')}
-                onDelete={(listing) => handleDeleteItem(listing, 'listing')}
-              />
+              <div className="space-y-4">
+                {profile?.id && <SellerReputationCard sellerId={profile.id} />}
+                <ListingGridMobile 
+                  listings={listings} 
+                  isOwner={isOwner} 
+                  onEdit={(listing) => handleEditItem(listing, 'listing')}
+                  onDelete={(listing) => handleDeleteItem(listing, 'listing')}
+                />
+              </div>
             ) : (
               renderRestrictedAccess('Marketplace Listings')
             )
@@ -1258,6 +1313,19 @@ const Profile: React.FC = () => {
   onClose={handleCloseDeleteModal} // Use this instead
   onConfirm={confirmDelete}
 />
+
+      {showReportModal && !isOwner && (
+        <ReportUserModal
+          userId={profile.id}
+          userName={profile.first_name || 'this user'}
+          context={{ source: 'profile' }}
+          onClose={() => setShowReportModal(false)}
+          onReported={(alsoBlocked) => {
+            if (alsoBlocked) setIsBlockedByMe(true);
+            showNotification('success', 'Report submitted. Thank you for keeping the community safe.');
+          }}
+        />
+      )}
     </div>
   );
 };
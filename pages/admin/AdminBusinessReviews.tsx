@@ -0,0 +1,211 @@
+// pages/admin/AdminBusinessReviews.tsx
+import React, { useEffect, useState } from 'react'
+import { Star } from 'lucide-react'
+import { adminBusinessReviewsService, FlaggedReview, ReviewFlagStatus } from '../../services/adminBusinessReviews'
+import { REVIEW_FLAG_REASONS } from '../../services/supabase/business'
+
+const STATUSES: ReviewFlagStatus[] = ['open', 'dismissed', 'actioned']
+
+const AdminBusinessReviews: React.FC = () => {
+  const [reviews, setReviews] = useState<FlaggedReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<string>('open')
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadReviews()
+  }, [statusFilter])
+
+  const loadReviews = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const filter = statusFilter === 'all' ? undefined : statusFilter as ReviewFlagStatus
+      const { data, error } = await adminBusinessReviewsService.getFlaggedReviews(filter)
+
+      if (error) {
+        throw new Error(`Failed to load flagged reviews: ${(error as any).message}`)
+      }
+
+      setReviews(data || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred')
+      console.error('Error loading flagged reviews:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDismiss = async (review: FlaggedReview) => {
+    setSavingId(review.review_id)
+    const { error } = await adminBusinessReviewsService.dismissFlags(review.review_id)
+    setSavingId(null)
+
+    if (error) {
+      alert('Failed to dismiss flags. Please try again.')
+      return
+    }
+
+    await loadReviews()
+  }
+
+  const handleRemove = async (review: FlaggedReview) => {
+    if (!confirm(`Remove this review from ${review.business_name}? The business rating will be recalculated.`)) return
+
+    setSavingId(review.review_id)
+    const { error } = await adminBusinessReviewsService.removeReview(review.review_id, review.business_id)
+    setSavingId(null)
+
+    if (error) {
+      alert('Failed to remove review. Please try again.')
+      return
+    }
+
+    await loadReviews()
+  }
+
+  const getReasonLabel = (reason: string) =>
+    REVIEW_FLAG_REASONS.find(option => option.value === reason)?.label || reason
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Business Reviews</h1>
+          <p className="text-gray-600 mt-2">Reviews flagged by members as spam, fake or abusive</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Filters and Refresh Button */}
+        <div className="mb-6 flex flex-col md:flex-row md:items-center gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All Status</option>
+            {STATUSES.map(status => (
+              <option key={status} value={status}>
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+
+          <div className="md:ml-auto">
+            <button
+              onClick={loadReviews}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600"></div>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="bg-white shadow sm:rounded-lg text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No flagged reviews</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {statusFilter !== 'all' ? 'Try adjusting your filter' : 'No reviews have been flagged yet.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map(review => {
+              const hasOpenFlags = review.flags.some(flag => flag.status === 'open')
+
+              return (
+                <div key={review.review_id} className="bg-white shadow sm:rounded-lg p-6">
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm font-medium text-gray-900">{review.business_name}</span>
+                        <span className="flex items-center">
+                          {[...Array(5)].map((_, i) => (
+                            <Star
+                              key={i}
+                              size={12}
+                              className={i < review.rating ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}
+                            />
+                          ))}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700">
+                        By <span className="font-medium">{review.author_name}</span>
+                        {' · '}{formatDate(review.review_created_at)}
+                      </p>
+                      <blockquote className="mt-2 px-3 py-2 border-l-4 border-red-300 bg-red-50 text-sm text-gray-700 whitespace-pre-line">
+                        {review.comment || <span className="italic text-gray-500">No comment</span>}
+                      </blockquote>
+                      {review.owner_reply && (
+                        <p className="mt-2 px-3 py-2 bg-gray-50 text-sm text-gray-600 whitespace-pre-line">
+                          <span className="font-medium">Owner reply:</span> {review.owner_reply}
+                        </p>
+                      )}
+
+                      <ul className="mt-3 space-y-1">
+                        {review.flags.map(flag => (
+                          <li key={flag.id} className="text-xs text-gray-600">
+                            <span className="font-medium text-gray-900">{getReasonLabel(flag.reason)}</span>
+                            {' · '}{flag.reporter_name}{' · '}{formatDate(flag.created_at)}
+                            {flag.status !== 'open' && ` · ${flag.status}`}
+                            {flag.details && <span className="block text-gray-500">{flag.details}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+
+                    {hasOpenFlags && (
+                      <div className="flex gap-2 md:flex-col md:w-40">
+                        <button
+                          onClick={() => handleDismiss(review)}
+                          disabled={savingId === review.review_id}
+                          className="px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Keep review
+                        </button>
+                        <button
+                          onClick={() => handleRemove(review)}
+                          disabled={savingId === review.review_id}
+                          className="px-3 py-1.5 rounded-md text-xs font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Remove review
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="mt-4 text-sm text-gray-500">
+          Showing {reviews.length} review{reviews.length !== 1 ? 's' : ''}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AdminBusinessReviews
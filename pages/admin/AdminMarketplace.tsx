@@ -1,6 +1,8 @@
 // pages/admin/AdminMarketplace.tsx
 import React, { useEffect, useState } from 'react';
 import { supabase } from '../../services/supabase';
+import { marketplaceService } from '../../services/supabase/marketplace';
+import { formatNaira, formatNairaCompact, formatUsdReference } from '../../utils/money';
 import {
   Trash2,
   Eye,
@@ -13,7 +15,9 @@ import {
   Filter,
   RefreshCw,
   CheckCircle,
-  XCircle
+  XCircle,
+  Lock,
+  Clock
 } from 'lucide-react';
 
 // Types
@@ -31,6 +35,8 @@ interface Listing {
   images: string[];
   views_count: number;
   is_sold: boolean;
+  is_reserved?: boolean;
+  expires_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -216,6 +222,10 @@ const AdminMarketplace: React.FC = () => {
       if (error) throw error;
       
       if (data.success) {
+        // Relisting a sold item counts as back in stock for its favoriters
+        if (currentStatus) {
+          await marketplaceService.notifyFavoriters(id, 'back_in_stock');
+        }
         await Promise.all([fetchListings(), fetchAnalytics()]);
       }
     } catch (error) {
@@ -226,6 +236,51 @@ const AdminMarketplace: React.FC = () => {
     }
   };
 
+  // Renew an expired or expiring listing with RPC
+  const renewListing = async (id: string) => {
+    setActionLoading(`renew-${id}`);
+    try {
+      const { data, error } = await supabase
+        .rpc('admin_renew_listing', {
+          listing_id: id
+        });
+
+      if (error) throw error;
+
+      if (data.success) {
+        await fetchListings();
+      }
+    } catch (error) {
+      console.error('Error renewing listing:', error);
+      alert('Failed to renew listing');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Toggle reserved status with RPC
+  const toggleReservedStatus = async (id: string, currentStatus: boolean) => {
+    setActionLoading(`reserve-${id}`);
+    try {
+      const { data, error } = await supabase
+        .rpc('admin_set_listing_reserved', {
+          listing_id: id,
+          is_reserved_status: !currentStatus
+        });
+
+      if (error) throw error;
+
+      if (data.success) {
+        await fetchListings();
+      }
+    } catch (error) {
+      console.error('Error toggling reserved status:', error);
+      alert('Failed to update listing status');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   // Filter listings
   const filteredListings = listings.filter(listing => {
     const matchesSearch = searchQuery === '' || 
@@ -235,8 +290,7 @@ const AdminMarketplace: React.FC = () => {
     
     const matchesCategory = categoryFilter === 'all' || listing.category === categoryFilter;
     const matchesStatus = statusFilter === 'all' || 
-      (statusFilter === 'sold' && listing.is_sold) ||
-      (statusFilter === 'active' && !listing.is_sold);
+      marketplaceService.getListingStatus(listing) === statusFilter;
     
     return matchesSearch && matchesCategory && matchesStatus;
   });
@@ -253,12 +307,7 @@ const AdminMarketplace: React.FC = () => {
   }, [period]);
 
   // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN'
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatNaira(amount);
 
   // Format date
   const formatDate = (dateString: string) => {
@@ -336,6 +385,8 @@ const AdminMarketplace: React.FC = () => {
           >
             <option value="all">All Status</option>
             <option value="active">Active Only</option>
+            <option value="reserved">Reserved Only</option>
+            <option value="expired">Expired Only</option>
             <option value="sold">Sold Only</option>
           </select>
         </div>
@@ -383,13 +434,14 @@ const AdminMarketplace: React.FC = () => {
               <div>
                 <p className="text-sm text-gray-500">Average Price</p>
                 <p className="text-3xl font-bold text-amber-600">{formatCurrency(analytics.avg_price)}</p>
+                <p className="text-xs text-gray-500">{formatUsdReference(analytics.avg_price)}</p>
               </div>
               <div className="p-3 bg-amber-100 rounded-lg">
                 <DollarSign className="text-amber-600" size={24} />
               </div>
             </div>
             <div className="mt-4 text-sm text-gray-600">
-              Total value: {formatCurrency(analytics.total_value)}
+              Total value: <span title={formatCurrency(analytics.total_value)}>{formatNairaCompact(analytics.total_value)}</span>
             </div>
           </div>
 
@@ -578,6 +630,20 @@ const AdminMarketplace: React.FC = () => {
                             </>
                           )}
                         </button>
+                        {listing.is_reserved && !listing.is_sold && (
+                          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 w-fit">
+                            <Lock size={12} />
+                            Reserved
+                          </span>
+                        )}
+                        {listing.expires_at && (
+                          <span className={`inline-flex items-center gap-1 text-xs ${
+                            marketplaceService.getListingStatus(listing) === 'expired' ? 'text-red-600' : 'text-gray-500'
+                          }`}>
+                            <Clock size={12} />
+                            {marketplaceService.getListingStatus(listing) === 'expired' ? 'Expired' : 'Expires'} {formatDate(listing.expires_at)}
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -593,6 +659,22 @@ const AdminMarketplace: React.FC = () => {
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => renewListing(listing.id)}
+                          disabled={listing.is_sold || actionLoading === `renew-${listing.id}`}
+                          className="flex items-center gap-1 px-3 py-2 bg-blue-50 text-blue-700 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <RefreshCw size={16} />
+                          <span className="text-sm">Renew</span>
+                        </button>
+                        <button
+                          onClick={() => toggleReservedStatus(listing.id, !!listing.is_reserved)}
+                          disabled={listing.is_sold || actionLoading === `reserve-${listing.id}`}
+                          className="flex items-center gap-1 px-3 py-2 bg-amber-50 text-amber-700 hover:bg-amber-100 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <Lock size={16} />
+                          <span className="text-sm">{listing.is_reserved ? 'Unreserve' : 'Reserve'}</span>
+                        </button>
                         <button
                           onClick={() => deleteListing(listing.id, listing.title)}
                           disabled={actionLoading === listing.id}
@@ -629,7 +711,7 @@ const AdminMarketplace: React.FC = () => {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Total Value:</span>
-                    <span className="font-medium">{formatCurrency(category.total_value)}</span>
+                    <span className="font-medium" title={formatCurrency(category.total_value)}>{formatNairaCompact(category.total_value)}</span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,214 @@
+// pages/admin/AdminStorage.tsx
+import React, { useEffect, useState } from 'react'
+import { storageService, StorageStats } from '../../services/supabase/storage'
+import { adminStorageService, OrphanedFile } from '../../services/adminStorage'
+import { formatFileSize } from '../../utils/formatters'
+
+const AdminStorage: React.FC = () => {
+  const [stats, setStats] = useState<StorageStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [orphans, setOrphans] = useState<OrphanedFile[] | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [purging, setPurging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadStats()
+  }, [])
+
+  const loadStats = async () => {
+    setLoading(true)
+    setStats(await storageService.getStorageStats())
+    setLoading(false)
+  }
+
+  const handleScan = async () => {
+    setScanning(true)
+    setError(null)
+    setMessage(null)
+
+    const { data, error } = await adminStorageService.findOrphanedFiles()
+    setScanning(false)
+
+    if (error) {
+      setError('Failed to scan storage. Please try again.')
+      return
+    }
+
+    setOrphans(data || [])
+  }
+
+  const handlePurge = async () => {
+    if (!orphans || orphans.length === 0) return
+    if (!confirm(`Permanently delete ${orphans.length} orphaned file${orphans.length !== 1 ? 's' : ''}? This cannot be undone.`)) return
+
+    setPurging(true)
+    setError(null)
+
+    const { data, error } = await adminStorageService.purgeOrphanedFiles(orphans)
+    setPurging(false)
+
+    if (error) {
+      setError('Some files could not be deleted. Scan again to see what is left.')
+      return
+    }
+
+    setMessage(`Deleted ${data?.removed || 0} files, freeing ${formatFileSize(orphanedBytes)}`)
+    setOrphans(null)
+    await loadStats()
+  }
+
+  const orphanedBytes = (orphans || []).reduce((sum, file) => sum + file.size, 0)
+  const orphansByBucket = (orphans || []).reduce<Record<string, OrphanedFile[]>>((groups, file) => {
+    groups[file.bucket] = [...(groups[file.bucket] || []), file]
+    return groups
+  }, {})
+
+  const usagePercent = stats && stats.available > 0
+    ? Math.min(100, Math.round((stats.used / stats.available) * 100))
+    : 0
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Storage</h1>
+          <p className="text-gray-600 mt-2">Usage per bucket and cleanup of files no longer linked to any content</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-700">{message}</p>
+          </div>
+        )}
+
+        {/* Usage */}
+        <div className="bg-white shadow sm:rounded-lg p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Usage</h2>
+            <button
+              onClick={loadStats}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600"></div>
+            </div>
+          ) : stats && (
+            <>
+              <div className="flex items-center justify-between mb-1 text-sm">
+                <span className="font-medium text-gray-900">{formatFileSize(stats.used)} used</span>
+                <span className="text-gray-500">of {formatFileSize(stats.available)}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+                <div
+                  className={`h-2 rounded-full ${usagePercent > 90 ? 'bg-red-500' : 'bg-blue-600'}`}
+                  style={{ width: `${usagePercent}%` }}
+                />
+              </div>
+
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bucket</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Files</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Size</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {stats.buckets.map(bucket => (
+                    <tr key={bucket.bucket}>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-900">{bucket.bucket}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700 text-right">{bucket.files.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatFileSize(bucket.bytes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Orphan sweep */}
+        <div className="bg-white shadow sm:rounded-lg p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Orphaned Files</h2>
+              <p className="text-sm text-gray-500">
+                Files older than a day that no post, listing, business, profile or message uses
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleScan}
+                disabled={scanning || purging}
+                className="px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {scanning ? 'Scanning...' : 'Scan'}
+              </button>
+              {orphans && orphans.length > 0 && (
+                <button
+                  onClick={handlePurge}
+                  disabled={purging}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                >
+                  {purging ? 'Deleting...' : `Delete ${orphans.length} files`}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {orphans === null ? (
+            <p className="text-sm text-gray-500">Run a scan to see what can be cleaned up.</p>
+          ) : orphans.length === 0 ? (
+            <p className="text-sm text-gray-500">No orphaned files found.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700 mb-3">
+                {orphans.length} file{orphans.length !== 1 ? 's' : ''} using {formatFileSize(orphanedBytes)}
+              </p>
+              <div className="space-y-3">
+                {Object.keys(orphansByBucket).map(bucket => {
+                  const files = orphansByBucket[bucket]
+                  return (
+                    <details key={bucket} className="border border-gray-200 rounded-lg">
+                      <summary className="px-4 py-2 cursor-pointer text-sm font-medium text-gray-900">
+                        <span className="font-mono">{bucket}</span>
+                        <span className="text-gray-500 font-normal">
+                          {' · '}{files.length} files · {formatFileSize(files.reduce((sum, file) => sum + file.size, 0))}
+                        </span>
+                      </summary>
+                      <ul className="px-4 pb-3 max-h-64 overflow-y-auto text-xs text-gray-600 space-y-1">
+                        {files.map(file => (
+                          <li key={file.path} className="flex justify-between gap-4">
+                            <span className="font-mono truncate">{file.path}</span>
+                            <span className="flex-shrink-0">{formatFileSize(file.size)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AdminStorage
@@ -0,0 +1,193 @@
+// pages/admin/UserReports.tsx
+import React, { useEffect, useState } from 'react'
+import { adminReportsService, UserReport } from '../../services/adminReports'
+import { REPORT_REASONS } from '../../services/supabase/blocking'
+
+const STATUSES: UserReport['status'][] = ['open', 'reviewing', 'actioned', 'dismissed']
+
+const UserReports: React.FC = () => {
+  const [reports, setReports] = useState<UserReport[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<string>('open')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadReports()
+  }, [statusFilter])
+
+  const loadReports = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const filter = statusFilter === 'all' ? undefined : statusFilter as UserReport['status']
+      const { data, error } = await adminReportsService.getUserReports(filter)
+
+      if (error) {
+        throw new Error(`Failed to load reports: ${(error as any).message}`)
+      }
+
+      setReports(data || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred')
+      console.error('Error loading reports:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpdateStatus = async (report: UserReport, status: UserReport['status']) => {
+    setSavingId(report.id)
+    const { error } = await adminReportsService.updateReportStatus(
+      report.id,
+      status,
+      notes[report.id] ?? report.admin_notes
+    )
+    setSavingId(null)
+
+    if (error) {
+      alert('Failed to update report. Please try again.')
+      return
+    }
+
+    await loadReports()
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'open': return 'bg-yellow-100 text-yellow-800 border-yellow-300'
+      case 'reviewing': return 'bg-blue-100 text-blue-800 border-blue-300'
+      case 'actioned': return 'bg-green-100 text-green-800 border-green-300'
+      case 'dismissed': return 'bg-gray-100 text-gray-800 border-gray-300'
+      default: return 'bg-gray-100 text-gray-800 border-gray-300'
+    }
+  }
+
+  const getReasonLabel = (reason: string) =>
+    REPORT_REASONS.find(option => option.value === reason)?.label || reason
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">User Reports</h1>
+          <p className="text-gray-600 mt-2">Review members reported from chats and profiles</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Filters and Refresh Button */}
+        <div className="mb-6 flex flex-col md:flex-row md:items-center gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">All Status</option>
+            {STATUSES.map(status => (
+              <option key={status} value={status}>
+                {status.charAt(0).toUpperCase() + status.slice(1)}
+              </option>
+            ))}
+          </select>
+
+          <div className="md:ml-auto">
+            <button
+              onClick={loadReports}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600"></div>
+          </div>
+        ) : reports.length === 0 ? (
+          <div className="bg-white shadow sm:rounded-lg text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No reports found</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {statusFilter !== 'all' ? 'Try adjusting your filter' : 'No members have been reported yet.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reports.map(report => (
+              <div key={report.id} className="bg-white shadow sm:rounded-lg p-6">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(report.status)}`}>
+                        {report.status}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900">{getReasonLabel(report.reason)}</span>
+                    </div>
+                    <p className="text-sm text-gray-700">
+                      <span className="font-medium">{report.reported_user_name}</span> reported by{' '}
+                      <span className="font-medium">{report.reporter_name}</span> from their {report.source}
+                      {' · '}{formatDate(report.created_at)}
+                    </p>
+                    {report.details && (
+                      <p className="mt-2 text-sm text-gray-600 whitespace-pre-line">{report.details}</p>
+                    )}
+                    {report.message_content && (
+                      <blockquote className="mt-2 px-3 py-2 border-l-4 border-red-300 bg-red-50 text-sm text-gray-700">
+                        {report.message_content}
+                      </blockquote>
+                    )}
+                  </div>
+
+                  <div className="w-full md:w-72 space-y-2">
+                    <textarea
+                      value={notes[report.id] ?? report.admin_notes ?? ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [report.id]: e.target.value }))}
+                      placeholder="Moderator notes"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {STATUSES.filter(status => status !== report.status).map(status => (
+                        <button
+                          key={status}
+                          onClick={() => handleUpdateStatus(report, status)}
+                          disabled={savingId === report.id}
+                          className="px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Mark {status}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-4 text-sm text-gray-500">
+          Showing {reports.length} report{reports.length !== 1 ? 's' : ''}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default UserReports
@@ -0,0 +1,202 @@
+// services/adminBusinessReviews.ts
+import { supabase } from './supabase'
+
+export type ReviewFlagStatus = 'open' | 'dismissed' | 'actioned'
+
+export type ReviewFlag = {
+  id: string
+  reporter_name: string
+  reason: string
+  details?: string
+  status: ReviewFlagStatus
+  created_at: string
+}
+
+// One review with every flag raised against it
+export type FlaggedReview = {
+  review_id: string
+  business_id: string
+  business_name: string
+  author_name: string
+  rating: number
+  comment: string
+  owner_reply?: string
+  review_created_at: string
+  flags: ReviewFlag[]
+}
+
+const fullName = (profile: any) =>
+  [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || 'Unknown user'
+
+export const adminBusinessReviewsService = {
+
+  // ========================
+  // GET FLAGGED REVIEWS (MODERATION QUEUE)
+  // ========================
+  async getFlaggedReviews(status?: ReviewFlagStatus) {
+    try {
+      let query = supabase
+        .from('business_review_flags')
+        .select(`
+          *,
+          reporter:profiles!business_review_flags_reporter_id_fkey ( first_name, last_name ),
+          review:business_reviews (
+            id, business_id, rating, comment, owner_reply, created_at,
+            business:businesses ( name ),
+            author:profiles!business_reviews_user_id_fkey ( first_name, last_name )
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (status) {
+        query = query.eq('status', status)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching flagged reviews:', error)
+        return { data: null, error }
+      }
+
+      // Newest flag first, so the most recently flagged review leads the queue
+      const byReview = new Map<string, FlaggedReview>()
+      for (const row of data || []) {
+        if (!row.review) continue
+
+        const flag: ReviewFlag = {
+          id: row.id,
+          reporter_name: fullName(row.reporter),
+          reason: row.reason,
+          details: row.details || undefined,
+          status: row.status,
+          created_at: row.created_at
+        }
+
+        const existing = byReview.get(row.review.id)
+        if (existing) {
+          existing.flags.push(flag)
+          continue
+        }
+
+        byReview.set(row.review.id, {
+          review_id: row.review.id,
+          business_id: row.review.business_id,
+          business_name: row.review.business?.name || 'Unknown business',
+          author_name: fullName(row.review.author),
+          rating: row.review.rating,
+          comment: row.review.comment || '',
+          owner_reply: row.review.owner_reply || undefined,
+          review_created_at: row.review.created_at,
+          flags: [flag]
+        })
+      }
+
+      return { data: Array.from(byReview.values()), error: null }
+    } catch (error) {
+      console.error('Unexpected error in getFlaggedReviews:', error)
+      return { data: null, error }
+    }
+  },
+
+  // ========================
+  // DISMISS FLAGS (KEEP REVIEW)
+  // ========================
+  async dismissFlags(reviewId: string) {
+    return this.resolveFlags(reviewId, 'dismissed')
+  },
+
+  // ========================
+  // REMOVE REVIEW
+  // ========================
+  async removeReview(reviewId: string, businessId: string) {
+    try {
+      // Delete first so a failed delete leaves the flags in the open queue
+      const { data: deleted, error } = await supabase
+        .from('business_reviews')
+        .delete()
+        .eq('id', reviewId)
+        .select('id')
+
+      if (error || !deleted?.length) {
+        console.error('Error removing review:', error)
+        return { data: null, error: error || new Error('Review could not be removed') }
+      }
+
+      const resolved = await this.resolveFlags(reviewId, 'actioned')
+      if (resolved.error) return resolved
+
+      return this.recomputeRating(businessId)
+    } catch (error) {
+      console.error('Unexpected error in removeReview:', error)
+      return { data: null, error }
+    }
+  },
+
+  // ========================
+  // RECOMPUTE BUSINESS RATING
+  // ========================
+  async recomputeRating(businessId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('business_reviews')
+        .select('rating')
+        .eq('business_id', businessId)
+
+      if (error) {
+        console.error('Error reading business ratings:', error)
+        return { data: null, error }
+      }
+
+      const ratings = (data || []).map((row: any) => Number(row.rating) || 0)
+      const review_count = ratings.length
+      const average_rating = review_count > 0
+        ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / review_count) * 10) / 10
+        : 0
+
+      const { error: updateError } = await supabase
+        .from('businesses')
+        .update({ average_rating, review_count })
+        .eq('id', businessId)
+
+      if (updateError) {
+        console.error('Error updating business rating:', updateError)
+        return { data: null, error: updateError }
+      }
+
+      return { data: { average_rating, review_count }, error: null }
+    } catch (error) {
+      console.error('Unexpected error in recomputeRating:', error)
+      return { data: null, error }
+    }
+  },
+
+  async resolveFlags(reviewId: string, status: Exclude<ReviewFlagStatus, 'open'>) {
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return {
+        data: null,
+        error: new Error('You must be logged in as an admin')
+      }
+    }
+
+    const { error } = await supabase
+      .from('business_review_flags')
+      .update({
+        status,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('review_id', reviewId)
+      .eq('status', 'open')
+
+    if (error) {
+      console.error('Error resolving review flags:', error)
+      return { data: null, error }
+    }
+
+    return { data: true, error: null }
+  }
+}
@@ -0,0 +1,107 @@
+// services/adminReports.ts
+import { supabase } from './supabase'
+
+// Type definitions - MATCH THE user_reports TABLE
+export type UserReport = {
+  id: string
+  reporter_id: string
+  reporter_name: string
+  reported_user_id: string
+  reported_user_name: string
+  reason: string
+  details?: string
+  source: 'chat' | 'profile'
+  conversation_id?: string
+  message_id?: string
+  message_content?: string
+  status: 'open' | 'reviewing' | 'actioned' | 'dismissed'
+  admin_notes?: string
+  reviewed_by?: string
+  reviewed_at?: string
+  created_at: string
+}
+
+const fullName = (profile: any) =>
+  [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || 'Unknown user'
+
+export const adminReportsService = {
+
+  // ========================
+  // GET USER REPORTS (MODERATION CASES)
+  // ========================
+  async getUserReports(status?: UserReport['status']) {
+    try {
+      let query = supabase
+        .from('user_reports')
+        .select(`
+          *,
+          reporter:profiles!user_reports_reporter_id_fkey ( first_name, last_name ),
+          reported:profiles!user_reports_reported_user_id_fkey ( first_name, last_name ),
+          message:messages ( content )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(100)
+
+      if (status) {
+        query = query.eq('status', status)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching user reports:', error)
+        return { data: null, error }
+      }
+
+      const reports: UserReport[] = (data || []).map((row: any) => ({
+        ...row,
+        reporter_name: fullName(row.reporter),
+        reported_user_name: fullName(row.reported),
+        message_content: row.message?.content || undefined
+      }))
+
+      return { data: reports, error: null }
+    } catch (error) {
+      console.error('Unexpected error in getUserReports:', error)
+      return { data: null, error }
+    }
+  },
+
+  // ========================
+  // UPDATE REPORT STATUS
+  // ========================
+  async updateReportStatus(reportId: string, status: UserReport['status'], adminNotes?: string) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        return {
+          data: null,
+          error: new Error('You must be logged in as an admin')
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('user_reports')
+        .update({
+          status,
+          admin_notes: adminNotes ?? null,
+          reviewed_by: user.id,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', reportId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating report status:', error)
+        return { data: null, error }
+      }
+
+      return { data, error: null }
+    } catch (error) {
+      console.error('Unexpected error in updateReportStatus:', error)
+      return { data: null, error }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+// services/adminStorage.ts
+import { supabase } from './supabase'
+import { storageService } from './supabase/storage'
+
+// Storage objects that no post, listing, business, profile or message references
+export type OrphanedFile = {
+  bucket: string
+  path: string
+  size: number
+  created_at: string
+}
+
+// Files younger than this may belong to a form that is still being submitted
+const ORPHAN_MIN_AGE_HOURS = 24
+
+export const adminStorageService = {
+
+  // ========================
+  // FIND ORPHANED FILES
+  // ========================
+  async findOrphanedFiles() {
+    try {
+      const { data, error } = await supabase.rpc('admin_find_orphaned_storage_objects', {
+        p_min_age_hours: ORPHAN_MIN_AGE_HOURS
+      })
+
+      if (error) {
+        console.error('Error finding orphaned files:', error)
+        return { data: null, error }
+      }
+
+      const files: OrphanedFile[] = (data || []).map((row: any) => ({
+        bucket: row.bucket_id,
+        path: row.name,
+        size: Number(row.size) || 0,
+        created_at: row.created_at
+      }))
+
+      return { data: files, error: null }
+    } catch (err) {
+      console.error('Unexpected error finding orphaned files:', err)
+      return { data: null, error: err }
+    }
+  },
+
+  // ========================
+  // PURGE ORPHANED FILES
+  // ========================
+  async purgeOrphanedFiles(files: OrphanedFile[]) {
+    try {
+      const pathsByBucket = new Map<string, string[]>()
+      for (const file of files) {
+        pathsByBucket.set(file.bucket, [...(pathsByBucket.get(file.bucket) || []), file.path])
+      }
+
+      let removed = 0
+      for (const [bucket, paths] of pathsByBucket) {
+        removed += await storageService.removeObjects(bucket, paths)
+      }
+
+      return { data: { removed }, error: null }
+    } catch (err) {
+      console.error('Error purging orphaned files:', err)
+      return { data: null, error: err }
+    }
+  }
+}
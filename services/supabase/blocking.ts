@@ -0,0 +1,203 @@
+// services/supabase/blocking.ts
+import { supabase } from '../supabase';
+
+export interface BlockedUser {
+  user_id: string;
+  user_name: string;
+  user_avatar?: string;
+  blocked_at: string;
+}
+
+export type ReportReason = 'spam' | 'scam' | 'harassment' | 'inappropriate' | 'impersonation' | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or unwanted messages' },
+  { value: 'scam', label: 'Scam or fraud' },
+  { value: 'harassment', label: 'Harassment or threats' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'impersonation', label: 'Pretending to be someone else' },
+  { value: 'other', label: 'Something else' }
+];
+
+// Where a report was filed from, so moderators can find the evidence
+export interface ReportContext {
+  source: 'chat' | 'profile';
+  conversation_id?: string;
+  message_id?: string;
+}
+
+const BLOCK_CACHE_TTL = 2 * 60 * 1000;
+
+// Ids of users on either side of a block with the current user
+let blockedIdsCache: { userId: string; ids: Set<string>; timestamp: number } | null = null;
+
+const getCurrentUserId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id || null;
+};
+
+export const blockingService = {
+  /**
+   * Users blocked by the current user, or who blocked them
+   */
+  async getBlockedUserIds(forceRefresh = false): Promise<Set<string>> {
+    const userId = await getCurrentUserId();
+    if (!userId) return new Set();
+
+    if (
+      !forceRefresh &&
+      blockedIdsCache &&
+      blockedIdsCache.userId === userId &&
+      Date.now() - blockedIdsCache.timestamp < BLOCK_CACHE_TTL
+    ) {
+      return blockedIdsCache.ids;
+    }
+
+    const { data, error } = await supabase
+      .from('user_blocks')
+      .select('blocker_id, blocked_id')
+      .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+    if (error) {
+      console.error('Error fetching blocks:', error);
+      return blockedIdsCache?.userId === userId ? blockedIdsCache.ids : new Set();
+    }
+
+    const ids = new Set<string>(
+      (data || []).map((row: any) => row.blocker_id === userId ? row.blocked_id : row.blocker_id)
+    );
+    blockedIdsCache = { userId, ids, timestamp: Date.now() };
+    return ids;
+  },
+
+  /**
+   * Check whether either user has blocked the other
+   */
+  async isBlocked(otherUserId: string): Promise<boolean> {
+    const ids = await this.getBlockedUserIds();
+    return ids.has(otherUserId);
+  },
+
+  /**
+   * Check whether the current user blocked this user (as opposed to being blocked)
+   */
+  async hasBlocked(otherUserId: string): Promise<boolean> {
+    const userId = await getCurrentUserId();
+    if (!userId) return false;
+
+    const { data, error } = await supabase
+      .from('user_blocks')
+      .select('id')
+      .eq('blocker_id', userId)
+      .eq('blocked_id', otherUserId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking block:', error);
+      return false;
+    }
+
+    return !!data;
+  },
+
+  async getBlockedUsers(): Promise<BlockedUser[]> {
+    const userId = await getCurrentUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from('user_blocks')
+      .select(`
+        created_at,
+        blocked:profiles!user_blocks_blocked_id_fkey (
+          id,
+          first_name,
+          last_name,
+          avatar_url
+        )
+      `)
+      .eq('blocker_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching blocked users:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      user_id: row.blocked?.id,
+      user_name: [row.blocked?.first_name, row.blocked?.last_name].filter(Boolean).join(' ') || 'User',
+      user_avatar: row.blocked?.avatar_url || undefined,
+      blocked_at: row.created_at
+    }));
+  },
+
+  async blockUser(otherUserId: string): Promise<void> {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    if (userId === otherUserId) throw new Error('You cannot block yourself');
+
+    const { error } = await supabase
+      .from('user_blocks')
+      .upsert({
+        blocker_id: userId,
+        blocked_id: otherUserId
+      }, { onConflict: 'blocker_id,blocked_id' });
+
+    if (error) {
+      console.error('Error blocking user:', error);
+      throw new Error('Failed to block user');
+    }
+
+    blockedIdsCache = null;
+  },
+
+  async unblockUser(otherUserId: string): Promise<void> {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('user_blocks')
+      .delete()
+      .eq('blocker_id', userId)
+      .eq('blocked_id', otherUserId);
+
+    if (error) {
+      console.error('Error unblocking user:', error);
+      throw new Error('Failed to unblock user');
+    }
+
+    blockedIdsCache = null;
+  },
+
+  /**
+   * File a moderation case; admins review it under /admin/reports
+   */
+  async reportUser(
+    reportedUserId: string,
+    reason: ReportReason,
+    details: string,
+    context: ReportContext
+  ): Promise<void> {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    if (userId === reportedUserId) throw new Error('You cannot report yourself');
+
+    const { error } = await supabase
+      .from('user_reports')
+      .insert({
+        reporter_id: userId,
+        reported_user_id: reportedUserId,
+        reason,
+        details: details.trim() || null,
+        source: context.source,
+        conversation_id: context.conversation_id || null,
+        message_id: context.message_id || null,
+        status: 'open'
+      });
+
+    if (error) {
+      console.error('Error reporting user:', error);
+      throw new Error('Failed to submit report');
+    }
+  }
+};
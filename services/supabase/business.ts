@@ -1,7 +1,18 @@
 // Updated services/supabase/business.ts - Fixed RPC calls
 import { supabase } from '../supabase';
-import { storageService } from './storage';
-import { Business, BusinessFilters, UserVerificationStatus, Review } from '../../types/business';
+import { storageService, UploadProgressHandler } from './storage';
+import {
+  Business,
+  BusinessFilters,
+  BusinessHours,
+  BusinessMember,
+  BusinessPermission,
+  BusinessRole,
+  UserVerificationStatus,
+  Review,
+  ReviewFlagReason
+} from '../../types/business';
+import { isOpenNow } from '../../utils/businessHours';
 import { appCache } from '../../shared/services/UniversalCache';
 
 const CACHE_KEYS = {
@@ -16,39 +27,104 @@ const CACHE_TTL = {
   BUSINESS_DETAILS: 5 * 60 * 1000
 };
 
-export const businessService = {
-  async getBusinesses(filters?: BusinessFilters, forceRefresh = false): Promise<Business[]> {
-    try {
-      const cacheKey = `${CACHE_KEYS.BUSINESSES}_${JSON.stringify(filters || {})}`;
-      
-      if (!forceRefresh) {
-        const cached = await appCache.get<Business[]>(cacheKey);
-        if (cached) return cached;
-      }
-      
-      const { data, error } = await supabase.rpc('get_businesses_with_owners', {
-        p_business_type: filters?.business_type,
-        p_category: filters?.category,
-        p_location_axis: filters?.location_axis,
-        p_search: filters?.search,
-        p_min_rating: filters?.min_rating,
-        p_limit: filters?.limit || 20,
-        p_offset: filters?.offset || 0
-      });
+export const REVIEW_FLAG_REASONS: { value: ReviewFlagReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'fake', label: 'Fake review or not a real customer' },
+  { value: 'offensive', label: 'Offensive or abusive language' },
+  { value: 'conflict_of_interest', label: 'Written by the owner or a competitor' },
+  { value: 'other', label: 'Something else' }
+];
 
-      if (error) {
-        const cached = await appCache.get<Business[]>(cacheKey);
-        return cached || [];
-      }
-      
-      const businesses = data || [];
-      await appCache.set(cacheKey, businesses, CACHE_TTL.BUSINESSES);
-      return businesses;
-    } catch {
-      const cacheKey = `${CACHE_KEYS.BUSINESSES}_${JSON.stringify(filters || {})}`;
+const ROLE_PERMISSIONS: Record<BusinessRole, BusinessPermission[]> = {
+  owner: ['edit_details', 'manage_catalog', 'reply_reviews', 'manage_members', 'view_insights', 'transfer_ownership', 'delete_business'],
+  manager: ['edit_details', 'manage_catalog', 'reply_reviews', 'manage_members', 'view_insights'],
+  staff: ['manage_catalog']
+};
+
+const PERMISSION_DENIED_MESSAGES: Record<BusinessPermission, string> = {
+  edit_details: 'Only the owner or a manager can edit this business',
+  manage_catalog: 'Only the business team can change the catalog',
+  reply_reviews: 'Only the owner or a manager can reply to reviews',
+  manage_members: 'Only the owner or a manager can manage the team',
+  view_insights: 'Only the owner or a manager can see insights',
+  transfer_ownership: 'Only the owner can transfer ownership',
+  delete_business: 'Only the owner can delete this business'
+};
+
+export const BUSINESS_ROLE_LABELS: Record<BusinessRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff'
+};
+
+export const hasBusinessPermission = (role: BusinessRole | null | undefined, permission: BusinessPermission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+const fullName = (profile: any) =>
+  [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || 'Member';
+
+// Pages fetched at most when filling an "open now" list
+const OPEN_NOW_MAX_PAGES = 10;
+
+// One page of the directory, cached per filter set
+const fetchBusinessesPage = async (
+  queryFilters: Omit<BusinessFilters, 'open_now'>,
+  limit: number,
+  offset: number,
+  forceRefresh = false
+): Promise<Business[]> => {
+  const cacheKey = `${CACHE_KEYS.BUSINESSES}_${JSON.stringify({ ...queryFilters, limit, offset })}`;
+
+  try {
+    if (!forceRefresh) {
+      const cached = await appCache.get<Business[]>(cacheKey);
+      if (cached) return cached;
+    }
+    
+    const { data, error } = await supabase.rpc('get_businesses_with_owners', {
+      p_business_type: queryFilters.business_type,
+      p_category: queryFilters.category,
+      p_location_axis: queryFilters.location_axis,
+      p_search: queryFilters.search,
+      p_min_rating: queryFilters.min_rating,
+      p_limit: limit,
+      p_offset: offset
+    });
+
+    if (error) {
       const cached = await appCache.get<Business[]>(cacheKey);
       return cached || [];
     }
+    
+    const businesses = data || [];
+    await appCache.set(cacheKey, businesses, CACHE_TTL.BUSINESSES);
+    return businesses;
+  } catch {
+    const cached = await appCache.get<Business[]>(cacheKey);
+    return cached || [];
+  }
+};
+
+export const businessService = {
+  async getBusinesses(filters?: BusinessFilters, forceRefresh = false): Promise<Business[]> {
+    // "Open now" depends on the clock, so it is applied after the (cached) query
+    const { open_now, ...queryFilters } = filters || {};
+    const limit = queryFilters.limit || 20;
+    const offset = queryFilters.offset || 0;
+
+    if (!open_now) {
+      return fetchBusinessesPage(queryFilters, limit, offset, forceRefresh);
+    }
+
+    // Keep paging until the list is full of open businesses or the directory runs out
+    const open: Business[] = [];
+    for (let page = 0; page < OPEN_NOW_MAX_PAGES && open.length < limit; page++) {
+      const businesses = await fetchBusinessesPage(queryFilters, limit, offset + page * limit, forceRefresh);
+      open.push(...businesses.filter(business => isOpenNow(business.hours)));
+      if (businesses.length < limit) break;
+    }
+
+    return open.slice(0, limit);
   },
 
   async createBusiness(businessData: {
@@ -62,8 +138,10 @@ export const businessService = {
     phone?: string;
     website?: string;
     logo_file?: File;
-    banner_file?: File;
+    photo_files?: File[];   // In display order; the first is the banner
     is_registered?: boolean;
+    hours?: BusinessHours | null;
+    onUploadProgress?: UploadProgressHandler;
   }): Promise<string> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -73,22 +151,30 @@ export const businessService = {
       }
 
       let logo_url: string | undefined;
-      let banner_url: string | undefined;
+      let gallery_urls: string[] = [];
+
+      const photoFiles = businessData.photo_files || [];
+      const totalUploads = photoFiles.length + (businessData.logo_file ? 1 : 0);
+      let uploaded = 0;
+      const reportProgress = () => businessData.onUploadProgress?.(++uploaded, totalUploads);
 
       if (businessData.logo_file) {
         const [logoUrl] = await storageService.uploadBusinessImages(
           [businessData.logo_file],
-          user.id
+          user.id,
+          'logo'
         );
         logo_url = logoUrl;
+        reportProgress();
       }
 
-      if (businessData.banner_file) {
-        const [bannerUrl] = await storageService.uploadBusinessImages(
-          [businessData.banner_file],
-          user.id
+      if (photoFiles.length > 0) {
+        gallery_urls = await storageService.uploadBusinessImages(
+          photoFiles,
+          user.id,
+          'banner',
+          reportProgress
         );
-        banner_url = bannerUrl;
       }
 
       const { data, error } = await supabase.rpc('create_business_with_verification_check', {
@@ -102,8 +188,10 @@ export const businessService = {
         p_phone: businessData.phone || null,
         p_website: businessData.website || null,
         p_logo_url: logo_url || null,
-        p_banner_url: banner_url || null,
-        p_is_registered: businessData.is_registered || false
+        p_banner_url: gallery_urls[0] || null,
+        p_gallery_urls: gallery_urls,
+        p_is_registered: businessData.is_registered || false,
+        p_hours: businessData.hours || null
       });
 
       if (error) {
@@ -158,6 +246,78 @@ export const businessService = {
     }
   },
 
+  /**
+   * Author edits their own review; returns the recomputed rating
+   */
+  async updateReview(
+    businessId: string,
+    reviewId: string,
+    rating: number,
+    comment: string
+  ): Promise<{ average_rating: number; review_count: number }> {
+    try {
+      const { data, error } = await supabase.rpc('update_business_review', {
+        p_review_id: reviewId,
+        p_rating: rating,
+        p_comment: comment.trim() || null
+      });
+
+      if (error) throw error;
+
+      await appCache.remove(`${CACHE_KEYS.BUSINESS_DETAILS}${businessId}`);
+      await this.clearBusinessCaches();
+
+      return data;
+    } catch {
+      throw new Error('Failed to update review. Please try again.');
+    }
+  },
+
+  /**
+   * The business's public response to a review; an empty reply removes it
+   */
+  async replyToReview(businessId: string, reviewId: string, reply: string): Promise<void> {
+    await this.requirePermission(businessId, 'reply_reviews');
+
+    try {
+      const { error } = await supabase.rpc('reply_to_business_review', {
+        p_review_id: reviewId,
+        p_reply: reply.trim() || null
+      });
+
+      if (error) throw error;
+
+      await appCache.remove(`${CACHE_KEYS.BUSINESS_DETAILS}${businessId}`);
+    } catch {
+      throw new Error('Failed to save reply. Please try again.');
+    }
+  },
+
+  /**
+   * Flag a review for moderators; admins review it under /admin/business-reviews
+   */
+  async flagReview(reviewId: string, reason: ReviewFlagReason, details: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('business_review_flags')
+      .insert({
+        review_id: reviewId,
+        reporter_id: user.id,
+        reason,
+        details: details.trim() || null,
+        status: 'open'
+      });
+
+    if (error) {
+      // Unique (review_id, reporter_id)
+      if (error.code === '23505') throw new Error('You have already flagged this review');
+      console.error('Error flagging review:', error);
+      throw new Error('Failed to flag review');
+    }
+  },
+
   async getBusinessDetails(businessId: string, forceRefresh = false): Promise<{ business: Business; reviews: Review[] }> {
     try {
       const cacheKey = `${CACHE_KEYS.BUSINESS_DETAILS}${businessId}`;
@@ -206,19 +366,250 @@ export const businessService = {
     }
   },
 
+  /**
+   * Logo, banner, photos and catalog photos, read before a delete so the files can be removed after it
+   */
+  async getBusinessImageUrls(businessId: string): Promise<string[]> {
+    const { data } = await supabase
+      .from('businesses')
+      .select('logo_url, banner_url, gallery_urls')
+      .eq('id', businessId)
+      .maybeSingle();
+
+    if (!data) return [];
+
+    const { data: catalog } = await supabase
+      .from('business_catalog_items')
+      .select('image_urls')
+      .eq('business_id', businessId);
+
+    const catalogUrls = (catalog || []).reduce<string[]>((urls, row: any) => [...urls, ...(row.image_urls || [])], []);
+    return [data.logo_url, data.banner_url, ...(data.gallery_urls || []), ...catalogUrls].filter(Boolean);
+  },
+
   async deleteBusiness(businessId: string): Promise<void> {
+    await this.requirePermission(businessId, 'delete_business');
+
     try {
+      const imageUrls = await this.getBusinessImageUrls(businessId);
+
       const { error } = await supabase.rpc('delete_business', {
         p_business_id: businessId
       });
 
       if (error) throw error;
+      await storageService.deleteFiles(imageUrls);
       await this.clearBusinessCaches();
     } catch {
       throw new Error('Failed to delete business');
     }
   },
 
+  // ==================== TEAM & PERMISSIONS ====================
+
+  /**
+   * The current user's role in a business, or null when they are not on its team
+   */
+  async getMyRole(businessId: string): Promise<BusinessRole | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data: business } = await supabase
+      .from('businesses')
+      .select('owner_id')
+      .eq('id', businessId)
+      .maybeSingle();
+
+    if (business?.owner_id === user.id) return 'owner';
+
+    const { data: membership } = await supabase
+      .from('business_members')
+      .select('role')
+      .eq('business_id', businessId)
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    return membership?.role || null;
+  },
+
+  async requirePermission(businessId: string, permission: BusinessPermission): Promise<BusinessRole> {
+    const role = await this.getMyRole(businessId);
+    if (!role || !hasBusinessPermission(role, permission)) {
+      throw new Error(PERMISSION_DENIED_MESSAGES[permission]);
+    }
+    return role;
+  },
+
+  /**
+   * Owner first, then managers and staff; pending invitations are included with status 'invited'
+   */
+  async getMembers(businessId: string): Promise<BusinessMember[]> {
+    const [{ data: business }, { data: rows, error }] = await Promise.all([
+      supabase
+        .from('businesses')
+        .select('owner_id, created_at, owner:owner_id ( first_name, last_name, avatar_url )')
+        .eq('id', businessId)
+        .maybeSingle(),
+      supabase
+        .from('business_members')
+        .select('*, profile:user_id ( first_name, last_name, avatar_url )')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: true })
+    ]);
+
+    if (error) {
+      console.error('Error loading business team:', error);
+      throw new Error('Failed to load team');
+    }
+
+    const members: BusinessMember[] = (rows || []).map(({ profile, ...row }: any) => ({
+      ...row,
+      user_name: fullName(profile),
+      user_avatar: profile?.avatar_url || null
+    }));
+
+    const owner: BusinessMember[] = business ? [{
+      business_id: businessId,
+      user_id: business.owner_id,
+      role: 'owner',
+      status: 'active',
+      created_at: business.created_at,
+      user_name: fullName(business.owner),
+      user_avatar: (business.owner as any)?.avatar_url || null
+    }] : [];
+
+    const roleOrder: BusinessRole[] = ['owner', 'manager', 'staff'];
+    return [...owner, ...members].sort((a, b) => roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role));
+  },
+
+  // Managers run staff; only the owner can add or remove managers
+  async requireMemberManagement(businessId: string, targetRole: BusinessRole): Promise<void> {
+    const role = await this.requirePermission(businessId, 'manage_members');
+    if (targetRole !== 'staff' && role !== 'owner') {
+      throw new Error('Only the owner can add or remove managers');
+    }
+  },
+
+  /**
+   * Invite an existing member; they join once they accept
+   */
+  async inviteMember(businessId: string, userId: string, role: Exclude<BusinessRole, 'owner'>): Promise<void> {
+    await this.requireMemberManagement(businessId, role);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (userId === user?.id) throw new Error('You are already on this team');
+
+    const { data: business } = await supabase
+      .from('businesses')
+      .select('owner_id')
+      .eq('id', businessId)
+      .maybeSingle();
+    if (business?.owner_id === userId) throw new Error('This member already owns the business');
+
+    // Also notifies the invited member
+    const { error } = await supabase.rpc('invite_business_member', {
+      p_business_id: businessId,
+      p_user_id: userId,
+      p_role: role
+    });
+
+    if (error) {
+      if (error.code === '23505') throw new Error('This member is already on the team or invited');
+      console.error('Error inviting business member:', error);
+      throw new Error('Failed to send invitation');
+    }
+  },
+
+  /**
+   * Accept or decline your own pending invitation
+   */
+  async respondToInvitation(businessId: string, accept: boolean): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    // Only ever touches the caller's own invited row
+    const { error } = await supabase.rpc('respond_to_business_invitation', {
+      p_business_id: businessId,
+      p_accept: accept
+    });
+
+    if (error) {
+      console.error('Error responding to invitation:', error);
+      throw new Error('Failed to respond to invitation');
+    }
+  },
+
+  async updateMemberRole(businessId: string, userId: string, role: Exclude<BusinessRole, 'owner'>): Promise<void> {
+    // Promoting to or demoting from manager is the owner's call
+    await this.requireMemberManagement(businessId, 'manager');
+
+    // Checks the caller's role again on the server
+    const { error } = await supabase.rpc('update_business_member_role', {
+      p_business_id: businessId,
+      p_user_id: userId,
+      p_role: role
+    });
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      throw new Error('Failed to change role');
+    }
+  },
+
+  /**
+   * Remove someone from the team, cancel their invitation, or leave the team yourself
+   */
+  async removeMember(businessId: string, member: BusinessMember): Promise<void> {
+    if (member.role === 'owner') throw new Error('Transfer ownership before the owner can leave');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (member.user_id !== user?.id) {
+      await this.requireMemberManagement(businessId, member.role);
+    }
+
+    // Checks the caller's role again on the server; anyone may remove themselves
+    const { error } = await supabase.rpc('remove_business_member', {
+      p_business_id: businessId,
+      p_user_id: member.user_id
+    });
+
+    if (error) {
+      console.error('Error removing business member:', error);
+      throw new Error('Failed to remove member');
+    }
+  },
+
+  /**
+   * Hand the business to an active team member; the previous owner stays on as a manager
+   */
+  async transferOwnership(businessId: string, newOwnerId: string): Promise<void> {
+    await this.requirePermission(businessId, 'transfer_ownership');
+
+    const { data: membership } = await supabase
+      .from('business_members')
+      .select('status')
+      .eq('business_id', businessId)
+      .eq('user_id', newOwnerId)
+      .maybeSingle();
+
+    if (membership?.status !== 'active') {
+      throw new Error('Ownership can only go to someone already on the team');
+    }
+
+    const { error } = await supabase.rpc('transfer_business_ownership', {
+      p_business_id: businessId,
+      p_new_owner_id: newOwnerId
+    });
+
+    if (error) {
+      console.error('Error transferring ownership:', error);
+      throw new Error('Failed to transfer ownership');
+    }
+
+    await this.clearBusinessCaches();
+  },
+
   async clearBusinessCaches(): Promise<void> {
     const keys = await appCache.getAllKeys();
     for (const key of keys) {
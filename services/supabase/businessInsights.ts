@@ -0,0 +1,75 @@
+// services/supabase/businessInsights.ts
+import { supabase } from '../supabase';
+import { businessService } from './business';
+import { BusinessEventType, InsightsBucket, InsightsPeriod } from '../../types/business';
+import { INSIGHT_METRICS, getBucketStarts, fillBuckets } from '../../utils/businessInsights';
+
+// Views and search appearances count once per business until the app is reloaded
+const trackedThisSession = new Set<string>();
+
+const claim = (key: string) => {
+  if (trackedThisSession.has(key)) return false;
+  trackedThisSession.add(key);
+  return true;
+};
+
+export const businessInsightsService = {
+  /**
+   * Fire-and-forget; tracking must never get in the way of the page
+   */
+  trackEvent(businessId: string, eventType: BusinessEventType): void {
+    if (eventType === 'profile_view' && !claim(`profile_view:${businessId}`)) return;
+
+    supabase
+      .rpc('record_business_event', { p_business_id: businessId, p_event_type: eventType })
+      .then(({ error }) => {
+        if (error) console.error('Error recording business event:', error);
+      });
+  },
+
+  trackSearchAppearances(businessIds: string[]): void {
+    const fresh = businessIds.filter(id => claim(`search_appearance:${id}`));
+    if (fresh.length === 0) return;
+
+    supabase
+      .rpc('record_business_search_appearances', { p_business_ids: fresh })
+      .then(({ error }) => {
+        if (error) console.error('Error recording search appearances:', error);
+      });
+  },
+
+  /**
+   * Event counts and review trend per bucket, oldest first; owners and managers only
+   */
+  async getInsights(businessId: string, period: InsightsPeriod): Promise<InsightsBucket[]> {
+    await businessService.requirePermission(businessId, 'view_insights');
+
+    const starts = getBucketStarts(period);
+    const { data, error } = await supabase.rpc('get_business_insights', {
+      p_business_id: businessId,
+      p_bucket: period,
+      p_from: starts[0]
+    });
+
+    if (error) {
+      console.error('Error loading business insights:', error);
+      throw new Error('Failed to load insights');
+    }
+
+    const rows: Partial<InsightsBucket>[] = (data || []).map((row: any) => {
+      const events = {} as Record<BusinessEventType, number>;
+      INSIGHT_METRICS.forEach(({ key }) => {
+        events[key] = Number(row[key]) || 0;
+      });
+
+      return {
+        start: String(row.bucket_start).slice(0, 10),
+        events,
+        new_reviews: Number(row.new_reviews) || 0,
+        average_rating: row.average_rating != null ? Number(row.average_rating) : null
+      };
+    });
+
+    return fillBuckets(starts, rows);
+  }
+};
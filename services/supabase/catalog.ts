@@ -0,0 +1,201 @@
+// services/supabase/catalog.ts
+import { supabase } from '../supabase';
+import { storageService, UploadProgressHandler } from './storage';
+import { businessService } from './business';
+import { CatalogItem, CatalogItemInput } from '../../types/business';
+import { appCache } from '../../shared/services/UniversalCache';
+
+const CATALOG_CACHE_PREFIX = 'gkbc_business_catalog_';
+const CATALOG_CACHE_TTL = 5 * 60 * 1000;
+
+export const MAX_CATALOG_PHOTOS = 4;
+
+const getCurrentUserId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id || null;
+};
+
+const toRow = (input: CatalogItemInput) => ({
+  name: input.name.trim(),
+  description: input.description?.trim() || null,
+  price: input.price,
+  unit: input.unit?.trim() || null,
+  is_available: input.is_available,
+  listing_id: input.listing_id || null
+});
+
+// PostgREST filter syntax uses commas and parentheses
+const sanitizeSearch = (query: string) => query.replace(/[,()%*]/g, ' ').trim();
+
+export const catalogService = {
+  async getCatalog(businessId: string, forceRefresh = false): Promise<CatalogItem[]> {
+    const cacheKey = `${CATALOG_CACHE_PREFIX}${businessId}`;
+
+    if (!forceRefresh) {
+      const cached = await appCache.get<CatalogItem[]>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const { data, error } = await supabase
+      .from('business_catalog_items')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading catalog:', error);
+      const cached = await appCache.get<CatalogItem[]>(cacheKey);
+      if (cached) return cached;
+      throw new Error('Failed to load catalog');
+    }
+
+    const items = (data || []).map((row: any) => ({ ...row, image_urls: row.image_urls || [] })) as CatalogItem[];
+    await appCache.set(cacheKey, items, CATALOG_CACHE_TTL);
+    return items;
+  },
+
+  async createItem(
+    businessId: string,
+    input: CatalogItemInput,
+    photoFiles: File[],
+    onUploadProgress?: UploadProgressHandler
+  ): Promise<CatalogItem> {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    await businessService.requirePermission(businessId, 'manage_catalog');
+
+    const imageUrls = photoFiles.length > 0
+      ? await storageService.uploadBusinessImages(photoFiles, userId, 'listing', onUploadProgress)
+      : [];
+
+    const { data: last } = await supabase
+      .from('business_catalog_items')
+      .select('sort_order')
+      .eq('business_id', businessId)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('business_catalog_items')
+      .insert({
+        ...toRow(input),
+        business_id: businessId,
+        image_urls: imageUrls,
+        sort_order: (last?.sort_order ?? -1) + 1
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating catalog item:', error);
+      await storageService.deleteFiles(imageUrls);
+      throw new Error('Failed to add item. Please try again.');
+    }
+
+    await appCache.remove(`${CATALOG_CACHE_PREFIX}${businessId}`);
+    return data;
+  },
+
+  /**
+   * Save edits; `keptImageUrls` are the existing photos still wanted, new files are appended after them
+   */
+  async updateItem(
+    item: CatalogItem,
+    input: CatalogItemInput,
+    keptImageUrls: string[],
+    newPhotoFiles: File[],
+    onUploadProgress?: UploadProgressHandler
+  ): Promise<CatalogItem> {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    await businessService.requirePermission(item.business_id, 'manage_catalog');
+
+    const uploadedUrls = newPhotoFiles.length > 0
+      ? await storageService.uploadBusinessImages(newPhotoFiles, userId, 'listing', onUploadProgress)
+      : [];
+
+    const { data, error } = await supabase
+      .from('business_catalog_items')
+      .update({
+        ...toRow(input),
+        image_urls: [...keptImageUrls, ...uploadedUrls],
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', item.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating catalog item:', error);
+      await storageService.deleteFiles(uploadedUrls);
+      throw new Error('Failed to save item. Please try again.');
+    }
+
+    await storageService.deleteFiles(item.image_urls.filter(url => !keptImageUrls.includes(url)));
+    await appCache.remove(`${CATALOG_CACHE_PREFIX}${item.business_id}`);
+    return data;
+  },
+
+  async setAvailability(item: CatalogItem, isAvailable: boolean): Promise<void> {
+    await businessService.requirePermission(item.business_id, 'manage_catalog');
+
+    const { error } = await supabase
+      .from('business_catalog_items')
+      .update({ is_available: isAvailable, updated_at: new Date().toISOString() })
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error updating availability:', error);
+      throw new Error('Failed to update availability');
+    }
+
+    await appCache.remove(`${CATALOG_CACHE_PREFIX}${item.business_id}`);
+  },
+
+  async deleteItem(item: CatalogItem): Promise<void> {
+    await businessService.requirePermission(item.business_id, 'manage_catalog');
+
+    const { error } = await supabase
+      .from('business_catalog_items')
+      .delete()
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error deleting catalog item:', error);
+      throw new Error('Failed to delete item');
+    }
+
+    await storageService.deleteFiles(item.image_urls);
+    await appCache.remove(`${CATALOG_CACHE_PREFIX}${item.business_id}`);
+  },
+
+  /**
+   * Available items from approved businesses whose name or description matches
+   */
+  async searchCatalog(query: string, limit: number = 10): Promise<CatalogItem[]> {
+    const term = sanitizeSearch(query);
+    if (term.length < 2) return [];
+
+    const { data, error } = await supabase
+      .from('business_catalog_items')
+      .select('*, business:businesses!inner ( name, verification_status )')
+      .eq('business.verification_status', 'approved')
+      .eq('is_available', true)
+      .or(`name.ilike.%${term}%,description.ilike.%${term}%`)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error searching catalog:', error);
+      return [];
+    }
+
+    return (data || []).map(({ business, ...row }: any) => ({
+      ...row,
+      image_urls: row.image_urls || [],
+      business_name: business?.name
+    }));
+  }
+};
@@ -1,6 +1,7 @@
 // services/supabase/connections.ts
 import { supabase } from '../supabase';
 import { Member } from '../../types/index';
+import { blockingService } from './blocking';
 
 export interface ConnectionRequest {
   id: string;
@@ -57,7 +58,10 @@ export const connectionsService = {
       });
 
       if (error) throw error;
-      return data || [];
+
+      // Blocked users (either direction) are hidden from the directory
+      const blockedIds = await blockingService.getBlockedUserIds();
+      return (data || []).filter((member: Member) => !blockedIds.has(member.id));
     } catch {
       throw new Error('Failed to load members');
     }
@@ -157,6 +161,10 @@ export const connectionsService = {
   try {
     console.log('Sending connection request to user:', userId);
     
+    if (await blockingService.isBlocked(userId)) {
+      throw new Error('You cannot connect with this user');
+    }
+    
     const { data, error } = await supabase.rpc('send_connection_request', {
       p_connected_user_id: userId
     });
@@ -1,6 +1,57 @@
 import { supabase } from '../supabase';
-import { storageService } from './storage';
-import { MarketplaceListing, MarketplaceMessage, Conversation, MarketplaceReview } from '../../types/marketplace';
+import { storageService, UploadProgressHandler } from './storage';
+import { messagingService } from './messaging';
+import { formatNaira, roundToKobo } from '../../utils/money';
+import {
+  MarketplaceListing, MarketplaceMessage, Conversation, MarketplaceReview, MarketplaceOffer,
+  SavedSearch, SavedSearchCriteria, ListingAlertKind, ListingPricePoint, ListingStatus, ListingAttributes,
+  ListingImportRow, ListingImportResult, SellerReputation
+} from '../../types/marketplace';
+
+// Listings created in parallel per bulk import batch; each uploads its own images
+const IMPORT_BATCH_SIZE = 5;
+
+const isPast = (date?: string | null): boolean => !!date && new Date(date).getTime() < Date.now();
+
+const mapOffer = (item: any): MarketplaceOffer => {
+  const expired = item.status === 'pending' && new Date(item.expires_at).getTime() < Date.now();
+
+  return {
+    id: item.id,
+    listing_id: item.listing_id,
+    listing_title: item.listing_title || 'Listing',
+    listing_price: item.listing_price || 0,
+    buyer_id: item.buyer_id,
+    buyer_name: item.buyer_name || 'Buyer',
+    buyer_avatar: item.buyer_avatar || '',
+    seller_id: item.seller_id,
+    amount: roundToKobo(Number(item.amount) || 0),
+    message: item.message || undefined,
+    status: expired ? 'expired' : item.status,
+    created_by: item.created_by,
+    parent_offer_id: item.parent_offer_id || null,
+    conversation_id: item.conversation_id || null,
+    expires_at: item.expires_at,
+    created_at: item.created_at
+  };
+};
+
+const mapSavedSearch = (item: any): SavedSearch => ({
+  id: item.id,
+  user_id: item.user_id,
+  name: item.name,
+  criteria: {
+    query: item.query || undefined,
+    category: item.category || undefined,
+    condition: item.condition || undefined,
+    minPrice: item.min_price ?? undefined,
+    maxPrice: item.max_price ?? undefined,
+    location: item.location || undefined
+  },
+  notify: item.notify ?? true,
+  last_matched_at: item.last_matched_at || null,
+  created_at: item.created_at
+});
 
 export const marketplaceService = {
   async getListings(filters?: {
@@ -10,6 +61,7 @@ export const marketplaceService = {
     location?: string;
     search?: string;
     condition?: string;
+    attributes?: ListingAttributes;
     limit?: number;
     offset?: number;
   }): Promise<MarketplaceListing[]> {
@@ -21,6 +73,9 @@ export const marketplaceService = {
         p_location: filters?.location,
         p_search: filters?.search,
         p_condition: filters?.condition,
+        p_attributes: filters?.attributes && Object.keys(filters.attributes).length > 0
+          ? filters.attributes
+          : null,
         p_limit: filters?.limit || 20,
         p_offset: filters?.offset || 0
       });
@@ -46,10 +101,16 @@ export const marketplaceService = {
         seller_avatar: item.seller_avatar || '',
         seller_verified: item.seller_verified || false,
         is_favorited: item.is_favorited || false,
-        favorite_count: item.favorite_count || 0
+        favorite_count: item.favorite_count || 0,
+        is_reserved: item.is_reserved || false,
+        reserved_for: item.reserved_for || null,
+        expires_at: item.expires_at || null,
+        attributes: item.attributes || {}
       }));
       
-      return listings;
+      // get_marketplace_listings already skips expired rows; this covers
+      // listings that lapsed since the page was cached
+      return listings.filter((listing: MarketplaceListing) => !isPast(listing.expires_at));
     } catch {
       return [];
     }
@@ -83,7 +144,12 @@ export const marketplaceService = {
           seller_avatar: data.seller_avatar || '',
           seller_verified: data.seller_verified || false,
           is_favorited: data.is_favorited || false,
-          favorite_count: data.favorite_count || 0
+          favorite_count: data.favorite_count || 0,
+          is_reserved: data.is_reserved || false,
+          reserved_for: data.reserved_for || null,
+          alerts_enabled: data.alerts_enabled ?? true,
+          expires_at: data.expires_at || null,
+          attributes: data.attributes || {}
         };
       }
       
@@ -101,7 +167,9 @@ export const marketplaceService = {
     condition: 'new' | 'used' | 'refurbished';
     location: string;
     images: File[];
-  }): Promise<string> {
+    attributes?: ListingAttributes;
+    onUploadProgress?: UploadProgressHandler;
+  }, options: { skipSavedSearchAlerts?: boolean } = {}): Promise<string> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       
@@ -114,10 +182,11 @@ export const marketplaceService = {
         try {
           imageUrls = await storageService.uploadMarketplaceImages(
             listingData.images, 
-            user.id
+            user.id,
+            listingData.onUploadProgress
           );
         } catch {
-          imageUrls = [];
+          throw new Error('Failed to upload images. Please try again.');
         }
       }
 
@@ -128,19 +197,60 @@ export const marketplaceService = {
         p_category: listingData.category,
         p_condition: listingData.condition,
         p_location: listingData.location,
-        p_images: imageUrls
+        p_images: imageUrls,
+        p_attributes: listingData.attributes || {}
       });
 
       if (error) {
         throw error;
       }
 
+      // Alerts and history are best effort; the listing is already live
+      if (!options.skipSavedSearchAlerts) {
+        await this.notifySavedSearchMatches(data);
+      }
+      await this.recordPrice(data, listingData.price);
+
       return data;
     } catch (error: any) {
       throw error;
     }
   },
 
+  /**
+   * Create many listings a few at a time. A failed row does not stop the rest.
+   * Saved-search alerts go out once at the end, one per subscriber rather than one per row.
+   */
+  async createListingsInBatches(
+    rows: ListingImportRow[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ListingImportResult[]> {
+    const results: ListingImportResult[] = [];
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+
+      const settled = await Promise.allSettled(
+        batch.map(row => this.createListing(row.listing, { skipSavedSearchAlerts: true }))
+      );
+
+      settled.forEach((outcome, index) => {
+        results.push(outcome.status === 'fulfilled'
+          ? { rowNumber: batch[index].rowNumber, listingId: outcome.value }
+          : { rowNumber: batch[index].rowNumber, error: outcome.reason?.message || 'Failed to create listing' });
+      });
+
+      onProgress?.(results.length, rows.length);
+    }
+
+    const listingIds = results.map(result => result.listingId).filter((id): id is string => !!id);
+    if (listingIds.length > 0) {
+      await this.notifySavedSearchMatchesForListings(listingIds);
+    }
+
+    return results;
+  },
+
   async toggleFavorite(listingId: string): Promise<{ is_favorited: boolean; favorite_count: number }> {
     try {
       const { data, error } = await supabase.rpc('toggle_listing_favorite', {
@@ -159,11 +269,14 @@ export const marketplaceService = {
 
   async deleteListing(listingId: string): Promise<void> {
     try {
+      const listing = await this.getListingById(listingId);
+
       const { error } = await supabase.rpc('delete_listing', {
         p_listing_id: listingId
       });
 
       if (error) throw error;
+      await storageService.deleteFiles(listing?.images || []);
     } catch {
       throw new Error('Failed to delete listing');
     }
@@ -210,6 +323,11 @@ export const marketplaceService = {
   },
 
   async addReview(listingId: string, rating: number, comment: string): Promise<string> {
+    // add_marketplace_review enforces this too; checking first gives a clear message
+    if (!(await this.canReviewListing(listingId))) {
+      throw new Error('Only buyers who messaged the seller about this listing can review it');
+    }
+
     try {
       const { data, error } = await supabase.rpc('add_marketplace_review', {
         p_listing_id: listingId,
@@ -224,6 +342,79 @@ export const marketplaceService = {
     }
   },
 
+  // ========== SELLER REPUTATION ==========
+
+  /**
+   * Whether the current user messaged the seller about this listing and has not reviewed it yet
+   */
+  async canReviewListing(listingId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('can_review_listing', {
+        p_listing_id: listingId
+      });
+
+      if (error) throw error;
+      return data === true;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Ratings, completed sales and response stats; response figures are
+   * computed server-side from the seller's marketplace conversations
+   */
+  async getSellerReputation(sellerId: string): Promise<SellerReputation | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_seller_reputation', {
+        p_seller_id: sellerId
+      });
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const ratingCounts = [1, 2, 3, 4, 5].map(stars => Number(data.rating_counts?.[stars]) || 0);
+
+      return {
+        seller_id: sellerId,
+        average_rating: Math.round((Number(data.average_rating) || 0) * 10) / 10,
+        review_count: data.review_count || 0,
+        rating_counts: ratingCounts,
+        completed_sales: data.completed_sales || 0,
+        response_rate: data.response_rate != null ? Number(data.response_rate) : null,
+        avg_response_minutes: data.avg_response_minutes != null ? Number(data.avg_response_minutes) : null
+      };
+    } catch {
+      return null;
+    }
+  },
+
+  async getSellerReviews(sellerId: string, limit: number = 5, offset: number = 0): Promise<MarketplaceReview[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_seller_reviews', {
+        p_seller_id: sellerId,
+        p_limit: limit,
+        p_offset: offset
+      });
+
+      if (error) throw error;
+      return (data || []).map((item: any) => ({
+        id: item.id,
+        listing_id: item.listing_id,
+        listing_title: item.listing_title || 'Listing',
+        seller_id: item.seller_id,
+        reviewer_id: item.reviewer_id,
+        reviewer_name: item.reviewer_name || 'Member',
+        reviewer_avatar: item.reviewer_avatar || '',
+        rating: item.rating,
+        comment: item.comment || '',
+        created_at: item.created_at
+      }));
+    } catch {
+      return [];
+    }
+  },
+
   async markAsSold(listingId: string): Promise<void> {
     try {
       const { error } = await supabase.rpc('mark_listing_sold', {
@@ -236,37 +427,339 @@ export const marketplaceService = {
     }
   },
 
+  async markAsAvailable(listingId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('mark_listing_available', {
+        p_listing_id: listingId
+      });
+
+      if (error) throw error;
+    } catch {
+      throw new Error('Failed to mark as available');
+    }
+
+    await this.notifyFavoriters(listingId, 'back_in_stock');
+  },
+
+  // ========== LIFECYCLE ==========
+
+  getListingStatus(listing: Pick<MarketplaceListing, 'is_sold' | 'is_reserved' | 'expires_at'>): ListingStatus {
+    if (listing.is_sold) return 'sold';
+    if (isPast(listing.expires_at)) return 'expired';
+    if (listing.is_reserved) return 'reserved';
+    return 'active';
+  },
+
+  // The server sets expires_at on create and renew, and a scheduled job
+  // sends the "expiring soon" and "expired" reminders
+
+  /**
+   * Push the expiry out again; returns the new expiry chosen by the server
+   */
+  async renewListing(listingId: string): Promise<string> {
+    const { data: expiresAt, error } = await supabase.rpc('renew_listing', {
+      p_listing_id: listingId
+    });
+
+    if (error) {
+      throw new Error('Failed to renew listing');
+    }
+
+    return expiresAt;
+  },
+
+  async setReserved(listingId: string, reserved: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_listing_reserved', {
+      p_listing_id: listingId,
+      p_reserved: reserved
+    });
+
+    if (error) {
+      throw new Error(reserved ? 'Failed to reserve listing' : 'Failed to remove reservation');
+    }
+  },
+
+  // ========== FAVORITE ALERTS ==========
+
+  /**
+   * Tell everyone who favorited a listing (and kept alerts on) about a change
+   */
+  async notifyFavoriters(
+    listingId: string,
+    kind: ListingAlertKind,
+    prices?: { previous: number; current: number }
+  ): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('notify_listing_favoriters', {
+        p_listing_id: listingId,
+        p_kind: kind,
+        p_old_price: prices?.previous ?? null,
+        p_new_price: prices?.current ?? null
+      });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error notifying favoriters:', error);
+      return 0;
+    }
+  },
+
+  // Record the new price and alert favoriters when it went down
+  async handlePriceChange(listingId: string, previousPrice: number, newPrice: number): Promise<void> {
+    if (roundToKobo(previousPrice) === roundToKobo(newPrice)) return;
+
+    await this.recordPrice(listingId, newPrice);
+
+    if (newPrice < previousPrice) {
+      await this.notifyFavoriters(listingId, 'price_drop', { previous: previousPrice, current: newPrice });
+    }
+  },
+
+  async recordPrice(listingId: string, price: number): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('record_listing_price', {
+        p_listing_id: listingId,
+        p_price: roundToKobo(price)
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording listing price:', error);
+    }
+  },
+
+  async getPriceHistory(listingId: string): Promise<ListingPricePoint[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_listing_price_history', {
+        p_listing_id: listingId
+      });
+
+      if (error) throw error;
+      return (data || []).map((item: any) => ({
+        price: roundToKobo(Number(item.price) || 0),
+        recorded_at: item.recorded_at
+      }));
+    } catch {
+      return [];
+    }
+  },
+
+  async setListingAlerts(listingId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_listing_alerts', {
+      p_listing_id: listingId,
+      p_enabled: enabled
+    });
+
+    if (error) {
+      throw new Error('Failed to update alerts');
+    }
+  },
+
+  /**
+   * Open a negotiation: records the offer and posts an offer card to the seller chat.
+   * The server gives offers and counters a 48 hour expiry.
+   */
+  async makeOffer(
+    listing: Pick<MarketplaceListing, 'id' | 'seller_id' | 'title'>,
+    amount: number,
+    message?: string
+  ): Promise<{ offerId: string; conversationId: string }> {
+    if (!(amount > 0)) {
+      throw new Error('Enter an offer greater than ₦0');
+    }
+
+    const conversationId = await messagingService.getOrCreateConversation(listing.seller_id, 'marketplace');
+
+    const { data: offerId, error } = await supabase.rpc('make_listing_offer', {
+      p_listing_id: listing.id,
+      p_amount: roundToKobo(amount),
+      p_message: message?.trim() || null,
+      p_conversation_id: conversationId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to make offer');
+    }
+
+    await messagingService.sendOfferMessage(
+      conversationId,
+      offerId,
+      listing.id,
+      `Offer: ${formatNaira(amount)} for "${listing.title}"`
+    );
+
+    return { offerId, conversationId };
+  },
+
+  /**
+   * Reply to an offer with a different amount; the original is marked countered
+   */
+  async counterOffer(offerId: string, amount: number, message?: string): Promise<string> {
+    if (!(amount > 0)) {
+      throw new Error('Enter an offer greater than ₦0');
+    }
+
+    const offer = await this.getOffer(offerId);
+    if (!offer || offer.status !== 'pending') {
+      throw new Error('This offer is no longer open');
+    }
+
+    const { data: counterId, error } = await supabase.rpc('counter_listing_offer', {
+      p_offer_id: offerId,
+      p_amount: roundToKobo(amount),
+      p_message: message?.trim() || null
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to send counter offer');
+    }
+
+    if (offer.conversation_id) {
+      await messagingService.sendOfferMessage(
+        offer.conversation_id,
+        counterId,
+        offer.listing_id,
+        `Counter offer: ${formatNaira(amount)} for "${offer.listing_title}"`
+      );
+    }
+
+    return counterId;
+  },
+
+  /**
+   * Accept an offer. The listing is reserved for the buyer and the other
+   * open offers on it are declined; marking it sold completes the deal.
+   */
+  async acceptOffer(offerId: string): Promise<MarketplaceOffer> {
+    const offer = await this.getOffer(offerId);
+    if (!offer || offer.status !== 'pending') {
+      throw new Error('This offer is no longer open');
+    }
+
+    const { error } = await supabase.rpc('accept_listing_offer', {
+      p_offer_id: offerId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to accept offer');
+    }
+
+    if (offer.conversation_id) {
+      await messagingService.sendMessage(
+        offer.conversation_id,
+        `Offer of ${formatNaira(offer.amount)} accepted. "${offer.listing_title}" is now reserved.`,
+        'text',
+        offer.listing_id
+      );
+    }
+
+    return { ...offer, status: 'accepted' };
+  },
+
+  async declineOffer(offerId: string): Promise<MarketplaceOffer> {
+    const offer = await this.getOffer(offerId);
+    if (!offer || offer.status !== 'pending') {
+      throw new Error('This offer is no longer open');
+    }
+
+    const { error } = await supabase.rpc('decline_listing_offer', {
+      p_offer_id: offerId
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to decline offer');
+    }
+
+    if (offer.conversation_id) {
+      await messagingService.sendMessage(
+        offer.conversation_id,
+        `Offer of ${formatNaira(offer.amount)} declined.`,
+        'text',
+        offer.listing_id
+      );
+    }
+
+    return { ...offer, status: 'declined' };
+  },
+
+  /**
+   * Close out pending offers past their expiry so listings and chats agree
+   */
+  async expireOffers(listingId?: string): Promise<void> {
+    const { error } = await supabase.rpc('expire_listing_offers', {
+      p_listing_id: listingId || null
+    });
+
+    if (error) {
+      console.error('Error expiring offers:', error);
+    }
+  },
+
+  async getOffer(offerId: string): Promise<MarketplaceOffer | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_listing_offer', {
+        p_offer_id: offerId
+      });
+
+      if (error) throw error;
+      const row = Array.isArray(data) ? data[0] : data;
+      return row ? mapOffer(row) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * All negotiation rounds on a listing, newest first (seller view)
+   */
+  async getListingOffers(listingId: string): Promise<MarketplaceOffer[]> {
+    try {
+      await this.expireOffers(listingId);
+
+      const { data, error } = await supabase.rpc('get_listing_offers', {
+        p_listing_id: listingId
+      });
+
+      if (error) throw error;
+      return (data || []).map(mapOffer);
+    } catch {
+      return [];
+    }
+  },
+
   async getListingStats(): Promise<{
     totalListings: number;
     activeListings: number;
     soldListings: number;
     averagePrice: number;
+    averagePriceLabel: string;
   }> {
+    const emptyStats = {
+      totalListings: 0,
+      activeListings: 0,
+      soldListings: 0,
+      averagePrice: 0,
+      averagePriceLabel: formatNaira(0)
+    };
+
     try {
       const { data, error } = await supabase.rpc('get_listing_stats');
       
-      if (error) {
-        return {
-          totalListings: 0,
-          activeListings: 0,
-          soldListings: 0,
-          averagePrice: 0
-        };
+      if (error || !data) {
+        return emptyStats;
       }
       
-      return data || {
-        totalListings: 0,
-        activeListings: 0,
-        soldListings: 0,
-        averagePrice: 0
-      };
-    } catch {
+      // The database average carries arbitrary decimals; keep it to the kobo
+      const averagePrice = roundToKobo(Number(data.averagePrice) || 0);
+      
       return {
-        totalListings: 0,
-        activeListings: 0,
-        soldListings: 0,
-        averagePrice: 0
+        ...data,
+        averagePrice,
+        averagePriceLabel: formatNaira(averagePrice)
       };
+    } catch {
+      return emptyStats;
     }
   },
 
@@ -328,6 +821,136 @@ export const marketplaceService = {
     }
   },
 
+  // ========== SAVED SEARCHES ==========
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('marketplace_saved_searches')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapSavedSearch);
+    } catch {
+      return [];
+    }
+  },
+
+  async saveSearch(criteria: SavedSearchCriteria, name?: string): Promise<SavedSearch> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('Please sign in to save searches');
+    }
+
+    const hasCriteria = Object.values(criteria).some(value => value !== undefined && value !== '');
+    if (!hasCriteria) {
+      throw new Error('Add a keyword or filter before saving this search');
+    }
+
+    const { data, error } = await supabase
+      .from('marketplace_saved_searches')
+      .insert({
+        user_id: user.id,
+        name: name?.trim() || this.describeSavedSearch(criteria),
+        query: criteria.query?.trim() || null,
+        category: criteria.category || null,
+        condition: criteria.condition || null,
+        min_price: criteria.minPrice ?? null,
+        max_price: criteria.maxPrice ?? null,
+        location: criteria.location?.trim() || null,
+        notify: true
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to save search');
+    }
+
+    return mapSavedSearch(data);
+  },
+
+  async setSavedSearchAlerts(searchId: string, notify: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('marketplace_saved_searches')
+      .update({ notify })
+      .eq('id', searchId);
+
+    if (error) {
+      throw new Error('Failed to update alerts');
+    }
+  },
+
+  async deleteSavedSearch(searchId: string): Promise<void> {
+    const { error } = await supabase
+      .from('marketplace_saved_searches')
+      .delete()
+      .eq('id', searchId);
+
+    if (error) {
+      throw new Error('Failed to delete saved search');
+    }
+  },
+
+  /**
+   * Match a new listing against everyone's saved searches and notify the owners.
+   * Runs server-side so other members' searches stay private.
+   */
+  async notifySavedSearchMatches(listingId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('notify_saved_search_matches', {
+        p_listing_id: listingId
+      });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error matching saved searches:', error);
+      return 0;
+    }
+  },
+
+  /**
+   * Bulk version for imports: each saved search gets a single alert covering all its matches
+   */
+  async notifySavedSearchMatchesForListings(listingIds: string[]): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('notify_saved_search_matches_bulk', {
+        p_listing_ids: listingIds
+      });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error matching saved searches:', error);
+      return 0;
+    }
+  },
+
+  describeSavedSearch(criteria: SavedSearchCriteria): string {
+    const parts: string[] = [];
+
+    if (criteria.query) parts.push(`"${criteria.query}"`);
+    if (criteria.category) parts.push(criteria.category);
+    if (criteria.condition) parts.push(criteria.condition.charAt(0).toUpperCase() + criteria.condition.slice(1));
+    if (criteria.minPrice != null && criteria.maxPrice != null) {
+      parts.push(`${formatNaira(criteria.minPrice)} - ${formatNaira(criteria.maxPrice)}`);
+    } else if (criteria.minPrice != null) {
+      parts.push(`from ${formatNaira(criteria.minPrice)}`);
+    } else if (criteria.maxPrice != null) {
+      parts.push(`up to ${formatNaira(criteria.maxPrice)}`);
+    }
+    if (criteria.location) parts.push(`in ${criteria.location}`);
+
+    return parts.join(' • ') || 'All listings';
+  },
+
   async getSimilarListings(listingId: string, limit: number = 4): Promise<MarketplaceListing[]> {
     try {
       const currentListing = await this.getListingById(listingId);
@@ -396,10 +1019,7 @@ export const marketplaceService = {
   },
 
   formatPrice(price: number): string {
-    return `₦${price.toLocaleString('en-NG', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    })}`;
+    return formatNaira(price, { kobo: true });
   },
 
   getTimeAgo(timestamp: string): string {
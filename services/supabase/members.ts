@@ -1,5 +1,6 @@
 import { supabase } from '../supabase';
 import { Member } from '../../types/index';
+import { blockingService } from './blocking';
 
 export const membersService = {
   async getMembers(
@@ -21,13 +22,20 @@ export const membersService = {
       });
 
       if (error) throw error;
-      return data || [];
+
+      // Blocked users (either direction) are hidden from the directory
+      const blockedIds = await blockingService.getBlockedUserIds();
+      return (data || []).filter((member: Member) => !blockedIds.has(member.id));
     } catch {
       throw new Error('Failed to load members');
     }
   },
 
   async sendConnectionRequest(userId: string): Promise<{ id: string }> {
+    if (await blockingService.isBlocked(userId)) {
+      throw new Error('You cannot connect with this user');
+    }
+
     try {
       const { data, error } = await supabase.rpc('send_connection_request', {
         p_connected_user_id: userId
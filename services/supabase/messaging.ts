@@ -1,11 +1,29 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../supabase';
+import { OutboxStore } from '../../shared/services/OutboxStore';
+import { blockingService } from './blocking';
+import { processImage } from '../../utils/imagePipeline';
+import { storageService, parseStorageUrl } from './storage';
 import { 
   Conversation, 
   Message, 
   MessageType, 
   ConversationContext,
   UnreadCounts,
-  ConnectionUser
+  ConnectionUser,
+  UserPresence,
+  MessageDeleteScope,
+  MessageDeliveryStatus,
+  MessageReaction,
+  MessageReplyPreview,
+  MessageSearchResult,
+  SearchSnippetPart,
+  GroupInfo,
+  GroupMember,
+  GroupRole,
+  SharedMediaKind,
+  SharedMediaPage,
+  ShareCard
 } from '../../types/messaging';
 
 // Cache keys
@@ -14,6 +32,8 @@ const CACHE_KEYS = {
   CONVERSATIONS_TS: (context?: ConversationContext | 'all') => `conversations_ts_${context || 'all'}`,
   MESSAGES: (conversationId: string) => `messages_${conversationId}`,
   MESSAGES_TS: (conversationId: string) => `messages_ts_${conversationId}`,
+  GROUP_INFO: (conversationId: string) => `group_info_${conversationId}`,
+  GROUP_INFO_TS: (conversationId: string) => `group_info_ts_${conversationId}`,
   UNREAD_COUNTS: 'unread_counts',
   UNREAD_COUNTS_TS: 'unread_counts_ts',
   USER_STATUS: 'user_status',
@@ -25,12 +45,134 @@ const CACHE_TTL = {
   CONVERSATIONS: 2,
   MESSAGES: 5,
   UNREAD_COUNTS: 1,
-  USER_STATUS: 5
+  USER_STATUS: 5,
+  GROUP_INFO: 5
 };
 
+// Conversation list limits
+const CONVERSATION_LIMITS = {
+  MAX_PINNED: 3
+};
+
+// Group limits
+const GROUP_LIMITS = {
+  NAME_MAX_LENGTH: 60,
+  MAX_MEMBERS: 256
+};
+
+// Time windows for changing sent messages (minutes)
+const MESSAGE_WINDOWS = {
+  EDIT: 15,
+  DELETE_FOR_EVERYONE: 60
+};
+
+const BLOCKED_CHAT_REASON = 'You can no longer message this user';
+
+// Presence settings
+const PRESENCE = {
+  CHANNEL: 'online-users',                // Online status only; typing goes to each conversation
+  HEARTBEAT_ONLINE_WINDOW: 2 * 60 * 1000, // useHeartbeat pings every 30s
+  HEARTBEAT_REFRESH: 30 * 1000,
+  TYPING_IDLE: 4000,
+  TYPING_RESEND: 2000                     // Keep receivers' typing state from lapsing
+};
+
+// Message search settings
+const SEARCH = {
+  MIN_QUERY_LENGTH: 2,
+  SNIPPET_RADIUS: 40,   // Characters kept either side of the first match
+  CONTEXT_RADIUS: 25    // Messages loaded either side of a jumped-to hit
+};
+
+// Document attachments
+const DOCUMENTS = {
+  MIME_TYPES: ['application/pdf'],
+  MAX_SIZE: 10 * 1024 * 1024
+};
+
+// Shared media gallery settings
+const SHARED_MEDIA = {
+  PAGE_SIZE: 30
+};
+
+// Outbox settings
+const OUTBOX = {
+  DB_NAME: 'gkbc_chat_outbox',
+  MAX_ATTEMPTS: 5,
+  RETRY_INTERVAL: 30 * 1000
+};
+
+interface PresencePayload {
+  user_id: string;
+  online_at: string;
+}
+
+type PresenceListener = (presence: Record<string, UserPresence>) => void;
+
+// Conversation id -> ids of the users typing in it
+type TypingListener = (typing: Record<string, string[]>) => void;
+
+// One typing channel per conversation, shared by its listeners
+interface TypingChannel {
+  channel: RealtimeChannel;
+  typers: Map<string, ReturnType<typeof setTimeout>>;
+  listeners: Set<TypingListener>;
+}
+
+// Per-user flags stored in conversation_settings
+interface ConversationSettings {
+  conversation_id: string;
+  is_pinned: boolean;
+  is_archived: boolean;
+  is_muted: boolean;
+}
+
+// A message waiting in the outbox, keyed by its temporary id
+interface OutboxRecord {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  type: MessageType;
+  listing_id?: string;
+  listing_title?: string;
+  reply_to?: MessageReplyPreview | null;
+  share_card?: ShareCard;
+  file?: Blob;
+  file_name?: string;
+  media_url?: string;       // Set once the queued file has been uploaded
+  status: MessageDeliveryStatus;
+  attempts: number;
+  created_at: string;
+  last_error?: string;
+}
+
+// Receives the outbox copy of a message; when sent, message.id is the real id
+type OutboxListener = (tempId: string, message: Message) => void;
+
 export class MessagingService {
   private subscriptions = new Map<string, () => void>();
 
+  // Shared presence channel state
+  private presenceChannel: RealtimeChannel | null = null;
+  private presenceReady: Promise<void> | null = null;
+  private presenceAvailable = false;
+  private presenceUserId: string | null = null;
+  private presenceListeners = new Set<PresenceListener>();
+
+  // Per-conversation typing state
+  private typingChannels = new Map<string, TypingChannel>();
+  private typingIn: string | null = null;
+  private typingSentAt = 0;
+  private typingTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Offline outbox state
+  private outbox = new OutboxStore<OutboxRecord>(OUTBOX.DB_NAME);
+  private outboxListeners = new Set<OutboxListener>();
+  private outboxFlush: Promise<void> | null = null;
+  private outboxTimer: ReturnType<typeof setInterval> | null = null;
+  private outboxPreviewUrls = new Map<string, string>();
+
   // ==================== CACHE METHODS ====================
   
   private getCache<T>(key: string): T | null {
@@ -191,9 +333,25 @@ export class MessagingService {
         unread_count: item.unread_count,
         context: item.context as ConversationContext,
         listing_id: item.listing_id,
-        listing_title: item.listing_title
+        listing_title: item.listing_title,
+        group_name: item.group_name || undefined,
+        group_avatar: item.group_avatar || undefined,
+        member_count: item.member_count || undefined
       }));
 
+      // Attach pinned/archived/muted flags; pinned conversations stay on top
+      const settings = await this.getConversationSettings(user.id);
+      conversations.forEach(conversation => {
+        const setting = settings[conversation.conversation_id];
+        conversation.is_pinned = !!setting?.is_pinned;
+        conversation.is_archived = !!setting?.is_archived;
+        conversation.is_muted = !!setting?.is_muted;
+      });
+      conversations.sort((a, b) => {
+        if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+        return new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime();
+      });
+
       // Cache results
       this.setCacheWithTimestamp(cacheKey, tsKey, conversations);
       return conversations;
@@ -216,12 +374,19 @@ export class MessagingService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
+      // Groups have no single "other user"
+      if (context === 'group') {
+        throw new Error('Use createGroupConversation to start a group');
+      }
+
       // For connection context, validate BEFORE calling RPC
       if (context === 'connection') {
         const validation = await this.canStartConnectionChat(otherUserId);
         if (!validation.canStart) {
           throw new Error(validation.reason || 'Cannot start connection conversation');
         }
+      } else if (await blockingService.isBlocked(otherUserId)) {
+        throw new Error(BLOCKED_CHAT_REASON);
       }
 
       // Call the PostgreSQL function - ONLY 3 PARAMETERS!
@@ -248,6 +413,452 @@ export class MessagingService {
     }
   }
 
+  /**
+   * Pin or unpin a conversation at the top of the list
+   */
+  async setConversationPinned(conversationId: string, pinned: boolean): Promise<void> {
+    if (pinned) {
+      const conversations = await this.getConversations();
+      const pinnedCount = conversations.filter(conv => conv.is_pinned && conv.conversation_id !== conversationId).length;
+      if (pinnedCount >= CONVERSATION_LIMITS.MAX_PINNED) {
+        throw new Error(`You can only pin up to ${CONVERSATION_LIMITS.MAX_PINNED} conversations`);
+      }
+    }
+
+    // Archived conversations are not pinned
+    await this.updateConversationSettings(conversationId, pinned ? { is_pinned: true, is_archived: false } : { is_pinned: false });
+  }
+
+  /**
+   * Move a conversation to or out of the Archived view
+   */
+  async setConversationArchived(conversationId: string, archived: boolean): Promise<void> {
+    await this.updateConversationSettings(conversationId, archived ? { is_archived: true, is_pinned: false } : { is_archived: false });
+  }
+
+  /**
+   * Mute or unmute a conversation (no badges or notifications)
+   */
+  async setConversationMuted(conversationId: string, muted: boolean): Promise<void> {
+    await this.updateConversationSettings(conversationId, { is_muted: muted });
+  }
+
+  private async getConversationSettings(userId: string): Promise<Record<string, ConversationSettings>> {
+    const { data, error } = await supabase
+      .from('conversation_settings')
+      .select('conversation_id, is_pinned, is_archived, is_muted')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching conversation settings:', error);
+      return {};
+    }
+
+    return (data || []).reduce((settings: Record<string, ConversationSettings>, row: ConversationSettings) => {
+      settings[row.conversation_id] = row;
+      return settings;
+    }, {});
+  }
+
+  private async updateConversationSettings(
+    conversationId: string,
+    changes: Partial<Omit<ConversationSettings, 'conversation_id'>>
+  ): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('conversation_settings')
+        .upsert({
+          user_id: user.id,
+          conversation_id: conversationId,
+          ...changes,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,conversation_id' });
+
+      if (error) throw error;
+
+      this.clearCacheByPattern('conversations_');
+      localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS);
+      localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS_TS);
+
+    } catch (error) {
+      console.error('Error updating conversation settings:', error);
+      throw error;
+    }
+  }
+
+  // ==================== GROUP METHODS ====================
+
+  /**
+   * Create a named group conversation with the given members.
+   * Only verified users can create groups, and every member must be a verified connection.
+   */
+  async createGroupConversation(
+    name: string,
+    memberIds: string[],
+    avatarFile?: File
+  ): Promise<string> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const groupName = name.trim();
+      if (!groupName) throw new Error('Group name is required');
+      if (groupName.length > GROUP_LIMITS.NAME_MAX_LENGTH) {
+        throw new Error(`Group name must be ${GROUP_LIMITS.NAME_MAX_LENGTH} characters or less`);
+      }
+
+      const uniqueMemberIds = Array.from(new Set(memberIds.filter(id => id !== user.id)));
+      if (uniqueMemberIds.length === 0) throw new Error('Add at least one member');
+      if (uniqueMemberIds.length + 1 > GROUP_LIMITS.MAX_MEMBERS) {
+        throw new Error(`Groups can have at most ${GROUP_LIMITS.MAX_MEMBERS} members`);
+      }
+
+      // Same rules as one-to-one connection chats, checked per member
+      for (const memberId of uniqueMemberIds) {
+        const validation = await this.canStartConnectionChat(memberId);
+        if (!validation.canStart) {
+          throw new Error(validation.reason || 'Cannot add this member to a group');
+        }
+      }
+
+      const { data: conversationId, error } = await supabase.rpc('create_group_conversation', {
+        p_creator_id: user.id,
+        p_name: groupName,
+        p_member_ids: uniqueMemberIds
+      });
+
+      if (error) {
+        console.error('Error creating group:', error);
+        throw error;
+      }
+
+      if (avatarFile) {
+        try {
+          const avatarUrl = await this.uploadMedia(conversationId, avatarFile);
+          await supabase
+            .from('conversations')
+            .update({ group_avatar: avatarUrl })
+            .eq('id', conversationId);
+        } catch (avatarError) {
+          // The group is usable without a photo
+          console.error('Error uploading group avatar:', avatarError);
+        }
+      }
+
+      await this.sendSystemMessage(conversationId, `${await this.getCurrentUserName()} created the group "${groupName}"`);
+
+      this.clearCacheByPattern('conversations_');
+      return conversationId;
+
+    } catch (error) {
+      console.error('Error in createGroupConversation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get group details and members
+   */
+  async getGroupInfo(conversationId: string, forceRefresh: boolean = false): Promise<GroupInfo | null> {
+    try {
+      const cacheKey = CACHE_KEYS.GROUP_INFO(conversationId);
+      const tsKey = CACHE_KEYS.GROUP_INFO_TS(conversationId);
+
+      const cached = this.getCache<GroupInfo>(cacheKey);
+      if (!forceRefresh && cached && this.isCacheValid(tsKey, CACHE_TTL.GROUP_INFO)) {
+        return cached;
+      }
+
+      const { data: conversation, error } = await supabase
+        .from('conversations')
+        .select('id, context, group_name, group_avatar, created_by')
+        .eq('id', conversationId)
+        .single();
+
+      if (error) throw error;
+      if (conversation.context !== 'group') return null;
+
+      const { data: members, error: membersError } = await supabase
+        .from('conversation_members')
+        .select(`
+          user_id,
+          role,
+          joined_at,
+          profile:profiles!conversation_members_user_id_fkey (
+            first_name,
+            last_name,
+            avatar_url
+          )
+        `)
+        .eq('conversation_id', conversationId)
+        .order('joined_at', { ascending: true });
+
+      if (membersError) throw membersError;
+
+      const info: GroupInfo = {
+        id: conversation.id,
+        name: conversation.group_name,
+        avatar_url: conversation.group_avatar || undefined,
+        created_by: conversation.created_by,
+        members: (members || []).map((member: any): GroupMember => ({
+          user_id: member.user_id,
+          name: this.getUserDisplayName(member.profile?.first_name, member.profile?.last_name),
+          avatar_url: member.profile?.avatar_url || undefined,
+          role: member.role as GroupRole,
+          joined_at: member.joined_at
+        }))
+      };
+
+      this.setCacheWithTimestamp(cacheKey, tsKey, info);
+      return info;
+
+    } catch (error) {
+      console.error('Error getting group info:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add members to a group (admins only)
+   */
+  async addGroupMembers(conversationId: string, userIds: string[]): Promise<void> {
+    try {
+      const group = await this.requireGroupAdmin(conversationId);
+
+      const newIds = userIds.filter(id => !group.members.some(member => member.user_id === id));
+      if (newIds.length === 0) return;
+
+      if (group.members.length + newIds.length > GROUP_LIMITS.MAX_MEMBERS) {
+        throw new Error(`Groups can have at most ${GROUP_LIMITS.MAX_MEMBERS} members`);
+      }
+
+      for (const memberId of newIds) {
+        const validation = await this.canStartConnectionChat(memberId);
+        if (!validation.canStart) {
+          throw new Error(validation.reason || 'Cannot add this member to the group');
+        }
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('conversation_members')
+        .insert(newIds.map(userId => ({
+          conversation_id: conversationId,
+          user_id: userId,
+          role: 'member',
+          added_by: user?.id
+        })));
+
+      if (error) throw error;
+
+      const names = await this.getDisplayNames(newIds);
+      await this.sendSystemMessage(
+        conversationId,
+        `${await this.getCurrentUserName()} added ${newIds.map(id => names[id]).join(', ')}`
+      );
+
+      this.clearGroupCache(conversationId);
+
+    } catch (error) {
+      console.error('Error in addGroupMembers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member from a group (admins), or leave the group (any member removing themselves)
+   */
+  async removeGroupMember(conversationId: string, userId: string): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const isLeaving = userId === user.id;
+      const group = isLeaving
+        ? await this.getGroupInfo(conversationId, true)
+        : await this.requireGroupAdmin(conversationId);
+
+      if (!group) throw new Error('Group not found');
+
+      // A group must keep at least one admin
+      const admins = group.members.filter(member => member.role === 'admin');
+      const target = group.members.find(member => member.user_id === userId);
+      if (!target) return;
+
+      if (target.role === 'admin' && admins.length === 1 && group.members.length > 1) {
+        throw new Error('Make another member an admin before leaving the group');
+      }
+
+      // Removes the row and posts "left the group" / "removed" together;
+      // once the row is gone the departing user could no longer post it
+      const { error } = await supabase.rpc('remove_group_member', {
+        p_conversation_id: conversationId,
+        p_user_id: userId
+      });
+
+      if (error) throw error;
+
+      this.clearGroupCache(conversationId);
+
+    } catch (error) {
+      console.error('Error in removeGroupMember:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Promote a member to admin or demote an admin (admins only)
+   */
+  async setGroupMemberRole(conversationId: string, userId: string, role: GroupRole): Promise<void> {
+    try {
+      const group = await this.requireGroupAdmin(conversationId);
+
+      const target = group.members.find(member => member.user_id === userId);
+      if (!target || target.role === role) return;
+
+      if (role === 'member' && group.members.filter(member => member.role === 'admin').length === 1) {
+        throw new Error('A group needs at least one admin');
+      }
+
+      const { error } = await supabase
+        .from('conversation_members')
+        .update({ role })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      await this.sendSystemMessage(
+        conversationId,
+        role === 'admin'
+          ? `${await this.getCurrentUserName()} made ${target.name} an admin`
+          : `${await this.getCurrentUserName()} removed ${target.name} as admin`
+      );
+
+      this.clearGroupCache(conversationId);
+
+    } catch (error) {
+      console.error('Error in setGroupMemberRole:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a group and/or change its photo (admins only)
+   */
+  async updateGroupDetails(
+    conversationId: string,
+    updates: { name?: string; avatarFile?: File }
+  ): Promise<void> {
+    try {
+      const group = await this.requireGroupAdmin(conversationId);
+      const changes: Record<string, string> = {};
+      const actor = await this.getCurrentUserName();
+      const systemMessages: string[] = [];
+
+      const newName = updates.name?.trim();
+      if (newName && newName !== group.name) {
+        if (newName.length > GROUP_LIMITS.NAME_MAX_LENGTH) {
+          throw new Error(`Group name must be ${GROUP_LIMITS.NAME_MAX_LENGTH} characters or less`);
+        }
+        changes.group_name = newName;
+        systemMessages.push(`${actor} renamed the group to "${newName}"`);
+      }
+
+      if (updates.avatarFile) {
+        changes.group_avatar = await this.uploadMedia(conversationId, updates.avatarFile);
+        systemMessages.push(`${actor} changed the group photo`);
+      }
+
+      if (Object.keys(changes).length === 0) return;
+
+      const { error } = await supabase
+        .from('conversations')
+        .update(changes)
+        .eq('id', conversationId);
+
+      if (error) throw error;
+
+      for (const content of systemMessages) {
+        await this.sendSystemMessage(conversationId, content);
+      }
+
+      this.clearGroupCache(conversationId);
+
+    } catch (error) {
+      console.error('Error in updateGroupDetails:', error);
+      throw error;
+    }
+  }
+
+  private async requireGroupAdmin(conversationId: string): Promise<GroupInfo> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const group = await this.getGroupInfo(conversationId, true);
+    if (!group) throw new Error('Group not found');
+
+    const me = group.members.find(member => member.user_id === user.id);
+    if (me?.role !== 'admin') {
+      throw new Error('Only group admins can do this');
+    }
+
+    return group;
+  }
+
+  /**
+   * send_message refuses the 'system' type; this RPC only accepts group members
+   */
+  private async sendSystemMessage(conversationId: string, content: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('send_system_message', {
+        p_conversation_id: conversationId,
+        p_content: content
+      });
+
+      if (error) throw error;
+
+      this.clearCacheByPattern('conversations_');
+      this.clearCacheByPattern(`messages_${conversationId}`);
+    } catch (error) {
+      // The membership change already happened, don't fail the action
+      console.error('Error sending system message:', error);
+    }
+  }
+
+  private async getCurrentUserName(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 'Someone';
+    const names = await this.getDisplayNames([user.id]);
+    return names[user.id];
+  }
+
+  private async getDisplayNames(userIds: string[]): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    userIds.forEach(id => { names[id] = 'User'; });
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, first_name, last_name')
+      .in('id', userIds);
+
+    (data || []).forEach((profile: any) => {
+      names[profile.id] = this.getUserDisplayName(profile.first_name, profile.last_name);
+    });
+
+    return names;
+  }
+
+  private clearGroupCache(conversationId: string): void {
+    localStorage.removeItem(CACHE_KEYS.GROUP_INFO(conversationId));
+    localStorage.removeItem(CACHE_KEYS.GROUP_INFO_TS(conversationId));
+    this.clearCacheByPattern('conversations_');
+  }
+
   // ==================== MESSAGE METHODS ====================
 
   /**
@@ -282,21 +893,17 @@ export class MessagingService {
         return [];
       }
 
+      const { data: { user } } = await supabase.auth.getUser();
+
       // Transform to Message type
-      const messages: Message[] = (data || []).map((item: any) => ({
-        id: item.id,
-        conversation_id: conversationId,
-        sender_id: item.sender_id,
-        sender_name: item.sender_name,
-        sender_avatar: item.sender_avatar,
-        type: item.type as MessageType,
-        content: item.content,
-        listing_id: item.listing_id,
-        listing_title: item.listing_title,
-        media_url: item.media_url,
-        is_read: item.is_read,
-        created_at: item.created_at
-      }));
+      const messages: Message[] = (data || []).map((item: any) => this.mapMessage(item, conversationId))
+        .filter((message: Message) => !user || !message.deleted_for?.includes(user.id));
+
+      // Attach reactions
+      const reactions = await this.getReactions(messages.map(message => message.id));
+      messages.forEach(message => {
+        message.reactions = reactions[message.id] || message.reactions;
+      });
 
       // Cache results
       this.setCacheWithTimestamp(cacheKey, tsKey, messages);
@@ -313,96 +920,826 @@ export class MessagingService {
   }
 
   /**
-   * Send a message
+   * Transform a database row into a Message
+   */
+  private mapMessage(item: any, conversationId: string): Message {
+    return {
+      id: item.id,
+      conversation_id: conversationId,
+      sender_id: item.sender_id,
+      sender_name: item.sender_name,
+      sender_avatar: item.sender_avatar,
+      type: item.type as MessageType,
+      content: item.content,
+      listing_id: item.listing_id,
+      listing_title: item.listing_title,
+      media_url: item.media_url,
+      is_read: item.is_read,
+      created_at: item.created_at,
+      edited_at: item.edited_at || null,
+      is_deleted: !!item.is_deleted,
+      deleted_for: item.deleted_for || [],
+      reply_to_id: item.reply_to_id || null,
+      reply_to: item.reply_to_id && item.reply_to_sender_id ? {
+        id: item.reply_to_id,
+        sender_id: item.reply_to_sender_id,
+        sender_name: item.reply_to_sender_name || 'User',
+        type: (item.reply_to_type || 'text') as MessageType,
+        content: item.reply_to_content,
+        is_deleted: !!item.reply_to_is_deleted
+      } : null,
+      reactions: item.reactions || [],
+      share_card: item.share_card || null,
+      offer_id: item.offer_id || null
+    };
+  }
+
+  /**
+   * Send a message
+   */
+  async sendMessage(
+    conversationId: string,
+    content: string,
+    type: MessageType = 'text',
+    listingId?: string,
+    mediaFile?: File,
+    replyToId?: string
+  ): Promise<string> {
+    try {
+      let mediaUrl: string | undefined;
+
+      // Upload media if provided
+      if (mediaFile) {
+        mediaUrl = await this.uploadMedia(conversationId, mediaFile);
+      }
+
+      return await this.insertMessage(conversationId, content, type, listingId, mediaUrl, replyToId);
+
+    } catch (error) {
+      console.error('Error in sendMessage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert a message row for already uploaded media
+   */
+  private async insertMessage(
+    conversationId: string,
+    content: string,
+    type: MessageType,
+    listingId?: string,
+    mediaUrl?: string,
+    replyToId?: string,
+    shareCard?: ShareCard,
+    offerId?: string,
+    clientId?: string
+  ): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    if (type === 'system') throw new Error('System messages cannot be sent directly');
+
+    // Every send path ends here, including queued messages written before a block
+    await this.assertNotBlocked(conversationId, user.id);
+
+    // Call the PostgreSQL function; a repeated client id returns the existing message
+    const { data: messageId, error } = await supabase.rpc('send_message', {
+      p_conversation_id: conversationId,
+      p_sender_id: user.id,
+      p_content: content,
+      p_type: type,
+      p_listing_id: listingId || null,
+      ...(mediaUrl ? { p_media_url: mediaUrl } : {}),
+      ...(replyToId ? { p_reply_to_id: replyToId } : {}),
+      ...(shareCard ? { p_share_card: shareCard } : {}),
+      ...(offerId ? { p_offer_id: offerId } : {}),
+      ...(clientId ? { p_client_id: clientId } : {})
+    });
+
+    if (error) {
+      console.error('Error sending message:', error);
+      throw error;
+    }
+
+    // Clear caches
+    this.clearCacheByPattern('conversations_');
+    this.clearCacheByPattern(`messages_${conversationId}`);
+    localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS);
+    localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS_TS);
+
+    return messageId;
+  }
+
+  /**
+   * Post an offer card; the offer itself lives in marketplaceService
+   */
+  async sendOfferMessage(
+    conversationId: string,
+    offerId: string,
+    listingId: string,
+    summary: string
+  ): Promise<string> {
+    return this.insertMessage(conversationId, summary, 'offer', listingId, undefined, undefined, undefined, offerId);
+  }
+
+  /**
+   * Send pre-filled marketplace message
+   */
+  async sendMarketplaceMessage(
+    conversationId: string,
+    listingId: string,
+    listingTitle: string
+  ): Promise<string> {
+    // First check if we've already messaged about this listing
+    const hasMessaged = await this.hasMessagedAboutListing(conversationId, listingId);
+    
+    if (hasMessaged) {
+      // If already messaged, just send a generic message
+      return this.sendMessage(
+        conversationId,
+        "Hi, I had a question about your listing",
+        'text',
+        listingId
+      );
+    } else {
+      // First message about this listing - send pre-filled message
+      const content = `Hi, I'm interested in your listing "${listingTitle}". Is it still available?`;
+      
+      return this.sendMessage(
+        conversationId,
+        content,
+        'text',
+        listingId
+      );
+    }
+  }
+
+  /**
+   * Refuse to message across a block in a one-to-one conversation
+   */
+  private async assertNotBlocked(conversationId: string, userId: string): Promise<void> {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .select('user1_id, user2_id')
+      .eq('id', conversationId)
+      .single();
+
+    if (error || !conversation) return;
+
+    const otherUserId = conversation.user1_id === userId ? conversation.user2_id : conversation.user1_id;
+    if (otherUserId && await blockingService.isBlocked(otherUserId)) {
+      throw new Error(BLOCKED_CHAT_REASON);
+    }
+  }
+
+  /**
+   * Check if user has messaged about a listing
+   */
+  async hasMessagedAboutListing(conversationId: string, listingId: string): Promise<boolean> {
+    try {
+      const messages = await this.getConversationMessages(conversationId, 20);
+      return messages.some(msg => msg.listing_id === listingId);
+    } catch (error) {
+      console.error('Error checking listing messages:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a message can still be edited by the given user
+   */
+  canEditMessage(message: Message, userId: string): boolean {
+    return message.sender_id === userId &&
+      message.type === 'text' &&
+      !message.is_deleted &&
+      this.isWithinWindow(message.created_at, MESSAGE_WINDOWS.EDIT);
+  }
+
+  /**
+   * Check if a message can still be deleted for everyone by the given user
+   */
+  canDeleteForEveryone(message: Message, userId: string): boolean {
+    return message.sender_id === userId &&
+      !message.is_deleted &&
+      this.isWithinWindow(message.created_at, MESSAGE_WINDOWS.DELETE_FOR_EVERYONE);
+  }
+
+  private isWithinWindow(createdAt: string, windowMinutes: number): boolean {
+    return Date.now() - new Date(createdAt).getTime() < windowMinutes * 60 * 1000;
+  }
+
+  /**
+   * Edit the content of a sent text message
+   */
+  async editMessage(message: Message, content: string): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const trimmed = content.trim();
+      if (!trimmed) throw new Error('Message cannot be empty');
+
+      if (!this.canEditMessage(message, user.id)) {
+        throw new Error(`Messages can only be edited within ${MESSAGE_WINDOWS.EDIT} minutes of sending`);
+      }
+
+      const { error } = await supabase.rpc('edit_message', {
+        p_message_id: message.id,
+        p_user_id: user.id,
+        p_content: trimmed
+      });
+
+      if (error) {
+        console.error('Error editing message:', error);
+        throw error;
+      }
+
+      // Clear caches
+      this.clearCacheByPattern('conversations_');
+      this.clearCacheByPattern(`messages_${message.conversation_id}`);
+
+    } catch (error) {
+      console.error('Error in editMessage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a message for the current user only, or for everyone in the conversation
+   */
+  async deleteMessage(message: Message, scope: MessageDeleteScope = 'me'): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      if (scope === 'everyone' && !this.canDeleteForEveryone(message, user.id)) {
+        throw new Error(`Messages can only be deleted for everyone within ${MESSAGE_WINDOWS.DELETE_FOR_EVERYONE} minutes of sending`);
+      }
+
+      const { error } = await supabase.rpc('delete_message', {
+        p_message_id: message.id,
+        p_user_id: user.id,
+        p_for_everyone: scope === 'everyone'
+      });
+
+      if (error) {
+        console.error('Error deleting message:', error);
+        throw error;
+      }
+
+      // Only chat uploads belong to the message; shared cards point at listing or business images
+      if (scope === 'everyone' && message.media_url && parseStorageUrl(message.media_url)?.bucket === 'chat-media') {
+        await storageService.deleteFiles([message.media_url]);
+      }
+
+      // Clear caches
+      this.clearCacheByPattern('conversations_');
+      this.clearCacheByPattern(`messages_${message.conversation_id}`);
+
+    } catch (error) {
+      console.error('Error in deleteMessage:', error);
+      throw error;
+    }
+  }
+
+  // ==================== OUTBOX METHODS ====================
+
+  /**
+   * Signed-in user from the locally stored session; unlike getUser() this works offline
+   */
+  private async getSessionUserId(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id || null;
+  }
+
+  /**
+   * Queue a message for delivery and return its optimistic copy.
+   * The outbox survives reloads and is retried when the connection returns.
+   */
+  async queueMessage(
+    conversationId: string,
+    content: string,
+    type: MessageType = 'text',
+    options: {
+      listingId?: string;
+      listingTitle?: string;
+      mediaFile?: File;
+      replyTo?: MessageReplyPreview | null;
+      shareCard?: ShareCard;
+    } = {}
+  ): Promise<Message> {
+    const userId = await this.getSessionUserId();
+    if (!userId) throw new Error('Not authenticated');
+
+    if (type === 'document' && options.mediaFile) {
+      if (!DOCUMENTS.MIME_TYPES.includes(options.mediaFile.type)) {
+        throw new Error('Only PDF documents can be shared');
+      }
+      if (options.mediaFile.size > DOCUMENTS.MAX_SIZE) {
+        throw new Error('Documents must be 10 MB or smaller');
+      }
+    }
+
+    const record: OutboxRecord = {
+      id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      conversation_id: conversationId,
+      sender_id: userId,
+      content,
+      type,
+      listing_id: options.listingId,
+      listing_title: options.listingTitle,
+      reply_to: options.replyTo || null,
+      share_card: options.shareCard,
+      file: options.mediaFile,
+      file_name: options.mediaFile?.name,
+      status: 'queued',
+      attempts: 0,
+      created_at: new Date().toISOString()
+    };
+
+    await this.outbox.put(record);
+    this.flushOutbox().catch(console.error);
+
+    return this.toOutboxMessage(record);
+  }
+
+  /**
+   * Get the current user's undelivered messages for a conversation
+   */
+  async getQueuedMessages(conversationId: string): Promise<Message[]> {
+    const userId = await this.getSessionUserId();
+    if (!userId) return [];
+
+    const records = await this.outbox.getAll();
+    return records
+      .filter(record => record.conversation_id === conversationId && record.sender_id === userId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(record => this.toOutboxMessage(record));
+  }
+
+  /**
+   * Try to deliver everything in the outbox, oldest first
+   */
+  flushOutbox(): Promise<void> {
+    if (!this.outboxFlush) {
+      this.outboxFlush = this.deliverOutbox().finally(() => {
+        this.outboxFlush = null;
+      });
+    }
+    return this.outboxFlush;
+  }
+
+  /**
+   * Retry a failed message
+   */
+  async retryQueuedMessage(tempId: string): Promise<void> {
+    const record = await this.outbox.get(tempId);
+    if (!record) return;
+
+    record.status = 'queued';
+    record.attempts = 0;
+    record.last_error = undefined;
+    await this.outbox.put(record);
+    this.notifyOutboxListeners(record);
+
+    await this.flushOutbox();
+  }
+
+  /**
+   * Drop a message from the outbox without sending it
+   */
+  async discardQueuedMessage(tempId: string): Promise<void> {
+    await this.outbox.remove(tempId);
+    this.revokeOutboxPreview(tempId);
+  }
+
+  /**
+   * Listen for delivery state changes; also retries when the device comes back online
+   */
+  subscribeToOutbox(listener: OutboxListener): () => void {
+    this.outboxListeners.add(listener);
+
+    if (this.outboxListeners.size === 1) {
+      window.addEventListener('online', this.handleOnline);
+      this.outboxTimer = setInterval(() => {
+        this.flushOutbox().catch(console.error);
+      }, OUTBOX.RETRY_INTERVAL);
+    }
+
+    this.flushOutbox().catch(console.error);
+
+    return () => {
+      this.outboxListeners.delete(listener);
+
+      if (this.outboxListeners.size === 0) {
+        window.removeEventListener('online', this.handleOnline);
+        if (this.outboxTimer) {
+          clearInterval(this.outboxTimer);
+          this.outboxTimer = null;
+        }
+      }
+    };
+  }
+
+  private handleOnline = () => {
+    this.flushOutbox().catch(console.error);
+  };
+
+  private async deliverOutbox(): Promise<void> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    // The outbox is shared by every account on the device; only send our own
+    const userId = await this.getSessionUserId();
+    if (!userId) return;
+
+    const records = (await this.outbox.getAll())
+      .filter(record => record.sender_id === userId && record.status !== 'failed')
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    // Keep per-conversation order: stop a conversation at its first undelivered message
+    const blocked = new Set<string>();
+
+    for (const record of records) {
+      if (blocked.has(record.conversation_id)) continue;
+
+      const delivered = await this.deliverRecord(record);
+      if (!delivered) {
+        blocked.add(record.conversation_id);
+      }
+    }
+  }
+
+  private async deliverRecord(record: OutboxRecord): Promise<boolean> {
+    record.status = 'sending';
+    record.attempts += 1;
+    await this.outbox.put(record);
+    this.notifyOutboxListeners(record);
+
+    try {
+      // Upload once; a retry after a failed insert reuses the stored URL
+      if (record.file && !record.media_url) {
+        const file = new File([record.file], record.file_name || 'media', { type: record.file.type });
+        record.media_url = await this.uploadMedia(record.conversation_id, file);
+        await this.outbox.put(record);
+      }
+
+      const messageId = await this.insertMessage(
+        record.conversation_id,
+        record.content,
+        record.type,
+        record.listing_id,
+        record.media_url,
+        record.reply_to?.id,
+        record.share_card,
+        undefined,
+        record.id
+      );
+
+      await this.outbox.remove(record.id);
+      record.status = 'sent';
+      this.notifyOutboxListeners(record, messageId);
+      this.revokeOutboxPreview(record.id);
+      return true;
+
+    } catch (error: any) {
+      console.error('Error delivering queued message:', error);
+
+      // Retrying can't get past a block
+      record.status = record.attempts >= OUTBOX.MAX_ATTEMPTS || error?.message === BLOCKED_CHAT_REASON ? 'failed' : 'queued';
+      record.last_error = error?.message || 'Failed to send';
+      await this.outbox.put(record);
+      this.notifyOutboxListeners(record);
+      return false;
+    }
+  }
+
+  /**
+   * Forget every queued message on this device; called on sign-out
+   */
+  async clearOutbox(): Promise<void> {
+    await this.outbox.clear();
+    this.outboxPreviewUrls.forEach(url => URL.revokeObjectURL(url));
+    this.outboxPreviewUrls.clear();
+  }
+
+  private toOutboxMessage(record: OutboxRecord, messageId?: string): Message {
+    let mediaUrl = record.media_url;
+
+    // Local preview until the upload finishes
+    if (!mediaUrl && record.file) {
+      mediaUrl = this.outboxPreviewUrls.get(record.id);
+      if (!mediaUrl) {
+        mediaUrl = URL.createObjectURL(record.file);
+        this.outboxPreviewUrls.set(record.id, mediaUrl);
+      }
+    }
+
+    return {
+      id: messageId || record.id,
+      conversation_id: record.conversation_id,
+      sender_id: record.sender_id,
+      sender_name: 'You',
+      sender_avatar: '',
+      type: record.type,
+      content: record.content,
+      listing_id: record.listing_id,
+      listing_title: record.listing_title,
+      media_url: mediaUrl,
+      is_read: false,
+      created_at: record.created_at,
+      reply_to_id: record.reply_to?.id || null,
+      reply_to: record.reply_to || null,
+      reactions: [],
+      share_card: record.share_card || null,
+      delivery_status: record.status,
+      delivery_error: record.last_error
+    };
+  }
+
+  private notifyOutboxListeners(record: OutboxRecord, messageId?: string): void {
+    const message = this.toOutboxMessage(record, messageId);
+    this.outboxListeners.forEach(listener => listener(record.id, message));
+  }
+
+  private revokeOutboxPreview(tempId: string): void {
+    const url = this.outboxPreviewUrls.get(tempId);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.outboxPreviewUrls.delete(tempId);
+    }
+  }
+
+  // ==================== REACTION METHODS ====================
+
+  /**
+   * Get aggregated reactions for a set of messages
+   */
+  async getReactions(messageIds: string[]): Promise<Record<string, MessageReaction[]>> {
+    if (messageIds.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .select('message_id, user_id, emoji, created_at')
+        .in('message_id', messageIds)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const reactions: Record<string, MessageReaction[]> = {};
+      messageIds.forEach(id => { reactions[id] = []; });
+
+      (data || []).forEach((row: any) => {
+        const list = reactions[row.message_id] || (reactions[row.message_id] = []);
+        const existing = list.find(reaction => reaction.emoji === row.emoji);
+        if (existing) {
+          existing.count += 1;
+          existing.user_ids.push(row.user_id);
+        } else {
+          list.push({ emoji: row.emoji, count: 1, user_ids: [row.user_id] });
+        }
+      });
+
+      return reactions;
+    } catch (error) {
+      console.error('Error getting reactions:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Add the current user's reaction to a message, or remove it if already present
+   */
+  async toggleReaction(message: Message, emoji: string): Promise<'added' | 'removed'> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('message_reactions')
+        .select('id')
+        .eq('message_id', message.id)
+        .eq('user_id', user.id)
+        .eq('emoji', emoji)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      if (existing) {
+        const { error } = await supabase
+          .from('message_reactions')
+          .delete()
+          .eq('id', existing.id);
+
+        if (error) throw error;
+        this.clearCacheByPattern(`messages_${message.conversation_id}`);
+
+        // DELETE changes can't be filtered by conversation, so tell the others directly
+        // on whichever messages channel is open for this chat (the chat screen's own or ours)
+        supabase.getChannels()
+          .find(channel => channel.topic === `realtime:messages:${message.conversation_id}`)
+          ?.send({
+            type: 'broadcast',
+            event: 'reaction_removed',
+            payload: { message_id: message.id }
+          });
+        return 'removed';
+      }
+
+      const { error } = await supabase
+        .from('message_reactions')
+        .insert({
+          message_id: message.id,
+          conversation_id: message.conversation_id,
+          user_id: user.id,
+          emoji
+        });
+
+      if (error) throw error;
+      this.clearCacheByPattern(`messages_${message.conversation_id}`);
+      return 'added';
+
+    } catch (error) {
+      console.error('Error in toggleReaction:', error);
+      throw error;
+    }
+  }
+
+  // ==================== SEARCH METHODS ====================
+
+  /**
+   * Full-text search over the user's messages in all conversations
+   */
+  async searchMessages(
+    query: string,
+    context?: ConversationContext,
+    limit: number = 30,
+    offset: number = 0
+  ): Promise<MessageSearchResult[]> {
+    const trimmed = query.trim();
+    if (trimmed.length < SEARCH.MIN_QUERY_LENGTH) return [];
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase.rpc('search_messages', {
+        p_user_id: user.id,
+        p_query: trimmed,
+        p_context: context || null,
+        p_limit: limit,
+        p_offset: offset
+      });
+
+      if (error) {
+        console.error('Error searching messages:', error);
+        return [];
+      }
+
+      const terms = this.getSearchTerms(trimmed);
+
+      return (data || [])
+        .filter((item: any) => !item.is_deleted && !(item.deleted_for || []).includes(user.id))
+        .map((item: any): MessageSearchResult => ({
+          message_id: item.message_id,
+          conversation_id: item.conversation_id,
+          context: item.context as ConversationContext,
+          sender_id: item.sender_id,
+          sender_name: item.sender_id === user.id ? 'You' : item.sender_name || 'User',
+          type: item.type as MessageType,
+          content: item.content || '',
+          created_at: item.created_at,
+          snippet: this.buildSnippet(item.content || '', terms),
+          conversation_name: item.context === 'group'
+            ? item.group_name || 'Group'
+            : item.other_user_name || 'User',
+          conversation_avatar: (item.context === 'group' ? item.group_avatar : item.other_user_avatar) || undefined,
+          other_user_id: item.other_user_id || undefined,
+          listing_id: item.listing_id || undefined,
+          listing_title: item.listing_title || undefined
+        }));
+
+    } catch (error) {
+      console.error('Error in searchMessages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the messages around a message, for jumping to a search hit
    */
-  async sendMessage(
+  async getMessageContext(
     conversationId: string,
-    content: string,
-    type: MessageType = 'text',
-    listingId?: string,
-    mediaFile?: File
-  ): Promise<string> {
+    messageId: string,
+    radius: number = SEARCH.CONTEXT_RADIUS
+  ): Promise<Message[]> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      let mediaUrl: string | undefined;
-
-      // Upload media if provided
-      if (mediaFile) {
-        mediaUrl = await this.uploadMedia(conversationId, mediaFile);
-      }
-
-      // Call the PostgreSQL function
-      const { data: messageId, error } = await supabase.rpc('send_message', {
+      const { data, error } = await supabase.rpc('get_message_context', {
         p_conversation_id: conversationId,
-        p_sender_id: user.id,
-        p_content: content,
-        p_type: type,
-        p_listing_id: listingId || null
+        p_message_id: messageId,
+        p_radius: radius
       });
 
       if (error) {
-        console.error('Error sending message:', error);
-        throw error;
+        console.error('Error fetching message context:', error);
+        return [];
       }
 
-      // Clear caches
-      this.clearCacheByPattern('conversations_');
-      this.clearCacheByPattern(`messages_${conversationId}`);
-      localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS);
-      localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS_TS);
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const messages: Message[] = (data || []).map((item: any) => this.mapMessage(item, conversationId))
+        .filter((message: Message) => !user || !message.deleted_for?.includes(user.id));
+
+      const reactions = await this.getReactions(messages.map(message => message.id));
+      messages.forEach(message => {
+        message.reactions = reactions[message.id] || message.reactions;
+      });
 
-      return messageId;
+      return messages;
 
     } catch (error) {
-      console.error('Error in sendMessage:', error);
-      throw error;
+      console.error('Error in getMessageContext:', error);
+      return [];
     }
   }
 
+  private getSearchTerms(query: string): string[] {
+    return query
+      .toLowerCase()
+      .replace(/["']/g, '')
+      .split(/\s+/)
+      .filter(term => term.length > 0 && term !== 'or' && !term.startsWith('-'));
+  }
+
   /**
-   * Send pre-filled marketplace message
+   * Cut a window around the first match and mark every matched term
    */
-  async sendMarketplaceMessage(
-    conversationId: string,
-    listingId: string,
-    listingTitle: string
-  ): Promise<string> {
-    // First check if we've already messaged about this listing
-    const hasMessaged = await this.hasMessagedAboutListing(conversationId, listingId);
-    
-    if (hasMessaged) {
-      // If already messaged, just send a generic message
-      return this.sendMessage(
-        conversationId,
-        "Hi, I had a question about your listing",
-        'text',
-        listingId
-      );
-    } else {
-      // First message about this listing - send pre-filled message
-      const content = `Hi, I'm interested in your listing "${listingTitle}". Is it still available?`;
-      
-      return this.sendMessage(
-        conversationId,
-        content,
-        'text',
-        listingId
-      );
-    }
+  private buildSnippet(content: string, terms: string[]): SearchSnippetPart[] {
+    const lower = content.toLowerCase();
+    const firstMatch = terms
+      .map(term => lower.indexOf(term))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)[0] ?? 0;
+
+    const start = Math.max(0, firstMatch - SEARCH.SNIPPET_RADIUS);
+    const end = Math.min(content.length, firstMatch + SEARCH.SNIPPET_RADIUS * 2);
+    const text = `${start > 0 ? '…' : ''}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+
+    if (terms.length === 0) return [{ text, highlighted: false }];
+
+    const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+
+    return text
+      .split(pattern)
+      .filter(part => part.length > 0)
+      .map(part => ({ text: part, highlighted: terms.includes(part.toLowerCase()) }));
   }
 
+  // ==================== SHARED MEDIA METHODS ====================
+
   /**
-   * Check if user has messaged about a listing
+   * Get one page of the photos, voice notes, documents or listing cards
+   * shared in a conversation, newest first
    */
-  async hasMessagedAboutListing(conversationId: string, listingId: string): Promise<boolean> {
+  async getSharedMedia(
+    conversationId: string,
+    kind: SharedMediaKind,
+    limit: number = SHARED_MEDIA.PAGE_SIZE,
+    offset: number = 0
+  ): Promise<SharedMediaPage> {
     try {
-      const messages = await this.getConversationMessages(conversationId, 20);
-      return messages.some(msg => msg.listing_id === listingId);
+      // Ask for one extra row to know whether another page exists
+      const { data, error } = await supabase.rpc('get_conversation_shared_media', {
+        p_conversation_id: conversationId,
+        p_kind: kind,
+        p_limit: limit + 1,
+        p_offset: offset
+      });
+
+      if (error) {
+        console.error('Error fetching shared media:', error);
+        return { items: [], has_more: false, next_offset: offset };
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const rows = data || [];
+
+      const items: Message[] = rows.slice(0, limit)
+        .map((item: any) => this.mapMessage(item, conversationId))
+        .filter((message: Message) =>
+          !message.is_deleted && (!user || !message.deleted_for?.includes(user.id))
+        );
+
+      return {
+        items,
+        has_more: rows.length > limit,
+        next_offset: offset + Math.min(rows.length, limit)
+      };
+
     } catch (error) {
-      console.error('Error checking listing messages:', error);
-      return false;
+      console.error('Error in getSharedMedia:', error);
+      return { items: [], has_more: false, next_offset: offset };
     }
   }
 
@@ -444,6 +1781,11 @@ export class MessagingService {
         return { canStart: false, reason: 'Not authenticated' };
       }
 
+      // 0. Nobody can chat across a block
+      if (await blockingService.isBlocked(otherUserId)) {
+        return { canStart: false, reason: BLOCKED_CHAT_REASON };
+      }
+
       // 1. Check if current user is verified
       const currentUserStatus = await this.getUserStatus();
       if (currentUserStatus !== 'verified') {
@@ -525,6 +1867,7 @@ export class MessagingService {
       }
 
       const connectedUsers: ConnectionUser[] = [];
+      const blockedIds = await blockingService.getBlockedUserIds();
 
       connections?.forEach((conn: any) => {
         let connectedUser;
@@ -538,7 +1881,7 @@ export class MessagingService {
           connectedUser = conn.user;
         }
 
-        if (connectedUser && connectedUser.id !== user.id) {
+        if (connectedUser && connectedUser.id !== user.id && !blockedIds.has(connectedUser.id)) {
           connectedUsers.push({
             id: connectedUser.id,
             username: this.getUserDisplayName(connectedUser.first_name, connectedUser.last_name),
@@ -598,7 +1941,7 @@ export class MessagingService {
   async getUnreadCounts(): Promise<UnreadCounts> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return { total: 0, marketplace: 0, connection: 0 };
+      if (!user) return { total: 0, marketplace: 0, connection: 0, group: 0 };
 
       const cacheKey = CACHE_KEYS.UNREAD_COUNTS;
       const tsKey = CACHE_KEYS.UNREAD_COUNTS_TS;
@@ -616,23 +1959,36 @@ export class MessagingService {
 
       if (error) {
         console.error('Error fetching unread counts:', error);
-        return { total: 0, marketplace: 0, connection: 0 };
+        return { total: 0, marketplace: 0, connection: 0, group: 0 };
       }
 
-      const counts = data?.[0] || { total_unread: 0, marketplace_unread: 0, connection_unread: 0 };
+      const counts = data?.[0] || { total_unread: 0, marketplace_unread: 0, connection_unread: 0, group_unread: 0 };
       const result: UnreadCounts = {
         total: counts.total_unread || 0,
         marketplace: counts.marketplace_unread || 0,
-        connection: counts.connection_unread || 0
+        connection: counts.connection_unread || 0,
+        group: counts.group_unread || 0
       };
 
+      // Muted conversations don't count towards badges
+      const settings = await this.getConversationSettings(user.id);
+      if (Object.values(settings).some(setting => setting.is_muted)) {
+        const conversations = await this.getConversations();
+        conversations
+          .filter(conversation => settings[conversation.conversation_id]?.is_muted)
+          .forEach(conversation => {
+            result.total = Math.max(0, result.total - conversation.unread_count);
+            result[conversation.context] = Math.max(0, result[conversation.context] - conversation.unread_count);
+          });
+      }
+
       // Cache results
       this.setCacheWithTimestamp(cacheKey, tsKey, result);
       return result;
 
     } catch (error) {
       console.error('Error in getUnreadCounts:', error);
-      return { total: 0, marketplace: 0, connection: 0 };
+      return { total: 0, marketplace: 0, connection: 0, group: 0 };
     }
   }
 
@@ -641,16 +1997,13 @@ export class MessagingService {
    */
   async uploadMedia(conversationId: string, file: File): Promise<string> {
     try {
-      const fileExt = file.name.split('.').pop();
+      // Images go through the shared pipeline; other media is uploaded as-is
+      const { file: processedFile } = await processImage(file, 'chat');
+
+      const fileExt = processedFile.name.split('.').pop();
       const fileName = `${conversationId}/${Date.now()}.${fileExt}`;
       const filePath = `chat-media/${fileName}`;
 
-      // Compress image if needed
-      let processedFile = file;
-      if (file.type.startsWith('image/')) {
-        processedFile = await this.compressImage(file);
-      }
-
       // Upload to storage
       const { error } = await supabase.storage
         .from('chat-media')
@@ -674,62 +2027,27 @@ export class MessagingService {
     }
   }
 
-  private async compressImage(file: File, maxWidth: number = 1200, quality: number = 0.8): Promise<File> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      
-      reader.onload = (event) => {
-        const img = new Image();
-        img.src = event.target?.result as string;
-        
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          let width = img.width;
-          let height = img.height;
-          
-          if (width > maxWidth) {
-            height = (height * maxWidth) / width;
-            width = maxWidth;
-          }
-          
-          canvas.width = width;
-          canvas.height = height;
-          
-          ctx?.drawImage(img, 0, 0, width, height);
-          
-          canvas.toBlob(
-            (blob) => {
-              if (blob) {
-                const compressedFile = new File([blob], file.name, {
-                  type: 'image/webp',
-                  lastModified: Date.now()
-                });
-                resolve(compressedFile);
-              } else {
-                reject(new Error('Compression failed'));
-              }
-            },
-            'image/webp',
-            quality
-          );
-        };
-        
-        img.onerror = reject;
-      };
-      
-      reader.onerror = reject;
-    });
-  }
-
   // ==================== REAL-TIME SUBSCRIPTIONS ====================
 
   /**
-   * Subscribe to new messages in a conversation
+   * Subscribe to new messages in a conversation.
+   * Edits and deletions are delivered through onUpdate, reaction changes through onReactions.
    */
-  subscribeToMessages(conversationId: string, callback: (message: Message) => void): () => void {
+  subscribeToMessages(
+    conversationId: string,
+    callback: (message: Message) => void,
+    onUpdate?: (message: Message) => void,
+    onReactions?: (messageId: string, reactions: MessageReaction[]) => void
+  ): () => void {
+    const refreshReactions = async (messageId?: string) => {
+      if (!messageId || !onReactions) return;
+
+      this.clearCacheByPattern(`messages_${conversationId}`);
+
+      const reactions = await this.getReactions([messageId]);
+      onReactions(messageId, reactions[messageId] || []);
+    };
+
     const channel = supabase
       .channel(`messages:${conversationId}`)
       .on(
@@ -752,6 +2070,34 @@ export class MessagingService {
           callback(newMessage);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          const updatedMessage = this.mapMessage(payload.new, conversationId);
+
+          this.clearCacheByPattern(`messages_${conversationId}`);
+          this.clearCacheByPattern('conversations_');
+
+          onUpdate?.(updatedMessage);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => refreshReactions((payload.new as any)?.message_id)
+      )
+      .on('broadcast', { event: 'reaction_removed' }, ({ payload }) => refreshReactions(payload?.message_id))
       .subscribe();
 
     this.subscriptions.set(`messages:${conversationId}`, () => {
@@ -810,12 +2156,324 @@ export class MessagingService {
     };
   }
 
+  // ==================== PRESENCE & TYPING ====================
+
+  /**
+   * Get online status from the heartbeat data (profiles.last_seen).
+   * Used as the fallback whenever the realtime presence channel is unavailable.
+   */
+  async getHeartbeatPresence(userIds: string[]): Promise<Record<string, UserPresence>> {
+    if (userIds.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, last_seen')
+        .in('id', userIds);
+
+      if (error) throw error;
+
+      const presence: Record<string, UserPresence> = {};
+      (data || []).forEach((row: any) => {
+        const lastSeen = row.last_seen ? new Date(row.last_seen).getTime() : 0;
+        presence[row.id] = {
+          user_id: row.id,
+          is_online: lastSeen > 0 && Date.now() - lastSeen < PRESENCE.HEARTBEAT_ONLINE_WINDOW,
+          last_seen: row.last_seen || undefined,
+          source: 'heartbeat'
+        };
+      });
+
+      return presence;
+    } catch (error) {
+      console.error('Error getting heartbeat presence:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Subscribe to online status of the given users.
+   * The callback receives realtime presence when the channel is connected,
+   * and heartbeat data otherwise.
+   */
+  async subscribeToPresence(userIds: string[], callback: PresenceListener): Promise<() => void> {
+    let heartbeat = await this.getHeartbeatPresence(userIds);
+
+    const listener: PresenceListener = (live) => {
+      const merged: Record<string, UserPresence> = {};
+
+      userIds.forEach(userId => {
+        const fallback = heartbeat[userId];
+
+        if (!this.presenceAvailable) {
+          if (fallback) merged[userId] = fallback;
+          return;
+        }
+
+        merged[userId] = live[userId] || {
+          user_id: userId,
+          is_online: false,
+          last_seen: fallback?.last_seen,
+          source: 'realtime'
+        };
+      });
+
+      callback(merged);
+    };
+
+    // Show heartbeat data straight away, realtime takes over once synced
+    listener(this.readPresenceState());
+    this.presenceListeners.add(listener);
+
+    // Keep the fallback (and last seen times) current
+    const refreshTimer = setInterval(async () => {
+      heartbeat = await this.getHeartbeatPresence(userIds);
+      listener(this.readPresenceState());
+    }, PRESENCE.HEARTBEAT_REFRESH);
+
+    await this.ensurePresenceChannel();
+
+    return () => {
+      clearInterval(refreshTimer);
+      this.presenceListeners.delete(listener);
+      if (this.presenceListeners.size === 0) {
+        const unsubscribe = this.subscriptions.get('presence');
+        if (unsubscribe) {
+          unsubscribe();
+          this.subscriptions.delete('presence');
+        }
+      }
+    };
+  }
+
+  /**
+   * Subscribe to who is typing in the given conversations.
+   * Typing is sent on a channel per conversation, so only its participants see it.
+   */
+  subscribeToTyping(conversationIds: string[], callback: TypingListener): () => void {
+    const listener: TypingListener = () => callback(this.readTypingState(conversationIds));
+
+    conversationIds.forEach(conversationId => {
+      this.ensureTypingChannel(conversationId).listeners.add(listener);
+    });
+    listener({});
+
+    return () => {
+      conversationIds.forEach(conversationId => {
+        const entry = this.typingChannels.get(conversationId);
+        if (!entry) return;
+
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) {
+          this.closeTypingChannel(conversationId);
+        }
+      });
+    };
+  }
+
+  /**
+   * Broadcast that the current user is typing in a conversation.
+   * Typing state clears itself after a short idle period.
+   */
+  sendTyping(conversationId: string): void {
+    if (this.typingTimeout) {
+      clearTimeout(this.typingTimeout);
+    }
+
+    this.typingTimeout = setTimeout(() => this.stopTyping(), PRESENCE.TYPING_IDLE);
+
+    if (this.typingIn && this.typingIn !== conversationId) {
+      this.broadcastTyping(this.typingIn, false);
+    }
+
+    if (this.typingIn !== conversationId || Date.now() - this.typingSentAt > PRESENCE.TYPING_RESEND) {
+      this.typingIn = conversationId;
+      this.typingSentAt = Date.now();
+      this.broadcastTyping(conversationId, true);
+    }
+  }
+
+  /**
+   * Clear the current user's typing state
+   */
+  stopTyping(): void {
+    if (this.typingTimeout) {
+      clearTimeout(this.typingTimeout);
+      this.typingTimeout = null;
+    }
+
+    if (this.typingIn !== null) {
+      this.broadcastTyping(this.typingIn, false);
+      this.typingIn = null;
+      this.typingSentAt = 0;
+    }
+  }
+
+  private async broadcastTyping(conversationId: string, typing: boolean): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    // Only send on channels we already listen to; the chat screen always does
+    this.typingChannels.get(conversationId)?.channel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: user.id, typing }
+    });
+  }
+
+  private ensureTypingChannel(conversationId: string): TypingChannel {
+    const existing = this.typingChannels.get(conversationId);
+    if (existing) return existing;
+
+    const entry: TypingChannel = {
+      channel: supabase.channel(`typing:${conversationId}`),
+      typers: new Map(),
+      listeners: new Set()
+    };
+
+    const notify = () => entry.listeners.forEach(listener => listener({}));
+
+    entry.channel
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const userId: string | undefined = payload?.user_id;
+        if (!userId) return;
+
+        const timer = entry.typers.get(userId);
+        if (timer) clearTimeout(timer);
+        entry.typers.delete(userId);
+
+        // A missed "stopped" message lapses on its own
+        if (payload.typing) {
+          entry.typers.set(userId, setTimeout(() => {
+            entry.typers.delete(userId);
+            notify();
+          }, PRESENCE.TYPING_IDLE));
+        }
+
+        notify();
+      })
+      .subscribe();
+
+    this.typingChannels.set(conversationId, entry);
+    return entry;
+  }
+
+  private closeTypingChannel(conversationId: string): void {
+    const entry = this.typingChannels.get(conversationId);
+    if (!entry) return;
+
+    entry.typers.forEach(timer => clearTimeout(timer));
+    supabase.removeChannel(entry.channel);
+    this.typingChannels.delete(conversationId);
+  }
+
+  private readTypingState(conversationIds: string[]): Record<string, string[]> {
+    const typing: Record<string, string[]> = {};
+    conversationIds.forEach(conversationId => {
+      const entry = this.typingChannels.get(conversationId);
+      if (entry && entry.typers.size > 0) {
+        typing[conversationId] = Array.from(entry.typers.keys());
+      }
+    });
+    return typing;
+  }
+
+  private ensurePresenceChannel(): Promise<void> {
+    if (!this.presenceReady) {
+      this.presenceReady = this.openPresenceChannel();
+    }
+    return this.presenceReady;
+  }
+
+  private async openPresenceChannel(): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      this.presenceUserId = user.id;
+
+      const channel = supabase
+        .channel(PRESENCE.CHANNEL, {
+          config: { presence: { key: user.id } }
+        })
+        .on('presence', { event: 'sync' }, () => this.notifyPresenceListeners())
+        .subscribe((status) => {
+          this.presenceAvailable = status === 'SUBSCRIBED';
+
+          if (this.presenceAvailable) {
+            this.trackPresence();
+          } else {
+            // Fall back to heartbeat data for all listeners
+            this.notifyPresenceListeners();
+          }
+        });
+
+      this.presenceChannel = channel;
+
+      this.subscriptions.set('presence', () => {
+        supabase.removeChannel(channel);
+        this.presenceChannel = null;
+        this.presenceReady = null;
+        this.presenceAvailable = false;
+      });
+    } catch (error) {
+      console.error('Error opening presence channel:', error);
+      this.presenceReady = null;
+    }
+  }
+
+  private async trackPresence(): Promise<void> {
+    if (!this.presenceChannel || !this.presenceAvailable || !this.presenceUserId) return;
+
+    try {
+      await this.presenceChannel.track({
+        user_id: this.presenceUserId,
+        online_at: new Date().toISOString()
+      } as PresencePayload);
+    } catch (error) {
+      console.error('Error tracking presence:', error);
+    }
+  }
+
+  private readPresenceState(): Record<string, UserPresence> {
+    if (!this.presenceChannel || !this.presenceAvailable) return {};
+
+    const state = this.presenceChannel.presenceState<PresencePayload>();
+    const presence: Record<string, UserPresence> = {};
+
+    Object.entries(state).forEach(([userId, metas]) => {
+      // A user may be connected from several devices
+      presence[userId] = {
+        user_id: userId,
+        is_online: true,
+        last_seen: metas[metas.length - 1]?.online_at,
+        source: 'realtime'
+      };
+    });
+
+    return presence;
+  }
+
+  private notifyPresenceListeners(): void {
+    const presence = this.readPresenceState();
+    this.presenceListeners.forEach(listener => listener(presence));
+  }
+
   /**
    * Clean up all subscriptions
    */
   cleanupSubscriptions(): void {
+    this.stopTyping();
     this.subscriptions.forEach(unsubscribe => unsubscribe());
     this.subscriptions.clear();
+    this.presenceListeners.clear();
+    Array.from(this.typingChannels.keys()).forEach(conversationId => this.closeTypingChannel(conversationId));
+    this.outboxListeners.clear();
+    window.removeEventListener('online', this.handleOnline);
+    if (this.outboxTimer) {
+      clearInterval(this.outboxTimer);
+      this.outboxTimer = null;
+    }
   }
 
   /**
@@ -824,6 +2482,7 @@ export class MessagingService {
   clearAllCache(): void {
     this.clearCacheByPattern('conversations_');
     this.clearCacheByPattern('messages_');
+    this.clearCacheByPattern('group_info_');
     localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS);
     localStorage.removeItem(CACHE_KEYS.UNREAD_COUNTS_TS);
     localStorage.removeItem(CACHE_KEYS.USER_STATUS);
@@ -1,5 +1,9 @@
 // services/supabase/profile.ts
 import { supabase } from '../supabase';
+import { blockingService } from './blocking';
+import { marketplaceService } from './marketplace';
+import { businessService } from './business';
+import { storageService } from './storage';
 
 const cacheService = {
   saveToCache(key: string, data: any): void {
@@ -45,6 +49,20 @@ const cacheService = {
   }
 };
 
+// Read before an avatar or header changes so the old file can be removed afterwards
+const getProfileImageUrl = async (
+  userId: string,
+  column: 'avatar_url' | 'header_image_url'
+): Promise<string | null> => {
+  const { data } = await supabase
+    .from('profiles')
+    .select(column)
+    .eq('id', userId)
+    .maybeSingle();
+
+  return (data as Record<string, string | null> | null)?.[column] || null;
+};
+
 export const profileService = {
   // Data fetching methods
   async getProfileData(profileUserId: string, viewerId: string) {
@@ -345,6 +363,9 @@ export const profileService = {
   },
 
   async sendConnectionRequest(targetUserId: string) {
+    if (await blockingService.isBlocked(targetUserId)) {
+      throw new Error('You cannot connect with this user');
+    }
     return this.toggleConnection(targetUserId);
   },
 
@@ -433,6 +454,7 @@ export const profileService = {
     const fileExt = file.name.split('.').pop();
     const fileName = `avatar_${user.id}_${Date.now()}.${fileExt}`;
     const filePath = `${user.id}/${fileName}`;
+    const previousUrl = await getProfileImageUrl(user.id, 'avatar_url');
 
     console.log(`Uploading avatar to: ${filePath}`);
 
@@ -470,6 +492,8 @@ export const profileService = {
     }
 
     console.log('Avatar updated successfully');
+
+    await storageService.deleteFiles([previousUrl]);
     
     this.clearProfileCache(user.id);
     
@@ -485,6 +509,7 @@ export const profileService = {
     const fileExt = file.name.split('.').pop();
     const fileName = `header_${user.id}_${Date.now()}.${fileExt}`;
     const filePath = `${user.id}/${fileName}`;
+    const previousUrl = await getProfileImageUrl(user.id, 'header_image_url');
 
     console.log(`Uploading header to: ${filePath}`);
 
@@ -522,6 +547,8 @@ export const profileService = {
     }
 
     console.log('Header updated successfully');
+
+    await storageService.deleteFiles([previousUrl]);
     
     this.clearProfileCache(user.id);
     
@@ -534,6 +561,8 @@ export const profileService = {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('No user found');
 
+    const previousUrl = await getProfileImageUrl(user.id, 'avatar_url');
+
     const { data, error } = await supabase
       .from('profiles')
       .update({ 
@@ -550,6 +579,8 @@ export const profileService = {
     }
 
     console.log('Avatar removed successfully');
+
+    await storageService.deleteFiles([previousUrl]);
     
     this.clearProfileCache(user.id);
     
@@ -562,6 +593,8 @@ export const profileService = {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('No user found');
 
+    const previousUrl = await getProfileImageUrl(user.id, 'header_image_url');
+
     const { data, error } = await supabase
       .from('profiles')
       .update({ 
@@ -578,6 +611,8 @@ export const profileService = {
     }
 
     console.log('Header removed successfully');
+
+    await storageService.deleteFiles([previousUrl]);
     
     this.clearProfileCache(user.id);
     
@@ -586,10 +621,18 @@ export const profileService = {
 
   // Content management methods
   async deletePost(postId: string) {
+    const { data: post } = await supabase
+      .from('posts')
+      .select('media_urls')
+      .eq('id', postId)
+      .maybeSingle();
+
     const { error } = await supabase.rpc('delete_post', {
       p_post_id: postId
     });
     if (error) throw error;
+
+    await storageService.deleteFiles(post?.media_urls || []);
   },
 
   async updatePost(postId: string, data: any) {
@@ -602,6 +645,8 @@ export const profileService = {
   },
 
   async updateListing(listingId: string, data: any) {
+    const previous = await marketplaceService.getListingById(listingId);
+
     const { error } = await supabase.rpc('update_listing', {
       p_listing_id: listingId,
       p_title: data.title,
@@ -612,16 +657,26 @@ export const profileService = {
       p_location: data.location
     });
     if (error) throw error;
+
+    if (previous && data.price != null) {
+      await marketplaceService.handlePriceChange(listingId, previous.price, Number(data.price));
+    }
   },
 
   async deleteListing(listingId: string) {
+    const listing = await marketplaceService.getListingById(listingId);
+
     const { error } = await supabase.rpc('delete_listing', {
       p_listing_id: listingId
     });
     if (error) throw error;
+
+    await storageService.deleteFiles(listing?.images || []);
   },
 
   async updateBusiness(businessId: string, data: any) {
+    await businessService.requirePermission(businessId, 'edit_details');
+
     const { error } = await supabase.rpc('update_business', {
       p_business_id: businessId,
       p_name: data.name,
@@ -632,16 +687,23 @@ export const profileService = {
       p_address: data.address,
       p_email: data.email,
       p_phone: data.phone,
-      p_website: data.website
+      p_website: data.website,
+      // Leave saved hours alone unless the caller is editing them
+      ...('hours' in data ? { p_hours: data.hours ?? null } : {})
     });
     if (error) throw error;
   },
 
   async deleteBusiness(businessId: string) {
+    await businessService.requirePermission(businessId, 'delete_business');
+    const imageUrls = await businessService.getBusinessImageUrls(businessId);
+
     const { error } = await supabase.rpc('delete_business', {
       p_business_id: businessId
     });
     if (error) throw error;
+
+    await storageService.deleteFiles(imageUrls);
   },
 
   async updateJob(jobId: string, data: any) {
@@ -1,120 +1,189 @@
 import { supabase } from '../supabase';
+import { processImage, getThumbnailUrl, ImagePreset } from '../../utils/imagePipeline';
 
-export const storageService = {
-  async uploadMarketplaceImages(files: File[], userId: string): Promise<string[]> {
-    const imageUrls: string[] = [];
-    
-    for (const file of files) {
-      try {
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${Date.now()}_${Math.random().toString(36).substring(2)}.${fileExt}`;
-        const filePath = `marketplace/${userId}/${fileName}`;
+export type UploadProgressHandler = (done: number, total: number) => void;
 
-        const { error: uploadError } = await supabase.storage
-          .from('marketplace-images')
-          .upload(filePath, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
+export const STORAGE_BUCKETS = ['marketplace-images', 'post-media', 'business-images', 'profile-images', 'chat-media'];
 
-        if (uploadError) {
-          console.error('Upload error:', uploadError);
-          continue;
-        }
+export interface BucketUsage {
+  bucket: string;
+  bytes: number;
+  files: number;
+}
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('marketplace-images')
-          .getPublicUrl(filePath);
+export interface StorageStats {
+  used: number;
+  available: number;
+  buckets: BucketUsage[];
+}
 
-        imageUrls.push(publicUrl);
-      } catch (error) {
-        console.error('Error uploading image:', error);
-      }
-    }
-    
-    return imageUrls;
-  },
+const STORAGE_QUOTA_BYTES = 1024 * 1024 * 100;
+const PUBLIC_URL_MARKER = '/storage/v1/object/public/';
+const REMOVE_BATCH_SIZE = 100;
 
-  async uploadPostImages(files: File[], userId: string): Promise<string[]> {
+/**
+ * Bucket and object path of one of our public storage URLs; null for anything else
+ */
+export const parseStorageUrl = (url: string): { bucket: string; path: string } | null => {
+  const markerIndex = url.indexOf(PUBLIC_URL_MARKER);
+  if (markerIndex === -1) return null;
+
+  const [bucket, ...pathParts] = url.slice(markerIndex + PUBLIC_URL_MARKER.length).split('?')[0].split('/');
+  if (!STORAGE_BUCKETS.includes(bucket) || pathParts.length === 0) return null;
+
+  return { bucket, path: decodeURIComponent(pathParts.join('/')) };
+};
+
+interface ImageUploadTarget {
+  bucket: string;
+  folder: string;
+  preset: ImagePreset;
+}
+
+export const storageService = {
+  /**
+   * Process and upload images one by one through the shared pipeline.
+   * Thumbnails sit next to the original as "<name>_thumb.<ext>".
+   */
+  async uploadImages(
+    files: File[],
+    userId: string,
+    target: ImageUploadTarget,
+    onProgress?: UploadProgressHandler
+  ): Promise<string[]> {
     const imageUrls: string[] = [];
-    
+    const bucket = supabase.storage.from(target.bucket);
+
     for (const file of files) {
       try {
-        const fileExt = file.name.split('.').pop();
+        const { file: processed, thumbnail } = await processImage(file, target.preset);
+        const fileExt = processed.name.split('.').pop();
         const fileName = `${Date.now()}_${Math.random().toString(36).substring(2)}.${fileExt}`;
-        const filePath = `posts/${userId}/${fileName}`;
+        const filePath = `${target.folder}/${userId}/${fileName}`;
 
-        const { error: uploadError } = await supabase.storage
-          .from('post-media')
-          .upload(filePath, file);
+        const { error: uploadError } = await bucket.upload(filePath, processed, {
+          cacheControl: '3600',
+          upsert: false
+        });
 
         if (uploadError) throw uploadError;
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('post-media')
-          .getPublicUrl(filePath);
+        if (thumbnail) {
+          await bucket.upload(getThumbnailUrl(filePath), thumbnail, {
+            cacheControl: '3600',
+            upsert: false
+          });
+        }
 
-        imageUrls.push(publicUrl);
+        imageUrls.push(bucket.getPublicUrl(filePath).data.publicUrl);
+        onProgress?.(imageUrls.length, files.length);
       } catch (error) {
-        console.error('Error uploading post image:', error);
+        console.error(`Error uploading ${target.folder} image:`, error);
         throw error;
       }
     }
-    
+
     return imageUrls;
   },
 
-  async uploadBusinessImages(files: File[], userId: string): Promise<string[]> {
-    const imageUrls: string[] = [];
-    
-    for (const file of files) {
-      try {
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${Date.now()}_${Math.random().toString(36).substring(2)}.${fileExt}`;
-        const filePath = `business/${userId}/${fileName}`;
+  async uploadMarketplaceImages(files: File[], userId: string, onProgress?: UploadProgressHandler): Promise<string[]> {
+    return this.uploadImages(files, userId, {
+      bucket: 'marketplace-images',
+      folder: 'marketplace',
+      preset: 'listing'
+    }, onProgress);
+  },
 
-        const { error: uploadError } = await supabase.storage
-          .from('business-images')
-          .upload(filePath, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
+  async uploadPostImages(files: File[], userId: string, onProgress?: UploadProgressHandler): Promise<string[]> {
+    return this.uploadImages(files, userId, {
+      bucket: 'post-media',
+      folder: 'posts',
+      preset: 'post'
+    }, onProgress);
+  },
 
-        if (uploadError) throw uploadError;
+  async uploadBusinessImages(
+    files: File[],
+    userId: string,
+    preset: ImagePreset = 'banner',
+    onProgress?: UploadProgressHandler
+  ): Promise<string[]> {
+    return this.uploadImages(files, userId, {
+      bucket: 'business-images',
+      folder: 'business',
+      preset
+    }, onProgress);
+  },
+
+  /**
+   * Remove objects from a bucket in batches; returns how many were removed
+   */
+  async removeObjects(bucket: string, paths: string[]): Promise<number> {
+    let removed = 0;
+
+    for (let start = 0; start < paths.length; start += REMOVE_BATCH_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .remove(paths.slice(start, start + REMOVE_BATCH_SIZE));
+
+      if (error) throw error;
+      removed += data?.length || 0;
+    }
+
+    return removed;
+  },
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('business-images')
-          .getPublicUrl(filePath);
+  /**
+   * Delete the files behind content that is being removed, thumbnails included.
+   * Best effort: a storage failure never blocks the delete itself, and the
+   * admin orphan sweep picks up anything left behind.
+   */
+  async deleteFiles(fileUrls: (string | null | undefined)[]): Promise<void> {
+    const pathsByBucket = new Map<string, string[]>();
+
+    for (const url of fileUrls) {
+      const location = url ? parseStorageUrl(url) : null;
+      if (!location) continue;
+
+      const paths = pathsByBucket.get(location.bucket) || [];
+      paths.push(location.path, getThumbnailUrl(location.path));
+      pathsByBucket.set(location.bucket, paths);
+    }
 
-        imageUrls.push(publicUrl);
+    for (const [bucket, paths] of pathsByBucket) {
+      try {
+        await this.removeObjects(bucket, paths);
       } catch (error) {
-        console.error('Error uploading business image:', error);
-        throw error;
+        console.error(`Error deleting files from ${bucket}:`, error);
       }
     }
-    
-    return imageUrls;
   },
 
   async deleteImage(fileUrl: string): Promise<void> {
+    await this.deleteFiles([fileUrl]);
+  },
+
+  /**
+   * Usage per bucket, summed server-side from the storage object metadata
+   */
+  async getStorageStats(): Promise<StorageStats> {
     try {
-      const urlParts = fileUrl.split('/');
-      const fileName = urlParts[urlParts.length - 1];
-      const userId = urlParts[urlParts.length - 2];
-      const folder = urlParts[urlParts.length - 3];
-      const filePath = `${folder}/${userId}/${fileName}`;
+      const { data, error } = await supabase.rpc('get_storage_usage');
+      if (error) throw error;
 
-      const { error } = await supabase.storage
-        .from('marketplace-images')
-        .remove([filePath]);
+      const buckets: BucketUsage[] = STORAGE_BUCKETS.map(bucket => {
+        const row = (data || []).find((item: any) => item.bucket_id === bucket);
+        return { bucket, bytes: Number(row?.bytes) || 0, files: Number(row?.files) || 0 };
+      });
 
-      if (error) throw error;
+      return {
+        used: buckets.reduce((sum, bucket) => sum + bucket.bytes, 0),
+        available: STORAGE_QUOTA_BYTES,
+        buckets
+      };
     } catch (error) {
-      console.error('Error deleting image:', error);
+      console.error('Error loading storage usage:', error);
+      return { used: 0, available: STORAGE_QUOTA_BYTES, buckets: [] };
     }
-  },
-
-  async getStorageStats(): Promise<{ used: number; available: number }> {
-    return { used: 0, available: 1024 * 1024 * 100 };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,104 @@
+// src/shared/services/OutboxStore.ts
+// Persistent key/value store for work that must survive reloads while offline.
+// Uses IndexedDB so records can hold Blobs (queued media); falls back to memory.
+export class OutboxStore<T extends { id: string }> {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, T>();
+
+  constructor(dbName: string = 'app_outbox', storeName: string = 'records') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(this.dbName, 1);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Outbox store unavailable, using memory:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Outbox store unavailable, using memory:', error);
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+
+  private async run<R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await this.open();
+    if (!db) throw new Error('IndexedDB unavailable');
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = action(transaction.objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAll(): Promise<T[]> {
+    try {
+      return await this.run('readonly', store => store.getAll() as IDBRequest<T[]>);
+    } catch {
+      return Array.from(this.memory.values());
+    }
+  }
+
+  async get(id: string): Promise<T | null> {
+    try {
+      const record = await this.run('readonly', store => store.get(id) as IDBRequest<T | undefined>);
+      return record || null;
+    } catch {
+      return this.memory.get(id) || null;
+    }
+  }
+
+  async put(record: T): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.put(record));
+    } catch {
+      this.memory.set(record.id, record);
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.delete(id));
+    } catch {
+      this.memory.delete(id);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    try {
+      await this.run('readwrite', store => store.clear());
+    } catch {
+      // Memory fallback already cleared
+    }
+  }
+}
@@ -12,6 +12,8 @@ export interface Business {
   website: string;
   logo_url: string;
   banner_url: string;
+  gallery_urls?: string[];   // Business photos in display order; the first is also the banner
+  hours?: BusinessHours | null;
   is_registered: boolean;
   verification_status: 'pending' | 'approved' | 'rejected';
   average_rating: number;
@@ -33,6 +35,100 @@ export interface Review {
   rating: number;
   comment: string;
   created_at: string;
+  updated_at?: string | null;       // Set when the author edits the review
+  owner_reply?: string | null;
+  owner_reply_at?: string | null;
+}
+
+export type BusinessRole = 'owner' | 'manager' | 'staff';
+
+export type BusinessPermission =
+  | 'edit_details'
+  | 'manage_catalog'
+  | 'reply_reviews'
+  | 'manage_members'
+  | 'view_insights'
+  | 'transfer_ownership'
+  | 'delete_business';
+
+// Someone who runs the business with the owner; the owner is listed too
+export interface BusinessMember {
+  business_id: string;
+  user_id: string;
+  role: BusinessRole;
+  status: 'invited' | 'active';
+  invited_by?: string | null;
+  created_at: string;
+  user_name: string;
+  user_avatar?: string | null;
+}
+
+// Interactions counted for the owner's insights page
+export type BusinessEventType =
+  | 'profile_view'
+  | 'phone_click'
+  | 'email_click'
+  | 'website_click'
+  | 'map_click'
+  | 'search_appearance';
+
+export type InsightsPeriod = 'daily' | 'weekly' | 'monthly';
+
+// Activity for one day, week or month
+export interface InsightsBucket {
+  start: string;                          // YYYY-MM-DD, first day of the bucket
+  events: Record<BusinessEventType, number>;
+  new_reviews: number;
+  average_rating: number | null;          // Of reviews left in this bucket
+}
+
+// A product or service a business offers, shown on its page
+export interface CatalogItem {
+  id: string;
+  business_id: string;
+  name: string;
+  description?: string | null;
+  price: number | null;         // Naira; null means "price on request"
+  unit?: string | null;         // e.g. "per yard", "per bag", "per hour"
+  image_urls: string[];
+  is_available: boolean;
+  listing_id?: string | null;   // Marketplace listing selling this item
+  sort_order: number;
+  created_at: string;
+  updated_at?: string;
+  business_name?: string;       // Set on catalog search results
+}
+
+export interface CatalogItemInput {
+  name: string;
+  description?: string;
+  price: number | null;
+  unit?: string;
+  is_available: boolean;
+  listing_id?: string | null;
+}
+
+export type ReviewFlagReason = 'spam' | 'fake' | 'offensive' | 'conflict_of_interest' | 'other';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Local Kano time, 24-hour "HH:MM"; a close earlier than the open runs past midnight
+export interface TimeRange {
+  open: string;
+  close: string;
+}
+
+// A day that differs from the weekly pattern, e.g. a public holiday
+export interface HoursException {
+  date: string;              // YYYY-MM-DD
+  closed: boolean;
+  ranges?: TimeRange[];      // Special hours when not closed
+  note?: string;
+}
+
+export interface BusinessHours {
+  weekly: Record<Weekday, TimeRange[]>;   // Several ranges make a break, e.g. for Jumu'ah
+  exceptions: HoursException[];
 }
 
 export interface BusinessFilters {
@@ -41,6 +137,7 @@ export interface BusinessFilters {
   location_axis?: string;
   search?: string;
   min_rating?: number;
+  open_now?: boolean;
   limit?: number;
   offset?: number;
 }
@@ -17,6 +17,121 @@ export interface MarketplaceListing {
   seller_verified: boolean;
   is_favorited: boolean;
   favorite_count: number;
+  is_reserved?: boolean;       // An offer was accepted; held for reserved_for
+  reserved_for?: string | null;
+  alerts_enabled?: boolean;    // Favoriter gets price-drop and back-in-stock alerts
+  expires_at?: string | null;  // Hidden from the marketplace after this until renewed
+  attributes?: ListingAttributes;
+}
+
+// Category-specific details such as { make: 'Toyota', year: 2015 }
+export type ListingAttributes = Record<string, string | number>;
+
+export interface ListingAttributeField {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'select';
+  required?: boolean;
+  options?: string[];      // For select fields
+  min?: number;            // For number fields
+  max?: number;
+  unit?: string;           // Shown after the value, e.g. "km"
+  placeholder?: string;
+  filterable?: boolean;    // Offered as a filter in the marketplace
+}
+
+export type ListingStatus = 'active' | 'reserved' | 'sold' | 'expired';
+
+export type ListingAlertKind = 'price_drop' | 'back_in_stock';
+
+export interface ListingPricePoint {
+  price: number;
+  recorded_at: string;
+}
+
+export type OfferStatus = 'pending' | 'countered' | 'accepted' | 'declined' | 'expired';
+
+export interface MarketplaceOffer {
+  id: string;
+  listing_id: string;
+  listing_title: string;
+  listing_price: number;
+  buyer_id: string;
+  buyer_name: string;
+  buyer_avatar: string;
+  seller_id: string;
+  amount: number;
+  message?: string;
+  status: OfferStatus;
+  created_by: string;              // Buyer for the opening offer; either side for counters
+  parent_offer_id?: string | null; // The offer this one counters
+  conversation_id?: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface SavedSearchCriteria {
+  query?: string;
+  category?: string;
+  condition?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  location?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  notify: boolean;                 // Send an in-app notification for new matches
+  last_matched_at?: string | null;
+  created_at: string;
+}
+
+export interface ListingImportRow {
+  rowNumber: number;     // Spreadsheet row, counting the header as row 1
+  listing: {
+    title: string;
+    description: string;
+    price: number;
+    category: string;
+    condition: 'new' | 'used' | 'refurbished';
+    location: string;
+    images: File[];
+    attributes: ListingAttributes;
+  };
+  imageNames: string[];  // As written in the sheet, for the preview
+  errors: string[];
+}
+
+export interface ListingImportResult {
+  rowNumber: number;
+  listingId?: string;
+  error?: string;
+}
+
+export interface MarketplaceReview {
+  id: string;
+  listing_id: string;
+  listing_title: string;
+  seller_id: string;
+  reviewer_id: string;
+  reviewer_name: string;
+  reviewer_avatar: string;
+  rating: number;
+  comment: string;
+  created_at: string;
+}
+
+export interface SellerReputation {
+  seller_id: string;
+  average_rating: number;
+  review_count: number;
+  rating_counts: number[];               // Index 0 holds 1-star reviews
+  completed_sales: number;
+  response_rate: number | null;          // 0-1 share of buyer chats answered; null before any
+  avg_response_minutes: number | null;
 }
 
 export interface MarketplaceMessage {
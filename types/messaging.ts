@@ -1,5 +1,6 @@
-export type ConversationContext = 'marketplace' | 'connection';
-export type MessageType = 'text' | 'image' | 'video' | 'audio';
+export type ConversationContext = 'marketplace' | 'connection' | 'group';
+export type MessageType = 'text' | 'image' | 'video' | 'audio' | 'document' | 'share_card' | 'offer' | 'system';
+export type GroupRole = 'admin' | 'member';
 
 export interface Conversation {
   id: string;
@@ -13,6 +14,45 @@ export interface Conversation {
   context: ConversationContext;
   listing_id?: string;
   listing_title?: string;
+  // Group conversations only
+  group_name?: string;
+  group_avatar?: string;
+  member_count?: number;
+  // Per-user list settings
+  is_pinned?: boolean;
+  is_archived?: boolean;
+  is_muted?: boolean;
+}
+
+export interface GroupMember {
+  user_id: string;
+  name: string;
+  avatar_url?: string;
+  role: GroupRole;
+  joined_at: string;
+}
+
+export interface GroupInfo {
+  id: string;
+  name: string;
+  avatar_url?: string;
+  created_by: string;
+  members: GroupMember[];
+}
+
+export interface MessageReplyPreview {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  type: MessageType;
+  content?: string;
+  is_deleted?: boolean;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  user_ids: string[];
 }
 
 export interface Message {
@@ -28,12 +68,85 @@ export interface Message {
   media_url?: string;
   is_read: boolean;
   created_at: string;
+  edited_at?: string | null;
+  is_deleted?: boolean;       // Deleted for everyone
+  deleted_for?: string[];     // User ids who deleted the message for themselves
+  reply_to_id?: string | null;
+  reply_to?: MessageReplyPreview | null;
+  reactions?: MessageReaction[];
+  share_card?: ShareCard | null;  // Set on share_card messages
+  offer_id?: string | null;       // Set on offer messages; the card loads the live offer
+  delivery_status?: MessageDeliveryStatus; // Set on own messages that went through the outbox
+  delivery_error?: string;
+}
+
+export type ShareCardKind = 'listing' | 'business' | 'job' | 'event';
+
+// Snapshot of a listing, business, job or event shared into a chat
+export interface ShareCard {
+  kind: ShareCardKind;
+  entity_id: string;
+  title: string;
+  subtitle?: string;
+  image_url?: string;
+  price?: number | null;      // Naira; listings only
+  price_label?: string;       // Free-text price such as a job salary
+  verified?: boolean;
+  path: string;               // In-app deep link
+}
+
+// Outbox lifecycle of a message sent from this device
+export type MessageDeliveryStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export type MessageDeleteScope = 'me' | 'everyone';
+
+// Tabs of the shared media gallery in the conversation info panel
+export type SharedMediaKind = 'media' | 'audio' | 'document' | 'listing';
+
+export interface SharedMediaPage {
+  items: Message[];
+  has_more: boolean;
+  next_offset: number;
+}
+
+// Piece of a search snippet; matched terms are highlighted
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface MessageSearchResult {
+  message_id: string;
+  conversation_id: string;
+  context: ConversationContext;
+  sender_id: string;
+  sender_name: string;
+  type: MessageType;
+  content: string;
+  created_at: string;
+  snippet: SearchSnippetPart[];
+  // Conversation details for display and navigation
+  conversation_name: string;
+  conversation_avatar?: string;
+  other_user_id?: string;
+  listing_id?: string;
+  listing_title?: string;
+}
+
+export type PresenceSource = 'realtime' | 'heartbeat';
+
+export interface UserPresence {
+  user_id: string;
+  is_online: boolean;
+  last_seen?: string;
+  source: PresenceSource;
 }
 
 export interface UnreadCounts {
   total: number;
   marketplace: number;
   connection: number;
+  group: number;
 }
 
 export interface ConnectionUser {
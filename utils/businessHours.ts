@@ -0,0 +1,194 @@
+// Weekly opening hours: working out whether a business is open right now,
+// when it next opens or closes, and checking what owners enter.
+// All times are Kano wall-clock time (WAT, UTC+1 with no daylight saving),
+// so "open now" is the same answer whatever time zone the viewer's phone is in.
+
+import { BusinessHours, TimeRange, Weekday } from '../types/business';
+
+export const WEEKDAYS: { key: Weekday; label: string }[] = [
+  { key: 'mon', label: 'Monday' },
+  { key: 'tue', label: 'Tuesday' },
+  { key: 'wed', label: 'Wednesday' },
+  { key: 'thu', label: 'Thursday' },
+  { key: 'fri', label: 'Friday' },
+  { key: 'sat', label: 'Saturday' },
+  { key: 'sun', label: 'Sunday' }
+];
+
+// Indexed by Date#getUTCDay()
+const WEEKDAY_BY_DAY_INDEX: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const KANO_UTC_OFFSET_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// A typical market week, with Friday closed for Jumu'ah prayers
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  weekly: {
+    mon: [{ open: '08:00', close: '18:00' }],
+    tue: [{ open: '08:00', close: '18:00' }],
+    wed: [{ open: '08:00', close: '18:00' }],
+    thu: [{ open: '08:00', close: '18:00' }],
+    fri: [{ open: '08:00', close: '12:30' }, { open: '14:30', close: '18:00' }],
+    sat: [{ open: '08:00', close: '18:00' }],
+    sun: []
+  },
+  exceptions: []
+};
+
+export interface OpenStatus {
+  isOpen: boolean;
+  label: string;    // "Open now · Closes 6:00 PM", "Closed · Opens tomorrow 8:00 AM"
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const formatHoursTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+export const formatRanges = (ranges: TimeRange[]): string =>
+  ranges.length === 0
+    ? 'Closed'
+    : ranges.map(range => `${formatHoursTime(range.open)} – ${formatHoursTime(range.close)}`).join(', ');
+
+// Kano calendar date, weekday and minutes past midnight for an instant
+const toKanoTime = (instant: Date) => {
+  const shifted = new Date(instant.getTime() + KANO_UTC_OFFSET_MINUTES * 60 * 1000);
+  return {
+    date: shifted.toISOString().slice(0, 10),
+    weekday: WEEKDAY_BY_DAY_INDEX[shifted.getUTCDay()],
+    minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+  };
+};
+
+export const getTodayInKano = (): string => toKanoTime(new Date()).date;
+
+export const getWeekdayInKano = (): Weekday => toKanoTime(new Date()).weekday;
+
+/**
+ * Opening ranges for one Kano date, earliest first; a holiday exception replaces the weekly pattern
+ */
+export const getRangesForDate = (hours: BusinessHours, date: string, weekday: Weekday): TimeRange[] => {
+  const exception = hours.exceptions.find(item => item.date === date);
+  const ranges = exception
+    ? (exception.closed ? [] : exception.ranges || [])
+    : hours.weekly[weekday] || [];
+
+  return [...ranges].sort((a, b) => toMinutes(a.open) - toMinutes(b.open));
+};
+
+const runsPastMidnight = (range: TimeRange) => toMinutes(range.close) <= toMinutes(range.open);
+
+/**
+ * Whether the business is open at `now`, with the next closing or opening time.
+ * Returns null when the business has not published hours.
+ */
+export const getOpenStatus = (hours: BusinessHours | null | undefined, now: Date = new Date()): OpenStatus | null => {
+  if (!hours) return null;
+
+  const today = toKanoTime(now);
+  const yesterday = toKanoTime(new Date(now.getTime() - DAY_MS));
+
+  const lateNight = getRangesForDate(hours, yesterday.date, yesterday.weekday)
+    .find(range => runsPastMidnight(range) && today.minutes < toMinutes(range.close));
+  if (lateNight) {
+    return { isOpen: true, label: `Open now · Closes ${formatHoursTime(lateNight.close)}` };
+  }
+
+  const todayRanges = getRangesForDate(hours, today.date, today.weekday);
+
+  const current = todayRanges.find(range =>
+    today.minutes >= toMinutes(range.open) && (runsPastMidnight(range) || today.minutes < toMinutes(range.close))
+  );
+  if (current) {
+    return { isOpen: true, label: `Open now · Closes ${formatHoursTime(current.close)}` };
+  }
+
+  const laterToday = todayRanges.find(range => toMinutes(range.open) > today.minutes);
+  if (laterToday) {
+    return { isOpen: false, label: `Closed · Opens ${formatHoursTime(laterToday.open)}` };
+  }
+
+  for (let offset = 1; offset <= 7; offset++) {
+    const day = toKanoTime(new Date(now.getTime() + offset * DAY_MS));
+    const [first] = getRangesForDate(hours, day.date, day.weekday);
+
+    if (first) {
+      const dayLabel = offset === 1 ? 'tomorrow' : WEEKDAYS.find(item => item.key === day.weekday)?.label;
+      return { isOpen: false, label: `Closed · Opens ${dayLabel} ${formatHoursTime(first.open)}` };
+    }
+  }
+
+  return { isOpen: false, label: 'Closed' };
+};
+
+export const isOpenNow = (hours: BusinessHours | null | undefined): boolean =>
+  getOpenStatus(hours)?.isOpen === true;
+
+const validateRanges = (ranges: TimeRange[], dayLabel: string): string | null => {
+  for (const range of ranges) {
+    if (!TIME_PATTERN.test(range.open) || !TIME_PATTERN.test(range.close)) {
+      return `${dayLabel}: enter times as HH:MM`;
+    }
+    if (range.open === range.close) {
+      return `${dayLabel}: opening and closing times must differ`;
+    }
+  }
+
+  const sorted = [...ranges].sort((a, b) => toMinutes(a.open) - toMinutes(b.open));
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    if (runsPastMidnight(previous) || toMinutes(sorted[i].open) < toMinutes(previous.close)) {
+      return `${dayLabel}: opening times overlap`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * First problem with the entered hours, or null when they are usable
+ */
+export const validateHours = (hours: BusinessHours): string | null => {
+  for (const day of WEEKDAYS) {
+    const error = validateRanges(hours.weekly[day.key] || [], day.label);
+    if (error) return error;
+  }
+
+  for (const exception of hours.exceptions) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(exception.date)) {
+      return 'Choose a date for each holiday';
+    }
+    if (!exception.closed) {
+      const error = validateRanges(exception.ranges || [], exception.date);
+      if (error) return error;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Tidy hours before saving: ranges in order and past holidays dropped
+ */
+export const normalizeHours = (hours: BusinessHours): BusinessHours => {
+  const today = getTodayInKano();
+  const weekly = {} as BusinessHours['weekly'];
+
+  for (const day of WEEKDAYS) {
+    weekly[day.key] = [...(hours.weekly[day.key] || [])].sort((a, b) => toMinutes(a.open) - toMinutes(b.open));
+  }
+
+  return {
+    weekly,
+    exceptions: hours.exceptions
+      .filter(exception => exception.date >= today)
+      .sort((a, b) => a.date.localeCompare(b.date))
+  };
+};
@@ -0,0 +1,119 @@
+// Bucketing and export for the business insights page.
+// Buckets are Kano calendar days, Monday-start weeks and calendar months.
+
+import { BusinessEventType, InsightsBucket, InsightsPeriod } from '../types/business';
+import { getTodayInKano } from './businessHours';
+
+export const INSIGHT_METRICS: { key: BusinessEventType; label: string }[] = [
+  { key: 'profile_view', label: 'Profile views' },
+  { key: 'search_appearance', label: 'Search appearances' },
+  { key: 'phone_click', label: 'Phone taps' },
+  { key: 'email_click', label: 'Email taps' },
+  { key: 'website_click', label: 'Website visits' },
+  { key: 'map_click', label: 'Map opens' }
+];
+
+export const INSIGHT_PERIODS: { key: InsightsPeriod; label: string; buckets: number }[] = [
+  { key: 'daily', label: 'Daily', buckets: 30 },
+  { key: 'weekly', label: 'Weekly', buckets: 12 },
+  { key: 'monthly', label: 'Monthly', buckets: 12 }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const emptyEvents = (): Record<BusinessEventType, number> => ({
+  profile_view: 0,
+  search_appearance: 0,
+  phone_click: 0,
+  email_click: 0,
+  website_click: 0,
+  map_click: 0
+});
+
+/**
+ * First day of the bucket containing `date`
+ */
+export const getBucketStart = (date: string, period: InsightsPeriod): string => {
+  if (period === 'daily') return date;
+  if (period === 'monthly') return `${date.slice(0, 7)}-01`;
+
+  const day = parseDate(date);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return toDateString(new Date(day.getTime() - daysSinceMonday * DAY_MS));
+};
+
+/**
+ * Bucket start dates for the period, oldest first, ending with the current bucket
+ */
+export const getBucketStarts = (period: InsightsPeriod, today: string = getTodayInKano()): string[] => {
+  const count = INSIGHT_PERIODS.find(item => item.key === period)?.buckets || 30;
+  const current = parseDate(getBucketStart(today, period));
+  const starts: string[] = [];
+
+  for (let i = count - 1; i >= 0; i--) {
+    if (period === 'monthly') {
+      starts.push(toDateString(new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i, 1))));
+    } else {
+      const step = period === 'weekly' ? 7 : 1;
+      starts.push(toDateString(new Date(current.getTime() - i * step * DAY_MS)));
+    }
+  }
+
+  return starts;
+};
+
+/**
+ * One bucket per start date, with zeros where nothing happened
+ */
+export const fillBuckets = (starts: string[], rows: Partial<InsightsBucket>[]): InsightsBucket[] => {
+  const byStart = new Map<string, Partial<InsightsBucket>>();
+  rows.forEach(row => row.start && byStart.set(row.start, row));
+
+  return starts.map(start => {
+    const row = byStart.get(start);
+    return {
+      start,
+      events: { ...emptyEvents(), ...(row?.events || {}) },
+      new_reviews: row?.new_reviews || 0,
+      average_rating: row?.average_rating ?? null
+    };
+  });
+};
+
+export const sumMetric = (buckets: InsightsBucket[], metric: BusinessEventType): number =>
+  buckets.reduce((sum, bucket) => sum + bucket.events[metric], 0);
+
+/**
+ * Average of all reviews across the buckets, weighted by how many each bucket had
+ */
+export const averageRating = (buckets: InsightsBucket[]): number | null => {
+  const rated = buckets.filter(bucket => bucket.average_rating != null && bucket.new_reviews > 0);
+  const count = rated.reduce((sum, bucket) => sum + bucket.new_reviews, 0);
+  if (count === 0) return null;
+  return rated.reduce((sum, bucket) => sum + (bucket.average_rating as number) * bucket.new_reviews, 0) / count;
+};
+
+export const formatBucketLabel = (start: string, period: InsightsPeriod): string => {
+  const date = parseDate(start);
+  const options: Intl.DateTimeFormatOptions = period === 'monthly'
+    ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+    : { month: 'short', day: 'numeric', timeZone: 'UTC' };
+  const label = date.toLocaleDateString('en-NG', options);
+  return period === 'weekly' ? `Week of ${label}` : label;
+};
+
+/**
+ * Spreadsheet rows: a header, then one row per bucket
+ */
+export const insightsToCsvRows = (buckets: InsightsBucket[], period: InsightsPeriod): string[][] => [
+  [period === 'daily' ? 'Date' : period === 'weekly' ? 'Week starting' : 'Month', ...INSIGHT_METRICS.map(metric => metric.label), 'New reviews', 'Average rating'],
+  ...buckets.map(bucket => [
+    period === 'monthly' ? bucket.start.slice(0, 7) : bucket.start,
+    ...INSIGHT_METRICS.map(metric => String(bucket.events[metric.key])),
+    String(bucket.new_reviews),
+    bucket.average_rating != null ? bucket.average_rating.toFixed(1) : ''
+  ])
+];
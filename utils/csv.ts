@@ -0,0 +1,82 @@
+// Minimal CSV reading and writing (RFC 4180 quoting) for spreadsheet imports
+
+export interface CsvRecord {
+  cells: string[];
+  line: number;     // 1-based line the record starts on, for error messages
+}
+
+/**
+ * Split CSV text into records of cells; quoted cells may contain commas,
+ * doubled quotes and line breaks. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): CsvRecord[] => {
+  const rows: CsvRecord[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push({ cells: row, line: rowLine });
+    row = [];
+    cell = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // A line break inside a quoted cell still moves to the next line of the file
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const escapeCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * Save rows as a .csv download in the browser
+ */
+export const downloadCsv = (filename: string, rows: string[][]): void => {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
@@ -1,4 +1,5 @@
 import { formatDistanceToNow } from 'date-fns';
+import { formatNaira } from './money';
 
 export const formatTimeAgo = (dateString: string) => {
   try {
@@ -41,5 +42,18 @@ export function formatMessagePreview(content: string | null, maxLength: number =
 // Format price
 export function formatPrice(price: number | null): string {
   if (!price) return 'Price not set';
-  return `$${price.toFixed(2)}`;
-};
\ No newline at end of file
+  return formatNaira(price);
+};
+
+// Catalog prices are optional and usually quoted per unit
+export const formatCatalogPrice = (item: { price: number | null; unit?: string | null }): string =>
+  item.price != null
+    ? `${formatNaira(item.price)}${item.unit ? ` ${item.unit}` : ''}`
+    : 'Price on request';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+};
@@ -0,0 +1,119 @@
+// Client-side image processing shared by every upload: resize, re-encode as
+// WebP and build a thumbnail. Redrawing onto a canvas keeps only the pixels,
+// so EXIF metadata such as GPS location never leaves the device.
+
+export type ImagePreset = 'listing' | 'post' | 'logo' | 'banner' | 'chat';
+
+interface PresetOptions {
+  maxDimension: number;
+  quality: number;
+  thumbnail: boolean;
+}
+
+const PRESETS: Record<ImagePreset, PresetOptions> = {
+  listing: { maxDimension: 1600, quality: 0.82, thumbnail: true },
+  post: { maxDimension: 1600, quality: 0.82, thumbnail: true },
+  logo: { maxDimension: 512, quality: 0.9, thumbnail: false },
+  banner: { maxDimension: 1920, quality: 0.82, thumbnail: true },
+  chat: { maxDimension: 1200, quality: 0.8, thumbnail: false }
+};
+
+const THUMBNAIL_DIMENSION = 400;
+const THUMBNAIL_QUALITY = 0.7;
+const THUMBNAIL_SUFFIX = '_thumb';
+
+// A canvas would flatten animation or rasterise vectors, so these are uploaded as-is
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+export interface ProcessedImage {
+  file: File;
+  thumbnail?: File;
+}
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read image "${file.name}"`));
+    };
+    img.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+const encode = async (
+  img: HTMLImageElement,
+  maxDimension: number,
+  quality: number,
+  baseName: string
+): Promise<File> => {
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Image processing is not supported on this device');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  // Browsers without WebP encoding hand back PNG, which is far larger than JPEG
+  let blob = await canvasToBlob(canvas, 'image/webp', quality);
+  if (blob && blob.type !== 'image/webp') {
+    blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+  }
+  if (!blob) throw new Error('Compression failed');
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  return new File([blob], `${baseName}.${extension}`, { type: blob.type, lastModified: Date.now() });
+};
+
+/**
+ * Resize and re-encode an image for upload, plus a thumbnail when the preset wants one
+ */
+export const processImage = async (file: File, preset: ImagePreset): Promise<ProcessedImage> => {
+  if (!file.type.startsWith('image/') || PASSTHROUGH_TYPES.includes(file.type)) {
+    return { file };
+  }
+
+  const options = PRESETS[preset];
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+
+  // Formats the browser can't decode (HEIC outside Safari) go up unchanged, without a thumbnail
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(file);
+  } catch {
+    return { file };
+  }
+
+  const processed = await encode(img, options.maxDimension, options.quality, baseName);
+  const thumbnail = options.thumbnail
+    ? await encode(img, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY, `${baseName}${THUMBNAIL_SUFFIX}`)
+    : undefined;
+
+  return { file: processed, thumbnail };
+};
+
+/**
+ * Storage path (or public URL) of an image's thumbnail: "a/b/photo.webp" -> "a/b/photo_thumb.webp"
+ */
+export const getThumbnailUrl = (url: string): string =>
+  url.replace(/(\.[a-z0-9]+)?$/i, `${THUMBNAIL_SUFFIX}$1`);
+
+/**
+ * Move an item within a list; used by the drag-to-reorder photo pickers
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,162 @@
+// Marketplace categories and the extra details each one asks sellers for.
+// The schema drives the create form, its validation, the listing page and
+// the attribute filters, so adding a field here is all a new detail needs.
+
+import { ListingAttributeField, ListingAttributes } from '../types/marketplace';
+
+export const LISTING_CATEGORIES = [
+  'Electronics', 'Fashion', 'Textiles', 'Vehicles', 'Property', 'Services', 'Others'
+];
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+export const CATEGORY_ATTRIBUTES: Record<string, ListingAttributeField[]> = {
+  Vehicles: [
+    {
+      key: 'make',
+      label: 'Make',
+      type: 'select',
+      required: true,
+      filterable: true,
+      options: ['Toyota', 'Honda', 'Lexus', 'Mercedes-Benz', 'Hyundai', 'Kia', 'Nissan', 'Ford', 'Peugeot', 'Volkswagen', 'Other']
+    },
+    { key: 'model', label: 'Model', type: 'text', required: true, placeholder: 'e.g. Corolla' },
+    { key: 'year', label: 'Year', type: 'number', required: true, min: 1960, max: CURRENT_YEAR + 1 },
+    { key: 'mileage', label: 'Mileage', type: 'number', min: 0, unit: 'km' },
+    {
+      key: 'transmission',
+      label: 'Transmission',
+      type: 'select',
+      filterable: true,
+      options: ['Automatic', 'Manual']
+    },
+    {
+      key: 'fuel',
+      label: 'Fuel',
+      type: 'select',
+      filterable: true,
+      options: ['Petrol', 'Diesel', 'Hybrid', 'Electric', 'CNG']
+    }
+  ],
+  Electronics: [
+    { key: 'brand', label: 'Brand', type: 'text', required: true, placeholder: 'e.g. Samsung' },
+    { key: 'model', label: 'Model', type: 'text', placeholder: 'e.g. Galaxy S23' },
+    {
+      key: 'warranty',
+      label: 'Warranty',
+      type: 'select',
+      filterable: true,
+      options: ['None', 'Under 6 months', '6-12 months', 'Over 12 months']
+    }
+  ],
+  Textiles: [
+    {
+      key: 'fabric',
+      label: 'Fabric',
+      type: 'select',
+      required: true,
+      filterable: true,
+      options: ['Ankara', 'Lace', 'Aso Oke', 'Adire', 'Atiku', 'Cashmere', 'Guinea Brocade', 'Other']
+    },
+    { key: 'yards', label: 'Length', type: 'number', required: true, min: 1, max: 1000, unit: 'yards' },
+    { key: 'colour', label: 'Colour', type: 'text', placeholder: 'e.g. Wine and gold' }
+  ],
+  Fashion: [
+    {
+      key: 'gender',
+      label: 'For',
+      type: 'select',
+      filterable: true,
+      options: ['Men', 'Women', 'Unisex', 'Children']
+    },
+    { key: 'size', label: 'Size', type: 'text', placeholder: 'e.g. XL or 42' }
+  ],
+  Property: [
+    {
+      key: 'listing_type',
+      label: 'Listing type',
+      type: 'select',
+      required: true,
+      filterable: true,
+      options: ['For Sale', 'For Rent', 'Shortlet']
+    },
+    {
+      key: 'property_type',
+      label: 'Property type',
+      type: 'select',
+      required: true,
+      filterable: true,
+      options: ['Flat', 'Duplex', 'Bungalow', 'Self Contain', 'Land', 'Shop', 'Office']
+    },
+    { key: 'bedrooms', label: 'Bedrooms', type: 'number', min: 0, max: 20 }
+  ]
+};
+
+export const getCategoryAttributes = (category: string): ListingAttributeField[] =>
+  CATEGORY_ATTRIBUTES[category] || [];
+
+export const getFilterableAttributes = (category: string): ListingAttributeField[] =>
+  getCategoryAttributes(category).filter(field => field.filterable);
+
+/**
+ * Check form values against the category schema; returns errors keyed by field
+ */
+export const validateAttributes = (
+  category: string,
+  values: Record<string, string>
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  for (const field of getCategoryAttributes(category)) {
+    const raw = (values[field.key] || '').trim();
+
+    if (!raw) {
+      if (field.required) errors[field.key] = `${field.label} is required`;
+      continue;
+    }
+
+    if (field.type === 'number') {
+      const value = Number(raw.replace(/,/g, ''));
+      if (isNaN(value)) {
+        errors[field.key] = `${field.label} must be a number`;
+      } else if (field.min != null && value < field.min) {
+        errors[field.key] = `${field.label} must be at least ${field.min}`;
+      } else if (field.max != null && value > field.max) {
+        errors[field.key] = `${field.label} must be at most ${field.max}`;
+      }
+    }
+
+    if (field.type === 'select' && field.options && !field.options.includes(raw)) {
+      errors[field.key] = `Choose a ${field.label.toLowerCase()}`;
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Keep only the category's fields, trimmed, with numbers stored as numbers
+ */
+export const normalizeAttributes = (
+  category: string,
+  values: Record<string, string>
+): ListingAttributes => {
+  const attributes: ListingAttributes = {};
+
+  for (const field of getCategoryAttributes(category)) {
+    const raw = (values[field.key] || '').trim();
+    if (!raw) continue;
+
+    attributes[field.key] = field.type === 'number' ? Number(raw.replace(/,/g, '')) : raw;
+  }
+
+  return attributes;
+};
+
+// Measured values get separators ("120,000 km"); counts and years stay plain
+export const formatAttributeValue = (field: ListingAttributeField, value: string | number): string => {
+  if (!field.unit) return String(value);
+
+  const text = typeof value === 'number' ? value.toLocaleString('en-NG') : value;
+  return `${text} ${field.unit}`;
+};
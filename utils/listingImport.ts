@@ -0,0 +1,121 @@
+// Bulk listing import: the spreadsheet template and row validation.
+// Rows are checked with the same rules as the single-listing form.
+
+import { ListingImportRow } from '../types/marketplace';
+import { parseCsv } from './csv';
+import { parsePriceInput } from './money';
+import {
+  LISTING_CATEGORIES, CATEGORY_ATTRIBUTES, getCategoryAttributes, validateAttributes, normalizeAttributes
+} from './listingAttributes';
+
+export const MAX_IMPORT_ROWS = 500;
+const MAX_IMAGES_PER_LISTING = 5;
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const BASE_COLUMNS = ['title', 'description', 'price', 'category', 'condition', 'location', 'images'];
+const CONDITIONS = ['new', 'used', 'refurbished'];
+
+// Category details go in columns named after the attribute, e.g. "fabric" or "yards"
+const ATTRIBUTE_COLUMNS = Array.from(
+  new Set(Object.values(CATEGORY_ATTRIBUTES).flat().map(field => field.key))
+);
+
+const SAMPLE_ROW: Record<string, string> = {
+  title: 'Ankara print, 6 yards',
+  description: 'Premium Dutch wax',
+  price: '18,500',
+  category: 'Textiles',
+  condition: 'new',
+  location: 'Kantin Kwari, Kano',
+  images: 'ankara-red.jpg; ankara-red-2.jpg',
+  fabric: 'Ankara',
+  yards: '6',
+  colour: 'Red and gold'
+};
+
+export const buildImportTemplate = (): string[][] => {
+  const columns = [...BASE_COLUMNS, ...ATTRIBUTE_COLUMNS];
+  return [columns, columns.map(column => SAMPLE_ROW[column] || '')];
+};
+
+/**
+ * Read a CSV export and validate every row, matching image names to the chosen files
+ */
+export const parseListingImport = (csvText: string, imageFiles: File[]): ListingImportRow[] => {
+  const [headerRecord, ...dataRows] = parseCsv(csvText);
+  const header = headerRecord?.cells;
+
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const missing = ['title', 'price', 'category', 'location'].filter(name => !columns.includes(name));
+
+  if (missing.length > 0) {
+    throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import up to ${MAX_IMPORT_ROWS} listings at a time`);
+  }
+
+  const filesByName = new Map(imageFiles.map(file => [file.name.toLowerCase(), file]));
+
+  return dataRows.map(({ cells, line }) => {
+    const value = (column: string) => (cells[columns.indexOf(column)] || '').trim();
+    const errors: string[] = [];
+
+    const title = value('title');
+    if (!title) errors.push('Title is required');
+    else if (title.length < 3) errors.push('Title must be at least 3 characters');
+    else if (title.length > 100) errors.push('Title must be 100 characters or less');
+
+    const price = parsePriceInput(value('price')).min;
+    if (price == null) errors.push(`Price "${value('price')}" is not a number`);
+    else if (price <= 0) errors.push('Price must be greater than 0');
+
+    const category = LISTING_CATEGORIES.find(name => name.toLowerCase() === value('category').toLowerCase()) || '';
+    if (!category) errors.push(`Category must be one of ${LISTING_CATEGORIES.join(', ')}`);
+
+    const condition = (value('condition') || 'used').toLowerCase();
+    if (!CONDITIONS.includes(condition)) errors.push('Condition must be new, used or refurbished');
+
+    const location = value('location');
+    if (!location) errors.push('Location is required');
+
+    const imageNames = value('images').split(/[;|]/).map(name => name.trim()).filter(Boolean);
+    const images: File[] = [];
+    for (const name of imageNames) {
+      const file = filesByName.get(name.toLowerCase());
+      if (!file) errors.push(`Image "${name}" was not selected`);
+      else if (!file.type.startsWith('image/')) errors.push(`"${name}" is not an image`);
+      else if (file.size > MAX_IMAGE_SIZE) errors.push(`"${name}" is larger than 5MB`);
+      else images.push(file);
+    }
+    if (imageNames.length === 0) errors.push('At least one image is required');
+    if (imageNames.length > MAX_IMAGES_PER_LISTING) errors.push(`Up to ${MAX_IMAGES_PER_LISTING} images per listing`);
+
+    const attributeValues: Record<string, string> = {};
+    for (const field of getCategoryAttributes(category)) {
+      attributeValues[field.key] = value(field.key);
+    }
+    errors.push(...Object.values(validateAttributes(category, attributeValues)));
+
+    return {
+      rowNumber: line,
+      listing: {
+        title,
+        description: value('description').slice(0, 1000),
+        price: price ?? 0,
+        category,
+        condition: condition as ListingImportRow['listing']['condition'],
+        location,
+        images,
+        attributes: normalizeAttributes(category, attributeValues)
+      },
+      imageNames,
+      errors
+    };
+  });
+};
@@ -0,0 +1,154 @@
+// Naira money and locale helpers. Amounts are stored in naira (with kobo as
+// decimals); all display goes through these helpers so every screen agrees.
+
+export const NAIRA_SIGN = '₦';
+export const LOCALE = 'en-NG';
+
+const KOBO_PER_NAIRA = 100;
+
+// Rough reference rate for the optional USD hint; not used for any charge
+export const NGN_PER_USD = 1500;
+
+export interface FormatNairaOptions {
+  kobo?: boolean | 'auto';   // 'auto' shows kobo only when the amount has any
+  compact?: boolean;
+}
+
+export interface ParsedPrice {
+  min: number | null;
+  max: number | null;
+  negotiable: boolean;
+}
+
+export const nairaToKobo = (naira: number): number => Math.round(naira * KOBO_PER_NAIRA);
+
+export const koboToNaira = (kobo: number): number => kobo / KOBO_PER_NAIRA;
+
+// Drop floating point noise below one kobo
+export const roundToKobo = (naira: number): number => koboToNaira(nairaToKobo(naira));
+
+/**
+ * Compact display such as ₦850k, ₦1.2m or ₦3b
+ */
+export const formatNairaCompact = (amount: number): string => {
+  const abs = Math.abs(amount);
+  const sign = amount < 0 ? '-' : '';
+  const units: [number, string][] = [[1e9, 'b'], [1e6, 'm'], [1e3, 'k']];
+
+  for (let i = 0; i < units.length; i++) {
+    const [size, suffix] = units[i];
+    if (abs >= size) {
+      const value = abs / size;
+      const rounded = Number(value.toFixed(value >= 100 ? 0 : 1));
+      // Rounding can reach the next unit up: 999,999 is ₦1m, not ₦1000k
+      if (rounded >= 1000 && i > 0) {
+        return `${sign}${NAIRA_SIGN}1${units[i - 1][1]}`;
+      }
+      return `${sign}${NAIRA_SIGN}${rounded}${suffix}`;
+    }
+  }
+
+  return `${sign}${NAIRA_SIGN}${Math.round(abs).toLocaleString(LOCALE)}`;
+};
+
+/**
+ * ₦ with thousand separators; kobo are hidden unless asked for
+ */
+export const formatNaira = (
+  amount: number | null | undefined,
+  { kobo = 'auto', compact = false }: FormatNairaOptions = {}
+): string => {
+  if (amount == null || isNaN(amount)) return '';
+  if (compact) return formatNairaCompact(amount);
+
+  const rounded = roundToKobo(amount);
+  const showKobo = kobo === true || (kobo === 'auto' && nairaToKobo(rounded) % KOBO_PER_NAIRA !== 0);
+  const digits = showKobo ? 2 : 0;
+
+  const formatted = Math.abs(rounded).toLocaleString(LOCALE, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  });
+
+  return `${rounded < 0 ? '-' : ''}${NAIRA_SIGN}${formatted}`;
+};
+
+/**
+ * Approximate dollar value, e.g. "≈ $800"
+ */
+export const formatUsdReference = (amount: number, ngnPerUsd: number = NGN_PER_USD): string => {
+  const usd = amount / ngnPerUsd;
+  return `≈ ${usd.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: usd < 10 ? 2 : 0
+  })}`;
+};
+
+// "1,200", "₦1.2m", "N150k", "2.5 million" -> naira
+const parseAmount = (text: string): number | null => {
+  const match = text
+    .toLowerCase()
+    .replace(/₦|ngn|naira/g, '')
+    .replace(/^\s*n(?=\s*\d)/, '')
+    .replace(/,/g, '')
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)\s*(k|thousand|m|mil|million|b|bn|billion)?$/);
+
+  if (!match) return null;
+
+  const multipliers: Record<string, number> = {
+    k: 1e3, thousand: 1e3,
+    m: 1e6, mil: 1e6, million: 1e6,
+    b: 1e9, bn: 1e9, billion: 1e9
+  };
+  const value = parseFloat(match[1]) * (match[2] ? multipliers[match[2]] : 1);
+
+  return roundToKobo(value);
+};
+
+/**
+ * Read a free-text price or salary such as "₦200k - ₦300k/month" or "Negotiable"
+ */
+export const parsePriceInput = (text: string): ParsedPrice => {
+  const normalized = text.toLowerCase().trim();
+  const negotiable = /negotiable|neg\b|competitive|o\.?n\.?o/.test(normalized);
+
+  const amountPart = normalized
+    .replace(/\(?(negotiable|neg|competitive|o\.?n\.?o)\)?/g, '')
+    .replace(/\s*(\/|per)\s*(month|mo|year|yr|annum|week|day|hour|hr)\b.*$/, '')
+    .replace(/\b(monthly|yearly|annually|weekly|daily)\b/g, '')
+    .trim();
+
+  const [first, second] = amountPart.split(/\s*(?:-|–|\bto\b)\s*/);
+  const min = first ? parseAmount(first) : null;
+  const max = second ? parseAmount(second) : null;
+
+  return {
+    min,
+    max: max ?? min,
+    negotiable
+  };
+};
+
+// "150000 monthly" and "150000/month" both read as ₦150,000/month
+const SALARY_PERIODS: Record<string, string> = { dai: 'day', annual: 'year' };
+
+/**
+ * Tidy a free-text salary for display, keeping anything we cannot read as typed
+ */
+export const formatSalary = (salary: string): string => {
+  if (!salary) return '';
+
+  const { min, max, negotiable } = parsePriceInput(salary);
+  if (min == null) return salary;
+
+  const period = salary.match(/(?:\/|per|a)\s*(month|mo|year|yr|annum|week|day|hour|hr)\b/i)
+    || salary.match(/\b(month|year|week|dai|hour)ly\b|\b(annual)ly\b/i);
+  const periodWord = period ? (period[1] || period[2]).toLowerCase() : '';
+  const range = max != null && max !== min
+    ? `${formatNaira(min)} - ${formatNaira(max)}`
+    : formatNaira(min);
+
+  return `${range}${periodWord ? `/${SALARY_PERIODS[periodWord] || periodWord}` : ''}${negotiable ? ' (negotiable)' : ''}`;
+};
@@ -29,6 +29,7 @@ export const createMessageNotification = async (
   messageContent: string
 ) => {
   try {
+    // The RPC skips receivers who muted the conversation; their settings aren't readable here
     const { data, error } = await supabase.rpc('create_message_notification', {
       p_receiver_id: receiverId,
       p_sender_id: senderId,
@@ -0,0 +1,59 @@
+import { MarketplaceListing } from '../types/marketplace';
+import { Business } from '../types/business';
+import { Job, Event } from '../types/explore';
+import { ShareCard } from '../types/messaging';
+import { formatSalary } from './money';
+
+export const listingShareCard = (listing: MarketplaceListing): ShareCard => ({
+  kind: 'listing',
+  entity_id: listing.id,
+  title: listing.title,
+  subtitle: [listing.condition, listing.location].filter(Boolean).join(' • '),
+  image_url: listing.images?.[0],
+  price: listing.price,
+  verified: !!listing.seller_verified,
+  path: `/marketplace/${listing.id}`
+});
+
+export const businessShareCard = (business: Business): ShareCard => ({
+  kind: 'business',
+  entity_id: business.id,
+  title: business.name,
+  subtitle: [business.category, business.location_axis].filter(Boolean).join(' • '),
+  image_url: business.logo_url || business.banner_url || undefined,
+  verified: business.verification_status === 'approved',
+  path: `/business/${business.id}`
+});
+
+// Jobs have no page of their own, so the card opens the jobs tab
+export const jobShareCard = (job: Job): ShareCard => ({
+  kind: 'job',
+  entity_id: job.id,
+  title: job.title,
+  subtitle: [job.company_name, job.location].filter(Boolean).join(' • '),
+  image_url: job.company_avatar || undefined,
+  price_label: job.salary ? formatSalary(job.salary) : undefined,
+  verified: !!job.company_verified,
+  path: '/explore'
+});
+
+export const eventShareCard = (
+  event: Pick<Event, 'id' | 'title' | 'event_date' | 'location' | 'image_url' | 'organizer_verified'>
+): ShareCard => ({
+  kind: 'event',
+  entity_id: event.id,
+  title: event.title,
+  subtitle: [
+    new Date(event.event_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+    event.location
+  ].filter(Boolean).join(' • '),
+  image_url: event.image_url || undefined,
+  verified: !!event.organizer_verified,
+  path: `/event/${event.id}`
+});
+
+// One-line text for previews, notifications and search
+export const describeShareCard = (card: ShareCard): string => {
+  const label = { listing: 'Listing', business: 'Business', job: 'Job', event: 'Event' }[card.kind];
+  return `${label}: ${card.title}`;
+};